@@ -7,12 +7,22 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "@/hooks/useAuth.tsx";
 import { AdminProvider } from "@/hooks/useAdminRole.tsx";
+import { OfflineReportsProvider } from "@/hooks/useOfflineReports.tsx";
+import { CategoriesProvider } from "@/hooks/useCategories.tsx";
+import { PendingReportsTray } from "@/components/PendingReportsTray";
 import ViewReports from "./pages/ViewReports";
+import IssueDetail from "./pages/IssueDetail";
+import MyReports from "./pages/MyReports";
+import Unsubscribe from "./pages/Unsubscribe";
 import AdminAuth from "./pages/AdminAuth";
 import Admin from "./pages/Admin";
 import ProtectedRoute from "@/components/ProtectedRoute.tsx";
 import IssuesManagement from "./pages/IssuesManagement";
 import Analytics from "./pages/Analytics";
+import RoutingRules from "./pages/RoutingRules";
+import Wards from "./pages/Wards";
+import Categories from "./pages/Categories";
+import WorkingCalendars from "./pages/WorkingCalendars";
 
 const queryClient = new QueryClient();
 
@@ -20,13 +30,19 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
       <AdminProvider>
+        <OfflineReportsProvider>
+        <CategoriesProvider>
         <TooltipProvider>
           <Toaster />
           <Sonner />
+          <PendingReportsTray />
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/view-reports" element={<ViewReports />} />
+              <Route path="/issues/:id" element={<IssueDetail />} />
+              <Route path="/my-reports" element={<MyReports />} />
+              <Route path="/unsubscribe/:token" element={<Unsubscribe />} />
               <Route path="/admin-login" element={<AdminAuth />} />
               <Route 
               path="/admin" 
@@ -47,17 +63,51 @@ const App = () => (
             <Route 
               path="/admin/analytics" 
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="analytics.view">
                   <Analytics />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/routing" 
+              element={
+                <ProtectedRoute permission="routing.manage">
+                  <RoutingRules />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/wards" 
+              element={
+                <ProtectedRoute permission="wards.manage">
+                  <Wards />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/categories" 
+              element={
+                <ProtectedRoute permission="categories.manage">
+                  <Categories />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/calendars" 
+              element={
+                <ProtectedRoute permission="calendars.manage">
+                  <WorkingCalendars />
+                </ProtectedRoute>
+              } 
+            />
             <Route path="/view-reports" element={<ViewReports />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
       </TooltipProvider>
+        </CategoriesProvider>
+        </OfflineReportsProvider>
       </AdminProvider>
     </AuthProvider>
   </QueryClientProvider>
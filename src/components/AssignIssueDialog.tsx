@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminRole } from "@/hooks/useAdminRole";
+
+export interface AssignableIssue {
+  id: number;
+  title: string;
+  department_id: string | null;
+  team_id: string | null;
+  assigned_user_id: string | null;
+}
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface Team {
+  id: string;
+  name: string;
+  department_id: string;
+}
+
+interface StaffMember {
+  user_id: string;
+  email: string;
+  department_id: string | null;
+}
+
+interface AssignIssueDialogProps {
+  issue: AssignableIssue | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Radix Select can't hold an empty string, so "nobody" gets a sentinel value
+const NONE = "none";
+
+export const AssignIssueDialog = ({ issue, onOpenChange }: AssignIssueDialogProps) => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [crew, setCrew] = useState<StaffMember[]>([]);
+  const [departmentId, setDepartmentId] = useState(NONE);
+  const [teamId, setTeamId] = useState(NONE);
+  const [assigneeId, setAssigneeId] = useState(NONE);
+  const [saving, setSaving] = useState(false);
+  const { can, departmentIds } = useAdminRole();
+  const { toast } = useToast();
+  const canRoute = can("issues.route");
+
+  useEffect(() => {
+    if (!issue) return;
+    setDepartmentId(issue.department_id ?? NONE);
+    setTeamId(issue.team_id ?? NONE);
+    setAssigneeId(issue.assigned_user_id ?? NONE);
+
+    const fetchOptions = async () => {
+      const [departmentsResult, teamsResult, staffResult] = await Promise.all([
+        supabase.from("departments").select("id, name").order("name"),
+        supabase.from("teams").select("id, name, department_id").order("name"),
+        supabase.rpc("list_staff"),
+      ]);
+
+      const error = departmentsResult.error || teamsResult.error || staffResult.error;
+      if (error) {
+        console.error("Error fetching assignment options:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load departments and crews.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setDepartments(departmentsResult.data || []);
+      setTeams(teamsResult.data || []);
+      setCrew((staffResult.data || []).filter((member) => member.role === "field_crew"));
+    };
+
+    fetchOptions();
+  }, [issue, toast]);
+
+  // Department heads can only hand work to their own departments
+  const departmentOptions = canRoute
+    ? departments
+    : departments.filter((department) => departmentIds.includes(department.id));
+
+  const crewOptions = crew
+    .filter((member) => departmentId === NONE || member.department_id === departmentId)
+    .filter((member, index, list) => list.findIndex((other) => other.user_id === member.user_id) === index);
+
+  const teamOptions = teams.filter((team) => team.department_id === departmentId);
+
+  const handleDepartmentChange = (value: string) => {
+    setDepartmentId(value);
+    setTeamId(NONE);
+    const stillEligible = value === NONE || crew.some((member) => member.user_id === assigneeId && member.department_id === value);
+    if (!stillEligible) setAssigneeId(NONE);
+  };
+
+  const handleSave = async () => {
+    if (!issue) return;
+    const assignee = crew.find((member) => member.user_id === assigneeId);
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("issues")
+      .update({
+        department_id: departmentId === NONE ? null : departmentId,
+        team_id: teamId === NONE ? null : teamId,
+        assigned_user_id: assignee?.user_id ?? null,
+        assigned_to: assignee?.email ?? null,
+      })
+      .eq("id", issue.id);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error assigning issue:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign issue.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Issue Assigned",
+      description: assignee ? `Issue assigned to ${assignee.email}` : `Issue #${issue.id} routing updated.`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!issue} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Assign Issue
+          </DialogTitle>
+          <DialogDescription>
+            Choose the department responsible for #{issue?.id} and the field crew member handling it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={departmentId} onValueChange={handleDepartmentChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {canRoute && <SelectItem value={NONE}>Unrouted</SelectItem>}
+                {departmentOptions.map((department) => (
+                  <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {teamOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select team" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Whole department</SelectItem>
+                  {teamOptions.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Field crew</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select crew member" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Unassigned</SelectItem>
+                {crewOptions.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || (!canRoute && departmentId === NONE)}>
+            {saving ? "Saving..." : "Save Assignment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
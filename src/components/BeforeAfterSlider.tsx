@@ -0,0 +1,40 @@
+import { useState } from "react";
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  className?: string;
+}
+
+export const BeforeAfterSlider = ({ beforeUrl, afterUrl, className = "" }: BeforeAfterSliderProps) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={`relative w-full aspect-[4/3] overflow-hidden rounded-lg bg-black/5 select-none ${className}`}>
+      <img src={afterUrl} alt="After" className="absolute inset-0 w-full h-full object-cover" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt="Before"
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-8 w-8 rounded-full bg-white shadow flex items-center justify-center text-xs font-semibold text-gray-700">
+          ⇆
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">Before</span>
+      <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">After</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Drag to compare before and after"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { Plus, Tags, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORY_ICONS, Category, DEFAULT_CATEGORY_COLOR } from "@/lib/categories";
+import { CATEGORY_FIELD_TYPES, CategoryFieldType, fieldKeyFromLabel, getCategoryFields } from "@/lib/categoryFields";
+
+type Department = Tables<"departments">;
+
+interface CategoryDialogProps {
+  open: boolean;
+  category: Category | null;
+  departments: Department[];
+  nextPosition: number;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const NONE = "none";
+
+// A field as edited: options as typed, and no key until first saved
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: CategoryFieldType;
+  required: boolean;
+  options: string;
+}
+
+const splitOptions = (options: string) =>
+  options
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+export const CategoryDialog = ({
+  open,
+  category,
+  departments,
+  nextPosition,
+  onOpenChange,
+  onSaved,
+}: CategoryDialogProps) => {
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState("help-circle");
+  const [color, setColor] = useState(DEFAULT_CATEGORY_COLOR);
+  const [departmentId, setDepartmentId] = useState(NONE);
+  const [slaHours, setSlaHours] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(category?.name ?? "");
+    setIcon(category?.icon ?? "help-circle");
+    setColor(category?.color ?? DEFAULT_CATEGORY_COLOR);
+    setDepartmentId(category?.default_department_id ?? NONE);
+    setSlaHours(category?.sla_hours ? String(category.sla_hours) : "");
+    setIsActive(category?.is_active ?? true);
+    setFields(
+      getCategoryFields(category).map((field) => ({
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        required: field.required,
+        options: field.options?.join(", ") ?? "",
+      })),
+    );
+  }, [open, category]);
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) =>
+    setFields((current) => current.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+
+  const slaInvalid = slaHours.trim() !== "" && !(Number.isInteger(Number(slaHours)) && Number(slaHours) > 0);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "A category needs a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (slaInvalid) {
+      toast({
+        title: "Invalid SLA",
+        description: "The SLA is a whole number of hours, or empty for none.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (fields.some((field) => !field.label.trim() || (field.type === "select" && splitOptions(field.options).length === 0))) {
+      toast({
+        title: "Incomplete Fields",
+        description: "Every field needs a label, and choice fields need at least one option.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const keys = fields.map((field) => field.key).filter(Boolean);
+    const savedFields = fields.map((field) => {
+      const key = field.key || fieldKeyFromLabel(field.label, keys);
+      if (!field.key) keys.push(key);
+      return {
+        key,
+        label: field.label.trim(),
+        type: field.type,
+        required: field.required,
+        ...(field.type === "select" ? { options: splitOptions(field.options) } : {}),
+      };
+    });
+
+    const values: TablesInsert<"categories"> = {
+      name: name.trim(),
+      icon,
+      color,
+      default_department_id: departmentId === NONE ? null : departmentId,
+      sla_hours: slaHours.trim() ? Number(slaHours) : null,
+      is_active: isActive,
+      fields: savedFields,
+    };
+
+    setSaving(true);
+    const { error } = category
+      ? await supabase.from("categories").update(values).eq("id", category.id)
+      : await supabase.from("categories").insert({ ...values, position: nextPosition });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving category:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save category.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: category ? "Category Updated" : "Category Created", description: values.name });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            {category ? "Edit Category" : "New Category"}
+          </DialogTitle>
+          <DialogDescription>
+            {category
+              ? "Renaming a category also renames it on every report and routing rule that uses it."
+              : "New categories are offered on the report form straight away while active."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input id="category-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Fallen Tree" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <Select value={icon} onValueChange={setIcon}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_ICONS).map(([iconName, Icon]) => (
+                    <SelectItem key={iconName} value={iconName}>
+                      <span className="flex items-center gap-2">
+                        <Icon className="h-4 w-4" />
+                        {iconName}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-color">Colour</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="category-color"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-14 p-1"
+                />
+                <Input value={color} onChange={(e) => setColor(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Default department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-sla">SLA (hours)</Label>
+              <Input
+                id="category-sla"
+                inputMode="numeric"
+                value={slaHours}
+                onChange={(e) => setSlaHours(e.target.value)}
+                placeholder="No target"
+              />
+              {slaInvalid && <p className="text-xs text-destructive">Enter a whole number of hours.</p>}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Reports no routing rule matches go to the default department.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Report form questions</Label>
+            <p className="text-xs text-muted-foreground">
+              Asked on top of the standard form when this category is chosen.
+            </p>
+            {fields.map((field, index) => (
+              <div key={field.key || `new-${index}`} className="rounded-md border p-3 space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    placeholder="e.g. Pole number"
+                  />
+                  <Select value={field.type} onValueChange={(value) => updateField(index, { type: value as CategoryFieldType })}>
+                    <SelectTrigger className="w-36 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CATEGORY_FIELD_TYPES).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {field.type === "select" && (
+                  <Input
+                    value={field.options}
+                    onChange={(e) => updateField(index, { options: e.target.value })}
+                    placeholder="Options, comma separated"
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`field-required-${index}`}
+                    checked={field.required}
+                    onCheckedChange={(checked) => updateField(index, { required: checked })}
+                  />
+                  <Label htmlFor={`field-required-${index}`} className="font-normal">Required</Label>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFields((current) => [...current, { key: "", label: "", type: "text", required: false, options: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Question
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="category-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="category-active">Offered on the report form</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Category"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import { Camera } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CategoryField, DetailFormValues } from "@/lib/categoryFields";
+
+interface CategoryFieldsFormProps {
+  fields: CategoryField[];
+  values: DetailFormValues;
+  errors: Record<string, string>;
+  onChange: (key: string, value: string | boolean | Blob | undefined) => void;
+}
+
+// The questions the chosen category asks on top of the standard form
+export const CategoryFieldsForm = ({ fields, values, errors, onChange }: CategoryFieldsFormProps) => {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 rounded-lg border p-4">
+      {fields.map((field) => {
+        const id = `detail-${field.key}`;
+        const value = values[field.key];
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>
+              {field.label}
+              {field.required && " *"}
+            </Label>
+            {field.type === "select" ? (
+              <Select value={typeof value === "string" ? value : ""} onValueChange={(next) => onChange(field.key, next)}>
+                <SelectTrigger id={id}>
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(field.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : field.type === "yes_no" ? (
+              <RadioGroup
+                id={id}
+                value={typeof value === "boolean" ? (value ? "yes" : "no") : ""}
+                onValueChange={(next) => onChange(field.key, next === "yes")}
+                className="flex gap-6 pt-2"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id={`${id}-yes`} />
+                  <Label htmlFor={`${id}-yes`} className="font-normal">Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id={`${id}-no`} />
+                  <Label htmlFor={`${id}-no`} className="font-normal">No</Label>
+                </div>
+              </RadioGroup>
+            ) : field.type === "photo" ? (
+              <label
+                htmlFor={id}
+                className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm cursor-pointer hover:border-primary"
+              >
+                <Camera className="h-4 w-4 text-muted-foreground" />
+                <span className="truncate">{value instanceof File ? value.name : "Add a photo"}</span>
+                <input
+                  id={id}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => onChange(field.key, e.target.files?.[0])}
+                />
+              </label>
+            ) : (
+              <Input
+                id={id}
+                inputMode={field.type === "number" ? "decimal" : undefined}
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => onChange(field.key, e.target.value)}
+              />
+            )}
+            {errors[field.key] && <p className="text-xs text-destructive">{errors[field.key]}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
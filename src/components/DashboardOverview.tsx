@@ -7,32 +7,18 @@ import {
   CheckCircle2, 
   Clock, 
   Users,
-  Lightbulb,
-  Trash2,
-  Palette,
-  Route,
-  Wrench,
-  Droplets,
-  RectangleHorizontal,
-  TrafficCone,
   HelpCircle
 } from "lucide-react";
 import { RecentIssues } from '@/components/RecentIssues';
+import { isOpenStatus } from '@/lib/issueStatus';
 import { Progress } from "@/components/ui/progress";
+import { useCategories } from '@/hooks/useCategories';
+import { getCategoryColor, getCategoryIcon } from '@/lib/categories';
+
+// Open issues per category, as a share of everything still open
+const CategoryOverview = ({ openCounts, loading }: { openCounts: Record<string, number>, loading: boolean }) => {
+    const { categories } = useCategories();
 
-const initialCategoryItems = [
-    { id: 'Pothole', title: 'Potholes', icon: Route, count: 0, total: 50 },
-    { id: 'Broken Streetlight', title: 'Street Lights', icon: Lightbulb, count: 0, total: 30 },
-    { id: 'Overflowing Trash Bin', title: 'Trash Bins', icon: Trash2, count: 0, total: 25 },
-    { id: 'Graffiti', title: 'Graffiti', icon: Palette, count: 0, total: 35 },
-    { id: 'Damaged Public Property', title: 'Damaged Public Property', icon: Wrench, count: 0, total: 20 },
-    { id: 'Water Leak', title: 'Water Leak', icon: Droplets, count: 0, total: 15 },
-    { id: 'Sidewalk Damage', title: 'Sidewalk Damage', icon: RectangleHorizontal, count: 0, total: 40 },
-    { id: 'Traffic Signal Issue', title: 'Traffic Signal Issue', icon: TrafficCone, count: 0, total: 10 },
-    { id: 'Other', title: 'Other', icon: HelpCircle, count: 0, total: 20 },
-];
-
-const CategoryOverview = ({ categoryCounts, loading }: { categoryCounts: typeof initialCategoryItems, loading: boolean }) => {
     if (loading) {
         return (
             <Card>
@@ -51,19 +37,40 @@ const CategoryOverview = ({ categoryCounts, loading }: { categoryCounts: typeof
         );
     }
 
+    const totalOpen = Object.values(openCounts).reduce((sum, count) => sum + count, 0);
+    const listed = new Set(categories.map(category => category.name));
+    const unlisted = Object.entries(openCounts)
+        .filter(([name]) => !listed.has(name))
+        .reduce((sum, [, count]) => sum + count, 0);
+    const items = [
+        ...categories
+            .filter(category => category.is_active || openCounts[category.name])
+            .map(category => ({
+                id: category.id,
+                title: category.name,
+                icon: getCategoryIcon(category),
+                color: getCategoryColor(category),
+                count: openCounts[category.name] || 0,
+            })),
+        ...(unlisted > 0 ? [{ id: 'unlisted', title: 'Unlisted categories', icon: HelpCircle, color: undefined, count: unlisted }] : []),
+    ];
+
     return (
         <Card>
             <CardHeader>
                 <CardTitle>Category Overview</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-                {categoryCounts.map(category => (
+                {items.map(category => (
                     <div key={category.id}>
                         <div className="flex justify-between text-sm font-medium mb-1">
-                            <span>{category.title}</span>
-                            <span>{`${category.count}/${category.total}`}</span>
+                            <span className="flex items-center gap-2">
+                                <category.icon className="h-4 w-4" style={{ color: category.color }} />
+                                {category.title}
+                            </span>
+                            <span>{`${category.count} open`}</span>
                         </div>
-                        <Progress value={(category.count / category.total) * 100} />
+                        <Progress value={totalOpen > 0 ? (category.count / totalOpen) * 100 : 0} />
                     </div>
                 ))}
             </CardContent>
@@ -79,7 +86,7 @@ export const DashboardOverview = () => {
     inProgress: 0,
     activeStaff: 18 // Static for now
   });
-  const [categoryCounts, setCategoryCounts] = useState(initialCategoryItems);
+  const [openCounts, setOpenCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
 
   const fetchDashboardData = async () => {
@@ -93,30 +100,20 @@ export const DashboardOverview = () => {
       today.setHours(0, 0, 0, 0);
 
       const resolvedToday = issues.filter(issue =>
-        issue.status === 'resolved' && new Date(issue.updated_at) >= today
+        issue.status === 'resolved' && issue.resolved_at && new Date(issue.resolved_at) >= today
       ).length;
 
-      const inProgress = issues.filter(issue => issue.status === 'in-progress').length;
+      const inProgress = issues.filter(issue => issue.status === 'in_progress').length;
 
       const counts = issues.reduce((acc, issue) => {
-        if (issue.status !== 'resolved') {
-            const category = initialCategoryItems.find(item => item.id === issue.category);
-            if (category) {
-                acc[issue.category] = (acc[issue.category] || 0) + 1;
-            } else {
-                acc['Other'] = (acc['Other'] || 0) + 1;
-            }
+        if (isOpenStatus(issue.status)) {
+            acc[issue.category] = (acc[issue.category] || 0) + 1;
         }
         return acc;
       }, {} as { [key: string]: number });
 
-      const updatedCategories = initialCategoryItems.map(cat => ({
-        ...cat,
-        count: counts[cat.id] || 0
-      }));
-
       setStats({ totalIssues, resolvedToday, inProgress, activeStaff: 18 });
-      setCategoryCounts(updatedCategories);
+      setOpenCounts(counts);
 
     } catch (error: any) {
       console.error("Error fetching dashboard data:", error.message);
@@ -194,7 +191,7 @@ export const DashboardOverview = () => {
             <RecentIssues />
         </div>
         <div className="lg:col-span-2">
-            <CategoryOverview categoryCounts={categoryCounts} loading={loading} />
+            <CategoryOverview openCounts={openCounts} loading={loading} />
         </div>
       </div>
     </div>
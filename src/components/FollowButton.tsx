@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Bell, BellOff } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+
+interface FollowButtonProps {
+  issueId: number;
+  className?: string;
+  onFollowChange?: (following: boolean) => void;
+}
+
+export const FollowButton = ({ issueId, className = "", onFollowChange }: FollowButtonProps) => {
+  const [following, setFollowing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const checkFollowStatus = async () => {
+      const { data } = await supabase.rpc('is_following_issue', {
+        p_issue_id: issueId,
+        device_token: getDeviceToken(),
+      });
+
+      setFollowing(!!data);
+    };
+
+    checkFollowStatus();
+  }, [issueId]);
+
+  const handleToggle = async () => {
+    if (loading) return;
+
+    setLoading(true);
+    const next = !following;
+    const { error } = await supabase.rpc(next ? 'follow_issue' : 'unfollow_issue', {
+      p_issue_id: issueId,
+      device_token: getDeviceToken(),
+    });
+    setLoading(false);
+
+    if (error) {
+      console.error('Error updating follow:', error);
+      toast({
+        title: "Error",
+        description: next ? "Failed to follow this issue. Please try again." : "Failed to unfollow this issue. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFollowing(next);
+    onFollowChange?.(next);
+    toast({
+      title: next ? "Following" : "Unfollowed",
+      description: next
+        ? "You'll be notified when this issue is updated. Manage notifications under My Reports."
+        : "You won't get updates about this issue any more.",
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={following ? "secondary" : "outline"}
+      size="sm"
+      onClick={handleToggle}
+      disabled={loading}
+      className={`flex items-center gap-2 ${className}`}
+    >
+      {following ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+      <span className="hidden sm:inline">{following ? "Unfollow" : "Follow"}</span>
+    </Button>
+  );
+};
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FollowButton } from "@/components/FollowButton";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+import { STATUS_META, getStatusLabel } from "@/lib/issueStatus";
+
+type FollowedIssue = Database["public"]["Functions"]["list_followed_issues"]["Returns"][number];
+
+export const FollowedIssuesCard = () => {
+  const [issues, setIssues] = useState<FollowedIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchFollowed = async () => {
+      const { data, error } = await supabase.rpc("list_followed_issues", { device_token: getDeviceToken() });
+      if (error) {
+        console.error("Error fetching followed issues:", error);
+      } else {
+        setIssues(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchFollowed();
+  }, []);
+
+  const handleFollowChange = (issueId: number, following: boolean) => {
+    if (!following) setIssues((current) => current.filter((issue) => issue.issue_id !== issueId));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Issues You Follow
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : issues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Follow an issue from the <Link to="/view-reports" className="text-primary underline">community reports</Link> to get updates about it here.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {issues.map((issue) => (
+              <li key={issue.issue_id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge className={STATUS_META[issue.status]?.className}>{getStatusLabel(issue.status)}</Badge>
+                    <span className="text-xs text-muted-foreground">#{issue.issue_id}</span>
+                  </div>
+                  <Link to={`/issues/${issue.issue_id}`} className="font-medium hover:underline block truncate">
+                    {issue.title}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    Following since {formatDistanceToNow(new Date(issue.followed_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <FollowButton
+                  issueId={issue.issue_id}
+                  onFollowChange={(following) => handleFollowChange(issue.issue_id, following)}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
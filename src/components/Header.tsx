@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { MapPin, Menu, X } from "lucide-react";
 import { ReportModal } from "./ReportModal";
+import { NotificationBell } from "./NotificationBell";
 import { useNavigate, useLocation, Link } from "react-router-dom";
 import logo from "@/assets/logo.png";
 
@@ -30,6 +31,11 @@ export const Header = () => {
     navigate("/view-reports");
   };
 
+  const handleMyReports = () => {
+    setIsMenuOpen(false);
+    navigate("/my-reports");
+  };
+
   return (
     <>
       <header className="fixed top-0 left-0 right-0 z-40 glass-surface shadow-md">
@@ -53,6 +59,12 @@ export const Header = () => {
               >
                 View Reports
               </button>
+              <button
+                onClick={handleMyReports}
+                className="text-muted-foreground hover:text-primary transition-smooth"
+              >
+                My Reports
+              </button>
               <button
                 onClick={() => scrollToSection("features")}
                 className="text-muted-foreground hover:text-primary transition-smooth"
@@ -73,22 +85,25 @@ export const Header = () => {
               </button>
             </nav>
 
-            <Button
-              onClick={() => setIsReportModalOpen(true)}
-              className="hidden md:inline-flex gradient-primary hover:shadow-glow transition-smooth transform hover:scale-105"
-              size="lg"
-            >
-              Report an Issue
-            </Button>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <Button
+                onClick={() => setIsReportModalOpen(true)}
+                className="hidden md:inline-flex gradient-primary hover:shadow-glow transition-smooth transform hover:scale-105"
+                size="lg"
+              >
+                Report an Issue
+              </Button>
 
-            <Button
-              variant="ghost"
-              size="icon"
-              className="md:hidden"
-              onClick={() => setIsMenuOpen(!isMenuOpen)}
-            >
-              {isMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
-            </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="md:hidden"
+                onClick={() => setIsMenuOpen(!isMenuOpen)}
+              >
+                {isMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
+              </Button>
+            </div>
           </div>
 
           {/* Mobile Menu */}
@@ -106,6 +121,12 @@ export const Header = () => {
               >
                 View Reports
               </button>
+              <button
+                onClick={handleMyReports}
+                className="block w-full text-left py-2 text-muted-foreground hover:text-primary transition-smooth"
+              >
+                My Reports
+              </button>
               <button
                 onClick={() => scrollToSection("features")}
                 className="block w-full text-left py-2 text-muted-foreground hover:text-primary transition-smooth"
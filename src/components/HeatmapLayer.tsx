@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+import type { MapIssue } from "@/hooks/useMapIssues";
+
+export type HeatmapWeight = "count" | "upvotes";
+
+interface HeatmapLayerProps {
+  issues: MapIssue[];
+  weightBy: HeatmapWeight;
+}
+
+// Upvotes are log-scaled so one viral report doesn't drown out the rest
+const getWeight = (issue: MapIssue, weightBy: HeatmapWeight) =>
+  weightBy === "upvotes" ? 1 + Math.log2(1 + (issue.upvotes_count ?? 0)) : 1;
+
+export const HeatmapLayer = ({ issues, weightBy }: HeatmapLayerProps) => {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+
+  useEffect(() => {
+    const layer = L.heatLayer([], { radius: 25, blur: 20, maxZoom: 17 });
+    layer.addTo(map);
+    layerRef.current = layer;
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const points = issues.map((issue): L.HeatLatLngTuple => [issue.latitude, issue.longitude, getWeight(issue, weightBy)]);
+    layerRef.current?.setOptions({ max: Math.max(1, ...points.map(([, , weight]) => weight)) });
+    layerRef.current?.setLatLngs(points);
+  }, [issues, weightBy]);
+
+  return null;
+};
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.markercluster";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import type { MapIssue } from "@/hooks/useMapIssues";
+import { getStatusLabel } from "@/lib/issueStatus";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categories";
+import { createClusterIcon, createPinIcon, getStatusColor } from "@/lib/mapIcons";
+
+export type MarkerColorMode = "category" | "status";
+
+interface IssueMarkerOptions extends L.MarkerOptions {
+  pinColor: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]);
+
+const popupHtml = (issue: MapIssue) => `
+  <b>${escapeHtml(issue.category)}</b><br />
+  ${escapeHtml(issue.description)}<br />
+  Status: ${escapeHtml(getStatusLabel(issue.status))}<br />
+  <a href="/issues/${issue.id}" data-issue-link>View details</a>`;
+
+interface IssueClusterLayerProps {
+  issues: MapIssue[];
+  colorBy: MarkerColorMode;
+}
+
+// Leaflet.markercluster has no react-leaflet binding, so the cluster group
+// is managed directly and rebuilt whenever the issues change.
+export const IssueClusterLayer = ({ issues, colorBy }: IssueClusterLayerProps) => {
+  const map = useMap();
+  const navigate = useNavigate();
+  const navigateRef = useRef(navigate);
+  navigateRef.current = navigate;
+  const groupRef = useRef<L.MarkerClusterGroup | null>(null);
+  const { findCategory } = useCategories();
+
+  useEffect(() => {
+    const group = L.markerClusterGroup({
+      chunkedLoading: true,
+      showCoverageOnHover: false,
+      maxClusterRadius: 60,
+      iconCreateFunction: (cluster) =>
+        createClusterIcon(cluster.getAllChildMarkers().map((marker) => (marker.options as IssueMarkerOptions).pinColor)),
+    });
+
+    // Keep in-app navigation for the popup links
+    group.on("popupopen", (event: L.PopupEvent) => {
+      const link = event.popup.getElement()?.querySelector<HTMLAnchorElement>("[data-issue-link]");
+      link?.addEventListener("click", (click) => {
+        click.preventDefault();
+        navigateRef.current(link.getAttribute("href") || "/");
+      });
+    });
+
+    map.addLayer(group);
+    groupRef.current = group;
+    return () => {
+      map.removeLayer(group);
+      groupRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    group.clearLayers();
+    group.addLayers(
+      issues.map((issue) => {
+        const pinColor = colorBy === "status" ? getStatusColor(issue.status) : getCategoryColor(findCategory(issue.category));
+        const options: IssueMarkerOptions = { icon: createPinIcon(pinColor), pinColor };
+        return L.marker([issue.latitude, issue.longitude], options).bindPopup(popupHtml(issue));
+      }),
+    );
+  }, [issues, colorBy, findCategory]);
+
+  return null;
+};
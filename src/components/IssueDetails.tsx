@@ -0,0 +1,62 @@
+import { CategoryField, ReportDetails, describeDetails, formatDetailValue, photoAnswerUrl } from "@/lib/categoryFields";
+import { getThumbnailUrl } from "@/lib/imageProcessing";
+
+interface IssueDetailsProps {
+  fields: CategoryField[];
+  details: ReportDetails;
+}
+
+// One line of answers for tables and cards
+export const IssueDetailsSummary = ({ fields, details }: IssueDetailsProps) => {
+  const answers = describeDetails(fields, details);
+  if (answers.length === 0) return null;
+
+  return (
+    <div className="text-xs text-muted-foreground mt-1">
+      {answers.map(({ key, label, field, value }, index) => {
+        const photoUrl = field?.type === "photo" ? photoAnswerUrl(value) : null;
+        return (
+          <span key={key}>
+            {index > 0 && " · "}
+            <span className="font-medium">{label}:</span>{" "}
+            {photoUrl ? (
+              <a href={photoUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                photo
+              </a>
+            ) : (
+              formatDetailValue(field, value)
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+// Every answer on its own row, with photos shown
+export const IssueDetailsList = ({ fields, details }: IssueDetailsProps) => {
+  const answers = describeDetails(fields, details);
+  if (answers.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {answers.map(({ key, label, field, value }) => {
+        const photoUrl = field?.type === "photo" ? photoAnswerUrl(value) : null;
+        return (
+          <div key={key}>
+            <dt className="text-sm text-muted-foreground">{label}</dt>
+            <dd className="font-medium">
+              {photoUrl ? (
+                <a href={photoUrl} target="_blank" rel="noopener noreferrer">
+                  <img src={getThumbnailUrl(photoUrl)} alt={label} className="mt-1 h-24 w-24 rounded-md object-cover" />
+                </a>
+              ) : (
+                formatDetailValue(field, value)
+              )}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+};
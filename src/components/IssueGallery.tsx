@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Video } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getThumbnailUrl } from "@/lib/imageProcessing";
+import { IssueAttachment, fetchIssueAttachments } from "@/lib/issueAttachments";
+
+interface IssueGalleryProps {
+  attachments: IssueAttachment[];
+  title: string;
+}
+
+export const IssueGallery = ({ attachments, title }: IssueGalleryProps) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = attachments[Math.min(selectedIndex, attachments.length - 1)];
+
+  if (!selected) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg bg-black/5 overflow-hidden">
+        {selected.media_type === "video" ? (
+          <video key={selected.id} src={selected.url} controls className="w-full max-h-[480px] bg-black" />
+        ) : (
+          <a href={selected.url} target="_blank" rel="noopener noreferrer">
+            <img src={selected.url} alt={title} className="w-full max-h-[480px] object-contain" />
+          </a>
+        )}
+      </div>
+      {attachments.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {attachments.map((attachment, index) => (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              className={`relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2 ${
+                attachment === selected ? "border-primary" : "border-transparent"
+              }`}
+              aria-label={`Show ${attachment.media_type} ${index + 1}`}
+            >
+              {attachment.media_type === "video" ? (
+                <>
+                  <video src={attachment.url} className="h-full w-full object-cover" muted preload="metadata" />
+                  <Video className="absolute bottom-1 left-1 h-3.5 w-3.5 text-white drop-shadow" />
+                </>
+              ) : (
+                <img src={getThumbnailUrl(attachment.url)} alt="" className="h-full w-full object-cover" />
+              )}
+              {attachment.kind === "after" && (
+                <span className="absolute top-0 inset-x-0 bg-green-600/80 text-[10px] text-white text-center">After</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface IssueGalleryDialogProps {
+  issueId: number | null;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const IssueGalleryDialog = ({ issueId, title, onOpenChange }: IssueGalleryDialogProps) => {
+  const [attachments, setAttachments] = useState<IssueAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (issueId === null) return;
+
+    const loadAttachments = async () => {
+      setLoading(true);
+      try {
+        setAttachments(await fetchIssueAttachments(issueId));
+      } catch (error) {
+        console.error("Error fetching attachments:", error);
+        setAttachments([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAttachments();
+  }, [issueId]);
+
+  return (
+    <Dialog open={issueId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : attachments.length > 0 ? (
+          <IssueGallery attachments={attachments} title={title} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No photos for this report.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
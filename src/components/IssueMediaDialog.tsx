@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from "react";
+import { ImagePlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { IssueGallery } from "@/components/IssueGallery";
+import { useToast } from "@/hooks/use-toast";
+import { IssueAttachment, fetchIssueAttachments, uploadAfterPhotos } from "@/lib/issueAttachments";
+import { getErrorMessage } from "@/lib/reportSubmission";
+
+interface IssueMediaDialogProps {
+  issue: { id: number; title: string } | null;
+  canAddAfterPhotos: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const IssueMediaDialog = ({ issue, canAddAfterPhotos, onOpenChange }: IssueMediaDialogProps) => {
+  const [attachments, setAttachments] = useState<IssueAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+  const issueId = issue?.id ?? null;
+
+  const loadAttachments = useCallback(async () => {
+    if (issueId === null) return;
+    setLoading(true);
+    try {
+      setAttachments(await fetchIssueAttachments(issueId));
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      setAttachments([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [issueId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleAfterPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const photos = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!issue || photos.length === 0) return;
+
+    setUploading(true);
+    try {
+      await uploadAfterPhotos(issue.id, photos);
+      toast({ title: "Photos Added", description: "The after photos are now shown on the public issue page." });
+      await loadAttachments();
+    } catch (error) {
+      console.error("Error uploading after photos:", error);
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!issue} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Issue Media</DialogTitle>
+          <DialogDescription>
+            {issue && `Photos and videos for #${issue.id}: ${issue.title}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : attachments.length > 0 ? (
+          <IssueGallery attachments={attachments} title={issue?.title ?? ""} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No photos for this report.</p>
+        )}
+
+        {canAddAfterPhotos && (
+          <div className="flex justify-end">
+            <input
+              type="file"
+              id="after-photos"
+              accept="image/*"
+              multiple
+              onChange={handleAfterPhotos}
+              className="hidden"
+              disabled={uploading}
+            />
+            <Button variant="outline" asChild disabled={uploading}>
+              <label htmlFor="after-photos" className="cursor-pointer flex items-center gap-2">
+                <ImagePlus className="h-4 w-4" />
+                {uploading ? "Uploading..." : "Add After Photos"}
+              </label>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
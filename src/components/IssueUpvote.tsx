@@ -3,42 +3,29 @@ import { Button } from "@/components/ui/button";
 import { ThumbsUp } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getDeviceToken } from "@/lib/deviceIdentity";
 
 interface IssueUpvoteProps {
   issueId: number;
   initialUpvotes: number;
   className?: string;
+  onUpvoteChange?: (hasUpvoted: boolean) => void;
 }
 
-export const IssueUpvote = ({ issueId, initialUpvotes, className = "" }: IssueUpvoteProps) => {
+export const IssueUpvote = ({ issueId, initialUpvotes, className = "", onUpvoteChange }: IssueUpvoteProps) => {
   const [upvotes, setUpvotes] = useState(initialUpvotes);
   const [hasUpvoted, setHasUpvoted] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  // Get user's IP for tracking upvotes (simple spam prevention)
-  const getUserIP = async () => {
-    try {
-      const response = await fetch('https://api.ipify.org?format=json');
-      const data = await response.json();
-      return data.ip;
-    } catch (error) {
-      console.error('Error getting IP:', error);
-      return `anonymous-${Date.now()}`; // Fallback
-    }
-  };
-
-  // Check if user has already upvoted
+  // Check if this voter has already upvoted
   useEffect(() => {
     const checkUpvoteStatus = async () => {
-      const userIP = await getUserIP();
-      const { data } = await supabase
-        .from('issue_upvotes')
-        .select('id')
-        .eq('issue_id', issueId)
-        .eq('user_ip', userIP)
-        .maybeSingle();
-      
+      const { data } = await supabase.rpc('has_upvoted', {
+        p_issue_id: issueId,
+        device_token: getDeviceToken(),
+      });
+
       setHasUpvoted(!!data);
     };
 
@@ -49,16 +36,15 @@ export const IssueUpvote = ({ issueId, initialUpvotes, className = "" }: IssueUp
     if (loading) return;
     
     setLoading(true);
-    const userIP = await getUserIP();
+    const deviceToken = getDeviceToken();
 
     try {
       if (hasUpvoted) {
         // Remove upvote
-        const { error } = await supabase
-          .from('issue_upvotes')
-          .delete()
-          .eq('issue_id', issueId)
-          .eq('user_ip', userIP);
+        const { data: removed, error } = await supabase.rpc('retract_upvote', {
+          p_issue_id: issueId,
+          device_token: deviceToken,
+        });
 
         if (error) {
           console.error('Error removing upvote:', error);
@@ -70,20 +56,19 @@ export const IssueUpvote = ({ issueId, initialUpvotes, className = "" }: IssueUp
           return;
         }
 
-        setUpvotes(prev => prev - 1);
+        if (removed) setUpvotes(prev => prev - 1);
         setHasUpvoted(false);
+        onUpvoteChange?.(false);
         toast({
           title: "Upvote Removed",
           description: "Your support has been removed from this issue.",
         });
       } else {
         // Add upvote
-        const { error } = await supabase
-          .from('issue_upvotes')
-          .insert({
-            issue_id: issueId,
-            user_ip: userIP,
-          });
+        const { data: counted, error } = await supabase.rpc('cast_upvote', {
+          p_issue_id: issueId,
+          device_token: deviceToken,
+        });
 
         if (error) {
           console.error('Error adding upvote:', error);
@@ -95,8 +80,10 @@ export const IssueUpvote = ({ issueId, initialUpvotes, className = "" }: IssueUp
           return;
         }
 
-        setUpvotes(prev => prev + 1);
+        // Nothing to count if this voter already voted elsewhere (another tab, or before signing in)
+        if (counted) setUpvotes(prev => prev + 1);
         setHasUpvoted(true);
+        onUpvoteChange?.(true);
         toast({
           title: "Thank You!",
           description: "Your support helps prioritize this issue.",
@@ -116,6 +103,7 @@ export const IssueUpvote = ({ issueId, initialUpvotes, className = "" }: IssueUp
 
   return (
     <Button
+      type="button"
       variant={hasUpvoted ? "default" : "outline"}
       size="sm"
       onClick={handleUpvote}
@@ -1,74 +1,86 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Filter } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, useMap, useMapEvents } from "react-leaflet";
+import type { LatLngBounds } from "leaflet";
 import "leaflet/dist/leaflet.css";
-import L from "leaflet";
-import "leaflet.gridlayer.googlemutant";
-import { supabase } from "@/integrations/supabase/client";
-import { Database } from "@/integrations/supabase/types";
+import { isOpenStatus } from "@/lib/issueStatus";
+import { DEFAULT_MAP_CENTER } from "@/lib/geo";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { WardBoundariesLayer } from "@/components/WardBoundariesLayer";
+import { IssueClusterLayer, MarkerColorMode } from "@/components/IssueClusterLayer";
+import { HeatmapLayer, HeatmapWeight } from "@/components/HeatmapLayer";
+import { MapTimeSlider } from "@/components/MapTimeSlider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { useWards } from "@/hooks/useWards";
+import { getCategoryColor } from "@/lib/categories";
+import { MAX_MAP_ISSUES, MapBounds, MapIssue, MapPeriod, useMapIssues } from "@/hooks/useMapIssues";
 
-type Issue = Database['public']['Tables']['issues']['Row'];
+// Component to change map view
+const ChangeView = ({ center, zoom }: { center: [number, number]; zoom: number }) => {
+  const map = useMap();
+  useEffect(() => {
+    map.setView(center, zoom);
+  }, [map, center, zoom]);
+  return null;
+};
 
-// Fix for default icon issue with webpack
-// @ts-ignore
-delete L.Icon.Default.prototype._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon-2x.png',
-  iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
+const toMapBounds = (bounds: LatLngBounds): MapBounds => ({
+  south: bounds.getSouth(),
+  west: bounds.getWest(),
+  north: bounds.getNorth(),
+  east: bounds.getEast(),
 });
 
-// Function to create custom marker icons
-const getMarkerIcon = (category: string) => {
-  const getColor = () => {
-    const lowerCategory = (category || "").toLowerCase();
-    if (lowerCategory.includes("pothole")) {
-      return "hsl(var(--dept-public-works))"; // Blue
-    } else if (lowerCategory.includes("streetlight")) {
-      return "hsl(var(--dept-utilities))"; // Violet
-    } else if (lowerCategory.includes("waste")) {
-      return "hsl(var(--dept-sanitation))"; // Orange
-    } else if (lowerCategory.includes("park")) {
-      return "hsl(var(--dept-parks))"; // Green
-    } else {
-      return "hsl(var(--muted-foreground))"; // Gray
-    }
-  };
-
-  const color = getColor();
-
-  return L.divIcon({
-    html: `
-      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="32" height="32">
-        <path fill="${color}" d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5a2.5 2.5 0 010-5 2.5 2.5 0 010 5z"/>
-        <circle cx="12" cy="9.5" r="1.5" fill="white" />
-      </svg>`,
-    className: "",
-    iconSize: [32, 32],
-    iconAnchor: [16, 32],
-    popupAnchor: [0, -32],
+// Reports the visible area whenever the map settles after a pan or zoom
+const ViewportWatcher = ({ onChange }: { onChange: (bounds: MapBounds) => void }) => {
+  const map = useMapEvents({
+    moveend: () => onChange(toMapBounds(map.getBounds())),
   });
-};
 
-// Component to change map view
-const ChangeView = ({ center, zoom }: { center: [number, number]; zoom: number }) => {
-  const map = useMap();
-  map.setView(center, zoom);
+  useEffect(() => {
+    onChange(toMapBounds(map.getBounds()));
+  }, [map, onChange]);
+
   return null;
 };
 
+// Whether an issue had been reported and not yet dealt with at that moment.
+// Issues closed without a recorded resolution time drop out entirely.
+const isOpenAt = (issue: MapIssue, time: number) =>
+  new Date(issue.created_at).getTime() <= time &&
+  (issue.resolved_at ? new Date(issue.resolved_at).getTime() > time : isOpenStatus(issue.status));
 
 export const LiveMap = () => {
-  const [issues, setIssues] = useState<Issue[]>([]);
-  const [filteredIssues, setFilteredIssues] = useState<Issue[]>([]);
   const [category, setCategory] = useState<string>("All");
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [mapCenter, setMapCenter] = useState<[number, number]>([51.505, -0.09]);
+  const [wardFilter, setWardFilter] = useState<string>("all");
+  const [colorBy, setColorBy] = useState<MarkerColorMode>("category");
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapWeight, setHeatmapWeight] = useState<HeatmapWeight>("count");
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timelineAt, setTimelineAt] = useState(() => Date.now());
+  const [timelineRange, setTimelineRange] = useState<MapPeriod | null>(null);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [mapCenter, setMapCenter] = useState<[number, number]>(DEFAULT_MAP_CENTER);
   const [locationLoading, setLocationLoading] = useState<boolean>(true);
+  const { wards } = useWards();
+  const { activeCategories } = useCategories();
+  const { issues, loading, error, truncated } = useMapIssues({
+    bounds,
+    category: category === "All" ? null : category,
+    wardId: wardFilter === "all" ? null : wardFilter,
+    period: showTimeline ? timelineRange : null,
+  });
+  // During playback the map shows what was open at the chosen moment
+  const filteredIssues = useMemo(
+    () => (showTimeline ? issues.filter((issue) => isOpenAt(issue, timelineAt)) : issues),
+    [issues, showTimeline, timelineAt],
+  );
 
   useEffect(() => {
     if (navigator.geolocation) {
@@ -88,50 +100,6 @@ export const LiveMap = () => {
     }
   }, []);
 
-  useEffect(() => {
-    const fetchIssues = async () => {
-      try {
-        setLoading(true);
-        const { data, error } = await supabase.from("issues").select("*");
-        if (error) {
-          throw error;
-        }
-        setIssues(data);
-      } catch (error: any) {
-        setError(error.message);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchIssues();
-  }, []);
-
-  useEffect(() => {
-    if (category === "All") {
-      setFilteredIssues(issues);
-    } else {
-      setFilteredIssues(issues.filter(issue => (issue.category || "").toLowerCase().includes(category.toLowerCase())));
-    }
-  }, [category, issues]);
-
-  const googleApiLoaded = !!window.google;
-
-  const getDepartmentButtonColor = (category: string) => {
-    switch (category) {
-      case "Pothole":
-        return "bg-department-public-works";
-      case "Streetlight":
-        return "bg-department-utilities";
-      case "Waste":
-        return "bg-department-sanitation";
-      case "Park":
-        return "bg-department-parks";
-      default:
-        return "bg-gray-500";
-    }
-  };
-
   return (
     <section id="live-map" className="py-20 bg-surface">
       <div className="container mx-auto px-6">
@@ -150,69 +118,117 @@ export const LiveMap = () => {
             <Filter className="w-4 h-4" />
             All Categories
           </Button>
-          <Button variant={category === 'Pothole' ? 'default' : 'outline'} className="flex items-center gap-2" onClick={() => setCategory("Pothole")}>
-            <div className={`w-3 h-3 ${getDepartmentButtonColor("Pothole")} rounded-full`}></div>
-            Potholes
-          </Button>
-          <Button variant={category === 'Streetlight' ? 'default' : 'outline'} className="flex items-center gap-2" onClick={() => setCategory("Streetlight")}>
-            <div className={`w-3 h-3 ${getDepartmentButtonColor("Streetlight")} rounded-full`}></div>
-            Streetlights
-          </Button>
-          <Button variant={category === 'Waste' ? 'default' : 'outline'} className="flex items-center gap-2" onClick={() => setCategory("Waste")}>
-            <div className={`w-3 h-3 ${getDepartmentButtonColor("Waste")} rounded-full`}></div>
-            Waste Management
-          </Button>
-          <Button variant={category === 'Park' ? 'default' : 'outline'} className="flex items-center gap-2" onClick={() => setCategory("Park")}>
-            <div className={`w-3 h-3 ${getDepartmentButtonColor("Park")} rounded-full`}></div>
-            Parks & Recreation
-          </Button>
+          {activeCategories.map((item) => (
+            <Button
+              key={item.id}
+              variant={category === item.name ? 'default' : 'outline'}
+              className="flex items-center gap-2"
+              onClick={() => setCategory(item.name)}
+            >
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getCategoryColor(item) }}></div>
+              {item.name}
+            </Button>
+          ))}
+          <Select value={colorBy} onValueChange={(value) => setColorBy(value as MarkerColorMode)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="category">Colour by category</SelectItem>
+              <SelectItem value="status">Colour by status</SelectItem>
+            </SelectContent>
+          </Select>
+          {wards.length > 0 && (
+            <Select value={wardFilter} onValueChange={setWardFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Ward" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Wards</SelectItem>
+                {wards.map((ward) => (
+                  <SelectItem key={ward.id} value={ward.id}>{ward.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         {/* Map Container */}
         <Card className="overflow-hidden shadow-xl border-4 border-white/50 animate-fade-in">
           <div className="relative z-0 h-96 md:h-[500px] lg:h-[600px]">
-          {loading || locationLoading ? (
+          {locationLoading ? (
               <div className="flex items-center justify-center h-full">
                 <p>Loading map data...</p>
               </div>
-            ) : error ? (
-              <div className="flex items-center justify-center h-full">
-                <p>Error loading map data: {error}</p>
-              </div>
-            ) : googleApiLoaded ? (
+            ) : (
+            <>
             <MapContainer center={mapCenter} zoom={13} style={{ height: "100%", width: "100%" }}>
               <ChangeView center={mapCenter} zoom={13} />
-              <TileLayer
-                attribution='&copy; <a href="https://www.google.com/maps">Google Maps</a>'
-                url="https://{s}.google.com/vt/lyrs=m&x={x}&y={y}&z={z}"
-                subdomains={['mt0', 'mt1', 'mt2', 'mt3']}
-              />
-              {filteredIssues.map(issue => (
-                <Marker key={issue.id} position={[issue.latitude, issue.longitude]} icon={getMarkerIcon(issue.category || '')}>
-                  <Popup>
-                    <b>{issue.category}</b><br />
-                    {issue.description}<br />
-                    Status: {issue.status}
-                  </Popup>
-                </Marker>
-              ))}
+              <ViewportWatcher onChange={setBounds} />
+              <MapTileLayer />
+              {wards.length > 0 && <WardBoundariesLayer selectedWardId={wardFilter === "all" ? null : wardFilter} />}
+              {showHeatmap ? (
+                <HeatmapLayer issues={filteredIssues} weightBy={heatmapWeight} />
+              ) : (
+                <IssueClusterLayer issues={filteredIssues} colorBy={colorBy} />
+              )}
             </MapContainer>
-            ) : (
-              <div className="flex items-center justify-center h-full">
-                <p>Loading map...</p>
+            {(loading || error || truncated) && (
+              <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] rounded-full bg-background/90 px-3 py-1 text-xs shadow">
+                {error
+                  ? `Error loading map data: ${error}`
+                  : loading
+                    ? "Loading reports..."
+                    : `Showing the newest ${MAX_MAP_ISSUES} reports here. Zoom in to see them all.`}
               </div>
             )}
+            </>
+            )}
           </div>
         </Card>
 
+        <div className="flex flex-wrap items-center gap-6 mt-4">
+          <div className="flex items-center gap-2">
+            <Switch id="heatmap" checked={showHeatmap} onCheckedChange={setShowHeatmap} />
+            <Label htmlFor="heatmap">Heatmap</Label>
+          </div>
+          {showHeatmap && (
+            <Select value={heatmapWeight} onValueChange={(value) => setHeatmapWeight(value as HeatmapWeight)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Weight by reports</SelectItem>
+                <SelectItem value="upvotes">Weight by upvotes</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch
+              id="timeline"
+              checked={showTimeline}
+              onCheckedChange={(checked) => {
+                setShowTimeline(checked);
+                setTimelineAt(Date.now());
+              }}
+            />
+            <Label htmlFor="timeline">Time playback</Label>
+          </div>
+        </div>
+        {showTimeline && (
+          <div className="mt-4">
+            <MapTimeSlider value={timelineAt} onChange={setTimelineAt} onRangeChange={setTimelineRange} />
+          </div>
+        )}
+
         {/* Map Stats */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-8">
           <Card className="text-center p-6 shadow-md hover:shadow-lg transition-smooth">
-            <div className="text-2xl font-bold text-primary mb-2">{filteredIssues.filter(r => r.status === 'new').length}</div>
-            <div className="text-sm text-muted-foreground">Active Reports</div>
+            <div className="text-2xl font-bold text-primary mb-2">{filteredIssues.filter(r => isOpenStatus(r.status)).length}</div>
+            <div className="text-sm text-muted-foreground">Active Reports in View</div>
           </Card>
           <Card className="text-center p-6 shadow-md hover:shadow-lg transition-smooth">
-            <div className="text-2xl font-bold text-accent mb-2">{filteredIssues.filter(r => r.status === 'resolved').length}</div>
+            <div className="text-2xl font-bold text-accent mb-2">{filteredIssues.filter(r => r.status === 'resolved' || r.status === 'closed').length}</div>
             <div className="text-sm text-muted-foreground">Resolved Issues</div>
           </Card>
           <Card className="text-center p-6 shadow-md hover:shadow-lg transition-smooth">
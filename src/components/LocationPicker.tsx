@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from "react";
+import { MapContainer, Marker, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categories";
+import { DEFAULT_MAP_CENTER } from "@/lib/geo";
+import { GeocodeResult, searchAddress } from "@/lib/geocoding";
+import { createPinIcon } from "@/lib/mapIcons";
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Clicking anywhere on the map moves the pin there
+const PinDropHandler = ({ onDrop }: { onDrop: (position: LatLng) => void }) => {
+  useMapEvents({
+    click: (event) => onDrop({ lat: event.latlng.lat, lng: event.latlng.lng }),
+  });
+  return null;
+};
+
+// Leaflet measures its container once; inside a dialog that happens before
+// the open animation finishes, so measure again and follow the pin
+const FollowPin = ({ position }: { position: LatLng | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const timer = setTimeout(() => map.invalidateSize(), 200);
+    return () => clearTimeout(timer);
+  }, [map]);
+
+  useEffect(() => {
+    if (position) map.panTo([position.lat, position.lng]);
+  }, [map, position]);
+
+  return null;
+};
+
+interface LocationPickerProps {
+  value: LatLng | null;
+  category?: string;
+  initialQuery?: string;
+  onChange: (position: LatLng, label?: string) => void;
+}
+
+export const LocationPicker = ({ value, category, initialQuery = "", onChange }: LocationPickerProps) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const { toast } = useToast();
+  const { findCategory } = useCategories();
+  const pinIcon = useMemo(() => createPinIcon(getCategoryColor(findCategory(category))), [category, findCategory]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    try {
+      const found = await searchAddress(query.trim(), value ?? undefined);
+      setResults(found);
+      if (found.length === 0) {
+        toast({ title: "No Matches", description: "Try a nearby street name or drop the pin on the map instead." });
+      }
+    } catch (error) {
+      console.error("Error searching address:", error);
+      toast({ title: "Error", description: "Address search isn't available right now.", variant: "destructive" });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSelect = (result: GeocodeResult) => {
+    setResults([]);
+    onChange({ lat: result.lat, lng: result.lng }, result.label);
+  };
+
+  const center: [number, number] = value ? [value.lat, value.lng] : DEFAULT_MAP_CENTER;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleSearch();
+            }
+          }}
+          placeholder="Search for an address"
+        />
+        <Button type="button" variant="outline" onClick={handleSearch} disabled={searching || !query.trim()}>
+          {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="rounded-md border divide-y text-sm">
+          {results.map((result) => (
+            <li key={`${result.lat},${result.lng}`}>
+              <button type="button" onClick={() => handleSelect(result)} className="w-full text-left px-3 py-2 hover:bg-muted">
+                {result.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative z-0 h-64 rounded-lg overflow-hidden border">
+        <MapContainer center={center} zoom={value ? 17 : 13} style={{ height: "100%", width: "100%" }}>
+          <MapTileLayer />
+          <PinDropHandler onDrop={(position) => onChange(position)} />
+          <FollowPin position={value} />
+          {value && (
+            <Marker
+              position={[value.lat, value.lng]}
+              icon={pinIcon}
+              draggable
+              eventHandlers={{
+                dragend: (event) => {
+                  const { lat, lng } = event.target.getLatLng();
+                  onChange({ lat, lng });
+                },
+              }}
+            />
+          )}
+        </MapContainer>
+      </div>
+      <p className="text-xs text-muted-foreground">Tap the map or drag the pin to the exact spot.</p>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useMap } from "react-leaflet";
+import type L from "leaflet";
+import { createTileLayer, getTileSources, markTileSourceFailed } from "@/lib/mapTiles";
+
+// A source is given up on once this many tiles fail before any loads
+const MAX_TILE_ERRORS = 4;
+
+// Base map shared by every map in the app. Falls through the configured
+// tile sources until one works; with none left, the map still shows its
+// markers and layers on a blank background.
+export const MapTileLayer = () => {
+  const map = useMap();
+  const [sources] = useState(getTileSources);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const source = sources[sourceIndex];
+
+  useEffect(() => {
+    if (!source) return;
+
+    let cancelled = false;
+    let layer: L.Layer | null = null;
+    let errors = 0;
+    let loaded = false;
+
+    const fail = (error?: unknown) => {
+      if (cancelled) return;
+      if (error) console.error(`Error loading map tiles from ${source.name}:`, error);
+      markTileSourceFailed(source);
+      setSourceIndex((index) => index + 1);
+    };
+
+    createTileLayer(source)
+      .then((created) => {
+        if (cancelled) return;
+        layer = created;
+        layer.on("tileload", () => {
+          loaded = true;
+        });
+        layer.on("tileerror", () => {
+          if (!loaded && ++errors === MAX_TILE_ERRORS) fail();
+        });
+        layer.addTo(map);
+      })
+      .catch(fail);
+
+    return () => {
+      cancelled = true;
+      if (layer) map.removeLayer(layer);
+    };
+  }, [map, source]);
+
+  if (source) return null;
+
+  return (
+    <div className="absolute bottom-2 left-2 z-[1000] rounded bg-background/90 px-2 py-1 text-xs text-muted-foreground shadow">
+      Base map unavailable. Reports are still shown in place.
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MapPeriod } from "@/hooks/useMapIssues";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A full replay takes about 20 seconds whatever the range
+const PLAYBACK_STEPS = 100;
+const PLAYBACK_INTERVAL_MS = 200;
+
+interface MapTimeSliderProps {
+  value: number;
+  onChange: (time: number) => void;
+  // The range being replayed, so only issues open during it are loaded
+  onRangeChange: (range: MapPeriod) => void;
+}
+
+export const MapTimeSlider = ({ value, onChange, onRangeChange }: MapTimeSliderProps) => {
+  const [rangeDays, setRangeDays] = useState("90");
+  const [playing, setPlaying] = useState(false);
+  const [end, setEnd] = useState(() => Date.now());
+  const start = end - Number(rangeDays) * DAY_MS;
+  const step = (end - start) / PLAYBACK_STEPS;
+
+  useEffect(() => {
+    onRangeChange({ from: start, until: end });
+  }, [start, end, onRangeChange]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = window.setInterval(() => {
+      onChange(Math.min(value + step, end));
+      if (value + step >= end) setPlaying(false);
+    }, PLAYBACK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [playing, value, step, end, onChange]);
+
+  const togglePlaying = () => {
+    // Replays start over from the beginning of the range
+    if (!playing && value >= end - step) onChange(start);
+    setPlaying(!playing);
+  };
+
+  const handleRangeChange = (days: string) => {
+    const now = Date.now();
+    setRangeDays(days);
+    setEnd(now);
+    setPlaying(false);
+    onChange(now - Number(days) * DAY_MS);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 rounded-lg border bg-background p-3">
+      <Button type="button" variant="outline" size="icon" onClick={togglePlaying} aria-label={playing ? "Pause" : "Play"}>
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <Slider
+        className="flex-1 min-w-[200px]"
+        min={start}
+        max={end}
+        step={DAY_MS / 24}
+        value={[Math.max(start, Math.min(value, end))]}
+        onValueChange={([time]) => {
+          setPlaying(false);
+          onChange(time);
+        }}
+      />
+      <span className="w-36 text-sm font-medium tabular-nums">{format(value, "d MMM yyyy, HH:mm")}</span>
+      <Select value={rangeDays} onValueChange={handleRangeChange}>
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="7">Last 7 days</SelectItem>
+          <SelectItem value="30">Last 30 days</SelectItem>
+          <SelectItem value="90">Last 90 days</SelectItem>
+          <SelectItem value="365">Last 12 months</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
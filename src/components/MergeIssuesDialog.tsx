@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from "react";
+import { GitMerge, Search, ThumbsUp } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { distanceMeters, formatDistance } from "@/lib/geo";
+import { getStatusLabel } from "@/lib/issueStatus";
+
+export interface MergeCandidate {
+  id: number;
+  title: string;
+  category: string;
+  status: string;
+  latitude: number;
+  longitude: number;
+  upvotes_count: number;
+  duplicate_of: number | null;
+  is_spam: boolean;
+}
+
+interface MergeIssuesDialogProps {
+  issue: MergeCandidate | null;
+  issues: MergeCandidate[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_CANDIDATES = 50;
+
+export const MergeIssuesDialog = ({ issue, issues, onOpenChange }: MergeIssuesDialogProps) => {
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [canonicalId, setCanonicalId] = useState<number | null>(null);
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSearch("");
+    setSelectedIds([]);
+    setCanonicalId(issue?.id ?? null);
+  }, [issue]);
+
+  // Same-category reports closest to the source issue are the likeliest duplicates
+  const candidates = useMemo(() => {
+    if (!issue) return [];
+    const term = search.trim().toLowerCase();
+    return issues
+      .filter((i) => i.id !== issue.id && !i.is_spam && i.duplicate_of === null)
+      .filter((i) => !term || i.title.toLowerCase().includes(term) || `#${i.id}`.includes(term))
+      .map((i) => ({ ...i, distance: distanceMeters(issue.latitude, issue.longitude, i.latitude, i.longitude) }))
+      .sort((a, b) => {
+        const sameCategoryA = a.category === issue.category ? 0 : 1;
+        const sameCategoryB = b.category === issue.category ? 0 : 1;
+        return sameCategoryA - sameCategoryB || a.distance - b.distance;
+      })
+      .slice(0, MAX_CANDIDATES);
+  }, [issue, issues, search]);
+
+  const group = useMemo(
+    () => (issue ? [issue, ...issues.filter((i) => selectedIds.includes(i.id))] : []),
+    [issue, issues, selectedIds],
+  );
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selected) => selected !== id)));
+    if (!checked && canonicalId === id) setCanonicalId(issue?.id ?? null);
+  };
+
+  const handleMerge = async () => {
+    if (!canonicalId) return;
+    const duplicateIds = group.map((i) => i.id).filter((id) => id !== canonicalId);
+
+    setMerging(true);
+    const { data, error } = await supabase.rpc("merge_issues", {
+      canonical_id: canonicalId,
+      duplicate_ids: duplicateIds,
+    });
+    setMerging(false);
+
+    if (error) {
+      console.error("Error merging issues:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge issues.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Issues Merged",
+      description: `${data} issue${data === 1 ? "" : "s"} linked to #${canonicalId}.`,
+    });
+    onOpenChange(false);
+  };
+
+  const movedUpvotes = group.filter((i) => i.id !== canonicalId).reduce((sum, i) => sum + i.upvotes_count, 0);
+
+  return (
+    <Dialog open={!!issue} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Duplicate Issues
+          </DialogTitle>
+          <DialogDescription>
+            Select reports describing the same problem as #{issue?.id}, then choose which one to keep.
+            Duplicates are hidden from the public and follow the canonical issue's status.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by title or #id..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <div className="max-h-60 overflow-y-auto rounded-md border divide-y">
+            {candidates.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">No matching issues.</p>
+            ) : (
+              candidates.map((candidate) => (
+                <label key={candidate.id} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50">
+                  <Checkbox
+                    checked={selectedIds.includes(candidate.id)}
+                    onCheckedChange={(checked) => toggleSelected(candidate.id, Boolean(checked))}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">#{candidate.id} {candidate.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {candidate.category} · {getStatusLabel(candidate.status)} · {formatDistance(candidate.distance)} away
+                    </p>
+                  </div>
+                  <span className="flex items-center gap-1 text-xs text-blue-600">
+                    <ThumbsUp className="h-3 w-3" />
+                    {candidate.upvotes_count}
+                  </span>
+                </label>
+              ))
+            )}
+          </div>
+
+          {group.length > 1 && (
+            <div className="space-y-2">
+              <Label>Keep as canonical issue</Label>
+              <RadioGroup
+                value={canonicalId?.toString()}
+                onValueChange={(value) => setCanonicalId(Number(value))}
+                className="space-y-1"
+              >
+                {group.map((i) => (
+                  <div key={i.id} className="flex items-center gap-2">
+                    <RadioGroupItem value={i.id.toString()} id={`canonical-${i.id}`} />
+                    <Label htmlFor={`canonical-${i.id}`} className="font-normal">
+                      #{i.id} {i.title}
+                    </Label>
+                    {i.id === canonicalId && <Badge variant="secondary">Canonical</Badge>}
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                {group.length - 1} issue{group.length === 2 ? "" : "s"} will be linked to #{canonicalId} and up to{" "}
+                {movedUpvotes} upvote{movedUpvotes === 1 ? "" : "s"} moved onto it.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={merging || group.length < 2}>
+            {merging ? "Merging..." : "Merge Issues"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
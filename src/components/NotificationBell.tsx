@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+
+type InboxNotification = Database["public"]["Functions"]["list_my_notifications"]["Returns"][number];
+
+// The inbox is keyed on the device token, so there's no realtime channel to
+// listen on; a slow poll is enough for status changes.
+const POLL_INTERVAL_MS = 120_000;
+
+export const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const fetchNotifications = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_my_notifications", { device_token: getDeviceToken() });
+    if (error) {
+      console.error("Error fetching notifications:", error);
+      return;
+    }
+    setNotifications(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = window.setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next);
+    if (!next || unreadCount === 0) return;
+
+    const { error } = await supabase.rpc("mark_notifications_read", { device_token: getDeviceToken() });
+    if (error) {
+      console.error("Error marking notifications read:", error);
+      return;
+    }
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((notification) => ({ ...notification, read_at: notification.read_at ?? readAt })));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full bg-destructive px-1 text-[10px] font-semibold leading-[18px] text-destructive-foreground">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3 flex items-center justify-between">
+          <span className="font-semibold text-sm">Notifications</span>
+          <Link to="/my-reports" className="text-xs text-primary hover:underline" onClick={() => setOpen(false)}>
+            Settings
+          </Link>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No updates on your reports yet.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <Link
+                  to={notification.url ?? "/my-reports"}
+                  onClick={() => setOpen(false)}
+                  className={`block px-4 py-3 hover:bg-muted/50 ${notification.read_at ? "" : "bg-primary/5"}`}
+                >
+                  <p className="text-sm font-medium">{notification.title}</p>
+                  <p className="text-sm text-muted-foreground">{notification.body}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
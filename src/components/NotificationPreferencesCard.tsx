@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+import { disablePushNotifications, enablePushNotifications, isPushSupported } from "@/lib/pushNotifications";
+import { getErrorMessage } from "@/lib/reportSubmission";
+
+export const NotificationPreferencesCard = () => {
+  const [email, setEmail] = useState("");
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [inAppEnabled, setInAppEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      const { data, error } = await supabase.rpc("get_notification_preferences", { device_token: getDeviceToken() });
+      if (error) {
+        console.error("Error fetching notification preferences:", error);
+      } else if (data?.[0]) {
+        setEmail(data[0].email ?? "");
+        setEmailEnabled(data[0].email_enabled);
+        setPushEnabled(data[0].push_enabled);
+        setInAppEnabled(data[0].in_app_enabled);
+      }
+      setLoading(false);
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handlePushToggle = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await enablePushNotifications();
+      } else {
+        await disablePushNotifications();
+      }
+      setPushEnabled(enabled);
+    } catch (error) {
+      console.error("Error updating push subscription:", error);
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const { error } = await supabase.rpc("save_notification_preferences", {
+      device_token: getDeviceToken(),
+      email: email.trim(),
+      email_enabled: emailEnabled,
+      push_enabled: pushEnabled,
+      in_app_enabled: inAppEnabled,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving notification preferences:", error);
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+      return;
+    }
+    toast({ title: "Preferences Saved", description: "We'll let you know when your reports are updated." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="notify-in-app">In-app</Label>
+              <p className="text-xs text-muted-foreground">Show updates under the bell in the header.</p>
+            </div>
+            <Switch id="notify-in-app" checked={inAppEnabled} onCheckedChange={setInAppEnabled} disabled={loading} />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="notify-push">Push notifications</Label>
+              <p className="text-xs text-muted-foreground">
+                {isPushSupported() ? "Get alerts on this device even when the site is closed." : "Not available in this browser."}
+              </p>
+            </div>
+            <Switch
+              id="notify-push"
+              checked={pushEnabled}
+              onCheckedChange={handlePushToggle}
+              disabled={loading || !isPushSupported()}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="notify-email">Email</Label>
+                <p className="text-xs text-muted-foreground">Every email has a one-click unsubscribe link.</p>
+              </div>
+              <Switch id="notify-email" checked={emailEnabled} onCheckedChange={setEmailEnabled} disabled={loading} />
+            </div>
+            {emailEnabled && (
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                required
+              />
+            )}
+          </div>
+
+          <Button type="submit" disabled={loading || saving}>
+            {saving ? "Saving..." : "Save Preferences"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
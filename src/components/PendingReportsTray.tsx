@@ -0,0 +1,95 @@
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CloudOff, RefreshCw, RotateCcw, Trash2, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useOfflineReports } from "@/hooks/useOfflineReports";
+
+export const PendingReportsTray = () => {
+  const { pendingReports, isOnline, syncing, syncPendingReports, retryReport, discardReport } = useOfflineReports();
+
+  if (pendingReports.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button className="shadow-lg gap-2" variant={isOnline ? "default" : "secondary"}>
+            {isOnline ? <CloudOff className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+            Pending reports
+            <Badge variant="outline" className="bg-background text-foreground">{pendingReports.length}</Badge>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="p-4 border-b">
+            <p className="font-semibold">Waiting to be sent</p>
+            <p className="text-xs text-muted-foreground">
+              {isOnline
+                ? "These reports will be submitted automatically. Failed ones wait for you to retry them."
+                : "You're offline. Reports will be submitted when your connection returns."}
+            </p>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y">
+            {pendingReports.map((report) => (
+              <div key={report.id} className="p-4 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{report.draft.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {report.draft.category} · saved {formatDistanceToNow(new Date(report.queuedAt), { addSuffix: true })}
+                  </p>
+                  {report.failed && (
+                    <p className="text-xs font-medium text-destructive flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Not sent. Retry or discard it.
+                    </p>
+                  )}
+                  {report.lastError && (
+                    <p className="text-xs text-destructive truncate" title={report.lastError}>
+                      {report.attempts} failed attempt{report.attempts === 1 ? "" : "s"}: {report.lastError}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0">
+                  {report.failed && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={!isOnline || syncing}
+                      onClick={() => retryReport(report.id!)}
+                      aria-label="Retry"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => {
+                      if (confirm("Discard this report? It will not be submitted.")) discardReport(report.id!);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="p-3 border-t">
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full"
+              disabled={!isOnline || syncing}
+              onClick={syncPendingReports}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+              {syncing ? "Sending..." : "Retry now"}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
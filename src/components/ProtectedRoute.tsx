@@ -1,14 +1,20 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth.tsx';
+import { useAdminRole } from '@/hooks/useAdminRole.tsx';
+import { Button } from '@/components/ui/button';
+import type { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated, loading } = useAuth();
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const navigate = useNavigate();
+  const { isAuthenticated, loading, signOut } = useAuth();
+  const { isStaff, can, loading: roleLoading } = useAdminRole();
 
-  if (loading) {
+  if (loading || roleLoading) {
     return <div>Loading...</div>; // Or a spinner component
   }
 
@@ -16,6 +22,30 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/admin-login" replace />;
   }
 
+  if (!isStaff) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
+          <p className="text-muted-foreground mb-4">Your account does not have access to the admin area.</p>
+          <Button onClick={signOut}>Sign Out</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
+          <p className="text-muted-foreground mb-4">Your role does not have access to this page.</p>
+          <Button onClick={() => navigate('/admin')}>Go to Dashboard</Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
@@ -5,21 +5,16 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertTriangle, MapPin } from "lucide-react";
 import { formatDistanceToNow } from 'date-fns';
+import { IssueStatus, STATUS_META } from '@/lib/issueStatus';
 
 interface Issue {
   id: number;
   title: string;
-  location: string;
-  status: 'new' | 'in-progress' | 'resolved';
+  location_name: string | null;
+  status: IssueStatus;
   created_at: string;
 }
 
-const statusVariantMap = {
-  new: 'default',
-  'in-progress': 'secondary',
-  resolved: 'outline',
-};
-
 export const RecentIssues = () => {
   const [issues, setIssues] = useState<Issue[]>([]);
   const [loading, setLoading] = useState(true);
@@ -28,12 +23,12 @@ export const RecentIssues = () => {
     try {
       const { data, error } = await supabase
         .from('issues')
-        .select('*')
+        .select('id, title, location_name, status, created_at')
         .order('created_at', { ascending: false })
         .limit(5);
 
       if (error) throw error;
-      setIssues(data as Issue[]);
+      setIssues(data);
     } catch (error: any) {
       console.error("Error fetching recent issues:", error.message);
     } finally {
@@ -97,11 +92,11 @@ export const RecentIssues = () => {
                 <MapPin className="h-5 w-5 text-muted-foreground" />
                 <div>
                   <p className="font-medium">{issue.title}</p>
-                  <p className="text-sm text-muted-foreground">{issue.location}</p>
+                  <p className="text-sm text-muted-foreground">{issue.location_name}</p>
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                <Badge variant={statusVariantMap[issue.status] || 'default'}>{issue.status}</Badge>
+                <Badge variant={STATUS_META[issue.status]?.badgeVariant ?? 'default'}>{STATUS_META[issue.status]?.label ?? issue.status}</Badge>
                 <span className="text-xs text-muted-foreground">
                   {formatDistanceToNow(new Date(issue.created_at), { addSuffix: true })}
                 </span>
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { ImagePlus, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+import { getErrorMessage, uploadReportPhoto } from "@/lib/reportSubmission";
+
+interface ReportFollowupFormProps {
+  issueId: number;
+  trackingCode: string | null;
+  onAdded: () => void;
+}
+
+const MAX_FOLLOWUP_LENGTH = 2000;
+
+export const ReportFollowupForm = ({ issueId, trackingCode, onAdded }: ReportFollowupFormProps) => {
+  const [body, setBody] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() && !photo) return;
+
+    setIsSubmitting(true);
+    try {
+      const imageUrl = photo ? await uploadReportPhoto(photo, photo.name) : null;
+      const { error } = await supabase.rpc("add_issue_followup", {
+        p_issue_id: issueId,
+        device_token: getDeviceToken(),
+        tracking_code: trackingCode,
+        body: body.trim(),
+        image_url: imageUrl,
+      });
+      if (error) throw error;
+
+      toast({ title: "Update Added", description: "Your extra details were added to the report." });
+      setBody("");
+      setPhoto(null);
+      onAdded();
+    } catch (error) {
+      console.error("Error adding follow-up:", error);
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_FOLLOWUP_LENGTH}
+        placeholder="Anything new? e.g. the pothole has grown, or it's now blocking the bike lane"
+        rows={3}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            id={`followup-photo-${issueId}`}
+            accept="image/*"
+            capture="environment"
+            onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+            className="hidden"
+          />
+          <Button type="button" variant="outline" size="sm" asChild>
+            <label htmlFor={`followup-photo-${issueId}`} className="cursor-pointer flex items-center gap-2">
+              <ImagePlus className="h-4 w-4" />
+              {photo ? "Change Photo" : "Add Photo"}
+            </label>
+          </Button>
+          {photo && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground max-w-[160px]">
+              <span className="truncate">{photo.name}</span>
+              <button type="button" onClick={() => setPhoto(null)} aria-label="Remove photo">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          )}
+        </div>
+        <Button type="submit" size="sm" disabled={isSubmitting || (!body.trim() && !photo)} className="flex items-center gap-2">
+          <Send className="h-4 w-4" />
+          {isSubmitting ? "Sending..." : "Add Update"}
+        </Button>
+      </div>
+    </form>
+  );
+};
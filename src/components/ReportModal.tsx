@@ -1,89 +1,211 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { MapPin, Upload, X, ClipboardList, LayoutGrid, MessageSquare, Map, Star } from "lucide-react";
+import { format } from "date-fns";
+import { MapPin, Upload, X, ClipboardList, LayoutGrid, MessageSquare, Map, Star, CheckCircle2, Copy, Video, Camera, AlertTriangle, Crosshair } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { Checkbox } from "./ui/checkbox";
+import { Progress } from "./ui/progress";
+import { useOfflineReports } from "@/hooks/useOfflineReports";
+import { useCategories } from "@/hooks/useCategories";
+import { CategoryFieldsForm } from "@/components/CategoryFieldsForm";
+import { DetailFormValues, buildDetailsSchema, getCategoryFields } from "@/lib/categoryFields";
+import { ReportDraft, ReportProgress, SubmittedReport, UploadStatus, isNetworkError, submitReport } from "@/lib/reportSubmission";
+import { useSimilarIssues, SimilarIssue } from "@/hooks/useSimilarIssues";
+import { SimilarIssuesPanel } from "@/components/SimilarIssuesPanel";
+import { LocationPicker } from "@/components/LocationPicker";
+import { MAX_REPORT_FILES, getMediaType, validateReportFile } from "@/lib/reportMedia";
+import { PhotoMetadata, readPhotoMetadata } from "@/lib/photoMetadata";
+import { distanceMeters, formatDistance } from "@/lib/geo";
+import { GeocodedPlace, reverseGeocode } from "@/lib/geocoding";
+
+// Beyond this the photo was probably taken somewhere other than where the
+// reporter is standing now
+const PHOTO_LOCATION_MISMATCH_METERS = 200;
+
+interface ReportLocation {
+  lat: number;
+  lng: number;
+  name: string;
+  source: "device" | "photo" | "map";
+  place: GeocodedPlace;
+}
+
+const locateReport = async (
+  lat: number,
+  lng: number,
+  source: ReportLocation["source"],
+  fallbackName: string,
+): Promise<ReportLocation> => {
+  const place = await reverseGeocode(lat, lng);
+  return { lat, lng, name: place.name ?? fallbackName, source, place };
+};
+
+const getPhotoLocation = ({ latitude, longitude }: PhotoMetadata) =>
+  locateReport(latitude, longitude, "photo", "Photo location");
 
 interface ReportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const issueCategories = [
-  "Pothole",
-  "Broken Streetlight",
-  "Overflowing Trash Bin",
-  "Graffiti",
-  "Damaged Public Property",
-  "Water Leak",
-  "Sidewalk Damage",
-  "Traffic Signal Issue",
-  "Other"
-];
-
 export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
   const [category, setCategory] = useState("");
+  const [detailValues, setDetailValues] = useState<DetailFormValues>({});
+  const [detailErrors, setDetailErrors] = useState<Record<string, string>>({});
   const [description, setDescription] = useState("");
-  const [photo, setPhoto] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null);
   const [title, setTitle] = useState("");
   const [streetAddress, setStreetAddress] = useState("");
   const [landmark, setLandmark] = useState("");
   const [agreedToTerms, setAgreedToTerms] = useState(false);
-  const [location, setLocation] = useState<{ lat: number; lng: number; name: string } | null>(null);
+  const [location, setLocation] = useState<ReportLocation | null>(null);
+  const [locationDenied, setLocationDenied] = useState(false);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata | null>(null);
+  const [photoLocationDismissed, setPhotoLocationDismissed] = useState(false);
+  const [duplicatesDismissed, setDuplicatesDismissed] = useState(false);
+  const [receipt, setReceipt] = useState<SubmittedReport | null>(null);
   const { toast } = useToast();
+  const { queueReport } = useOfflineReports();
+  const { activeCategories, findCategory } = useCategories();
+  const categoryFields = useMemo(() => getCategoryFields(findCategory(category)), [category, findCategory]);
+  const { similarIssues } = useSimilarIssues({
+    title,
+    description,
+    category,
+    latitude: location?.lat,
+    longitude: location?.lng,
+  });
 
   useEffect(() => {
-    if (isOpen && !location) {
+    if (isOpen && !location && !locationDenied) {
       navigator.geolocation.getCurrentPosition(
         async (position) => {
           const { latitude, longitude } = position.coords;
-          try {
-            const response = await fetch(
-              `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${latitude}&longitude=${longitude}&localityLanguage=en`
-            );
-            const data = await response.json();
-            const locationName = data.locality || data.city || data.countryName || "Unknown location";
-            setLocation({ lat: latitude, lng: longitude, name: locationName });
-          } catch (error) {
-            setLocation({ lat: latitude, lng: longitude, name: "Current location" });
-          }
+          const detected = await locateReport(latitude, longitude, "device", "Current location");
+          // A location picked on the map or taken from the photo meanwhile wins
+          setLocation((current) => current ?? detected);
         },
         (error) => {
           console.error("Error getting location:", error);
           toast({
-            title: "Location Access Required",
-            description: "Please enable location services to report an issue.",
-            variant: "destructive",
+            title: "Location Unavailable",
+            description: "Search for the address or drop a pin on the map instead.",
           });
-          setLocation({ lat: 0, lng: 0, name: "Location unavailable" });
+          setLocationDenied(true);
+          setShowLocationPicker(true);
         }
       );
     }
-  }, [isOpen, location, toast]);
+  }, [isOpen, location, locationDenied, toast]);
+
+  // Where and when the cover photo was taken, if the camera recorded it
+  const cover = files.find((file) => getMediaType(file) === "image");
+  useEffect(() => {
+    setPhotoMetadata(null);
+    setPhotoLocationDismissed(false);
+    if (!cover) return;
+
+    let cancelled = false;
+    readPhotoMetadata(cover).then((metadata) => {
+      if (!cancelled) setPhotoMetadata(metadata);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [cover]);
+
+  const photoHasLocation = photoMetadata?.latitude != null && photoMetadata?.longitude != null;
+  const photoDistance = photoHasLocation && location?.source === "device"
+    ? distanceMeters(location.lat, location.lng, photoMetadata.latitude, photoMetadata.longitude)
+    : null;
+  const showPhotoLocationWarning =
+    !photoLocationDismissed && photoDistance !== null && photoDistance > PHOTO_LOCATION_MISMATCH_METERS;
+
+  const applyPhotoLocation = async (metadata: PhotoMetadata) => {
+    setPhotoLocationDismissed(true);
+    setLocation(await getPhotoLocation(metadata));
+  };
+
+  // Without a device position the photo's own location is the best start
+  const needsLocation = locationDenied && !location;
+  useEffect(() => {
+    if (needsLocation && photoMetadata?.latitude != null && photoMetadata?.longitude != null) {
+      setPhotoLocationDismissed(true);
+      getPhotoLocation(photoMetadata).then(setLocation);
+    }
+  }, [needsLocation, photoMetadata]);
+
+  const handlePinChange = async (position: { lat: number; lng: number }, label?: string) => {
+    setPhotoLocationDismissed(true);
+    const pinned = await locateReport(position.lat, position.lng, "map", "Pinned location");
+    // Search results come with a long address; the first parts are enough
+    setLocation(label ? { ...pinned, name: label.split(",").slice(0, 2).join(",").trim() } : pinned);
+  };
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value);
+    setDetailValues({});
+    setDetailErrors({});
+  };
+
+  const handleDetailChange = (key: string, value: string | boolean | Blob | undefined) => {
+    setDetailValues((current) => ({ ...current, [key]: value }));
+    setDetailErrors((current) => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setTitle("");
+    setCategory("");
+    setDetailValues({});
+    setDetailErrors({});
+    setDescription("");
+    setStreetAddress("");
+    setLandmark("");
+    setFiles([]);
+    setLocation(null);
+    setLocationDenied(false);
+    setShowLocationPicker(false);
+    setPhotoMetadata(null);
+    setPhotoLocationDismissed(false);
+    setAgreedToTerms(false);
+    setDuplicatesDismissed(false);
+    setIsSubmitting(false);
+    setUploadStatus(null);
+    setReceipt(null);
+    onClose();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!location || location.name === "Location unavailable") {
+    if (!location) {
       toast({
         title: "Location Required",
-        description: "Please enable location access and try again.",
+        description: "Search for the address or drop a pin on the map to set the location.",
         variant: "destructive",
       });
+      setShowLocationPicker(true);
       return;
     }
 
-    if (!photo) {
+    // The first photo becomes the cover shown on cards and the map
+    if (!cover) {
       toast({
         title: "Photo Required",
-        description: "Please upload a photo of the issue.",
+        description: "Please upload at least one photo of the issue.",
         variant: "destructive",
       });
       return;
@@ -98,6 +220,29 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
       return;
     }
 
+    const parsedDetails = buildDetailsSchema(categoryFields).safeParse(detailValues);
+    if (!parsedDetails.success) {
+      setDetailErrors(
+        Object.fromEntries(parsedDetails.error.issues.map((issue) => [String(issue.path[0]), issue.message])),
+      );
+      toast({
+        title: "Missing Information",
+        description: `Please answer the ${category} questions.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const details: ReportDraft["details"] = {};
+    const detailPhotos: ReportDraft["detailPhotos"] = {};
+    for (const [key, value] of Object.entries(parsedDetails.data)) {
+      if (value instanceof Blob) {
+        detailPhotos[key] = { blob: value, name: value instanceof File ? value.name : `${key}.jpg` };
+      } else if (value !== undefined) {
+        details[key] = value as string | number | boolean;
+      }
+    }
+
     if (!agreedToTerms) {
       toast({
         title: "Terms and Conditions",
@@ -109,55 +254,154 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
 
     setIsSubmitting(true);
 
-    try {
-      let imageUrl = null;
-      if (photo) {
-        const fileExt = photo.name.split('.').pop();
-        const fileName = `${Date.now()}.${fileExt}`;
-        const { error: uploadError } = await supabase.storage.from('issues').upload(fileName, photo);
-        if (uploadError) throw uploadError;
-        const { data: { publicUrl } } = supabase.storage.from('issues').getPublicUrl(fileName);
-        imageUrl = publicUrl;
+    const draft: ReportDraft = {
+      title,
+      category,
+      description,
+      latitude: location.lat,
+      longitude: location.lng,
+      location_name: location.name,
+      ward: location.place.ward,
+      neighbourhood: location.place.neighbourhood,
+      postcode: location.place.postcode,
+      street_address: streetAddress,
+      landmark,
+      photo: cover,
+      photoName: cover.name,
+      extraMedia: files.filter((file) => file !== cover).map((file) => ({ blob: file, name: file.name })),
+      details,
+      detailPhotos,
+    };
+
+    const saveOffline = async (progress: ReportProgress = {}) => {
+      try {
+        await queueReport(draft, progress);
+        toast({
+          title: "Saved Offline",
+          description: "You're not connected right now. Your report will be sent automatically once you're back online.",
+        });
+        resetForm();
+      } catch (error) {
+        console.error('Error saving report offline:', error);
+        toast({ title: "Submission Failed", description: "Something went wrong. Please try again.", variant: "destructive" });
+        setIsSubmitting(false);
       }
+    };
 
-      const { error: insertError } = await supabase.from('issues').insert({
-        title,
-        category,
-        description,
-        latitude: location.lat,
-        longitude: location.lng,
-        location_name: location.name,
-        image_url: imageUrl,
-        status: 'new',
-        street_address: streetAddress,
-        landmark,
-      });
+    if (!navigator.onLine) {
+      await saveOffline();
+      return;
+    }
+
+    let progress: ReportProgress = {};
+    try {
+      const submitted = await submitReport(draft, progress, (next) => { progress = next; }, setUploadStatus);
+      setUploadStatus(null);
 
-      if (insertError) throw insertError;
-
-      toast({ title: "Report Submitted!", description: "Thank you for helping improve our community." });
-      setTitle("");
-      setCategory("");
-      setDescription("");
-      setStreetAddress("");
-      setLandmark("");
-      setPhoto(null);
-      setLocation(null);
-      setAgreedToTerms(false);
+      if (submitted.attachmentsFailed) {
+        toast({
+          title: "Attachments Not Saved",
+          description: "Your report was submitted, but its extra photos and videos couldn't be added.",
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Report Submitted!", description: "Thank you for helping improve our community." });
+      }
+      setReceipt(submitted);
       setIsSubmitting(false);
-      onClose();
     } catch (error) {
       console.error('Error submitting report:', error);
+      setUploadStatus(null);
+      if (isNetworkError(error)) {
+        await saveOffline(progress);
+        return;
+      }
       toast({ title: "Submission Failed", description: "Something went wrong. Please try again.", variant: "destructive" });
       setIsSubmitting(false);
     }
   };
 
-  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) setPhoto(file);
+  const handleSupportExisting = (issue: SimilarIssue) => {
+    toast({
+      title: "Thanks for your support!",
+      description: `Your vote was added to report #${issue.issue_id}, so there's no need to file a new one.`,
+    });
+    resetForm();
   };
 
+  const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    const room = MAX_REPORT_FILES - files.length;
+    if (selected.length > room) {
+      toast({
+        title: "Too Many Files",
+        description: `You can attach up to ${MAX_REPORT_FILES} photos or videos.`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted: File[] = [];
+    for (const file of selected.slice(0, Math.max(room, 0))) {
+      const problem = await validateReportFile(file);
+      if (problem) {
+        toast({ title: "File Not Added", description: problem, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    }
+    setFiles((current) => [...current, ...accepted]);
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleCopyCode = async () => {
+    if (!receipt) return;
+    try {
+      await navigator.clipboard.writeText(receipt.trackingCode);
+      toast({ title: "Code Copied", description: "Keep it somewhere safe to check on your report later." });
+    } catch (error) {
+      console.error("Error copying tracking code:", error);
+    }
+  };
+
+  if (receipt) {
+    return (
+      <Dialog open={isOpen} onOpenChange={resetForm}>
+        <DialogContent className="sm:max-w-md z-50 p-8">
+          <DialogHeader className="text-center">
+            <CheckCircle2 className="w-12 h-12 text-green-600 mx-auto mb-2" />
+            <DialogTitle className="text-2xl font-bold">Report #{receipt.issueId} Submitted</DialogTitle>
+            <DialogDescription>
+              This is your private tracking code. Use it to follow your report or add details from another device.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-center gap-2 rounded-lg bg-muted p-4">
+            <span className="font-mono text-xl font-semibold tracking-wider">{receipt.trackingCode}</span>
+            <Button type="button" variant="ghost" size="icon" onClick={handleCopyCode} aria-label="Copy tracking code">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground text-center">
+            Anyone with this code can add follow-ups to your report, so don't share it publicly.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Button asChild variant="outline" className="flex-1" onClick={resetForm}>
+              <Link to={`/issues/${receipt.issueId}`}>View Report</Link>
+            </Button>
+            <Button asChild className="flex-1 gradient-primary" onClick={resetForm}>
+              <Link to="/my-reports">My Reports</Link>
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto z-50 p-8">
@@ -182,18 +426,25 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
               <Label htmlFor="category">Issue Category *</Label>
               <div className="relative">
                 <LayoutGrid className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                <Select value={category} onValueChange={setCategory}>
+                <Select value={category} onValueChange={handleCategoryChange}>
                   <SelectTrigger className="pl-10">
                     <SelectValue placeholder="Select a category..." />
                   </SelectTrigger>
                   <SelectContent>
-                    {issueCategories.map((cat) => <SelectItem key={cat} value={cat}>{cat}</SelectItem>)}
+                    {activeCategories.map((cat) => <SelectItem key={cat.id} value={cat.name}>{cat.name}</SelectItem>)}
                   </SelectContent>
                 </Select>
               </div>
             </div>
           </div>
 
+          <CategoryFieldsForm
+            fields={categoryFields}
+            values={detailValues}
+            errors={detailErrors}
+            onChange={handleDetailChange}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="description">Description *</Label>
             <div className="relative">
@@ -202,26 +453,37 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
             </div>
           </div>
 
+          {!duplicatesDismissed && (
+            <SimilarIssuesPanel
+              similarIssues={similarIssues}
+              onSupportExisting={handleSupportExisting}
+              onDismiss={() => setDuplicatesDismissed(true)}
+            />
+          )}
+
           <div className="space-y-2">
-            <Label>Upload a Photo *</Label>
-            <div className="border-2 border-dashed rounded-lg p-6 text-center hover:border-primary transition-colors cursor-pointer">
-              <input type="file" id="photo" accept="image/*" capture="environment" onChange={handlePhotoChange} className="hidden" />
-              <label htmlFor="photo" className="cursor-pointer w-full flex flex-col items-center">
-                {photo ? (
-                  <div className="text-center space-y-2">
-                    <img src={URL.createObjectURL(photo)} alt="Preview" className="max-h-32 rounded-lg mx-auto" />
-                    <p className="text-sm text-muted-foreground truncate max-w-xs">{photo.name}</p>
-                    <Button type="button" variant="outline" size="sm" onClick={() => setPhoto(null)}><X className="w-4 h-4 mr-2" />Remove</Button>
-                  </div>
-                ) : (
+            <Label>Photos & Videos *</Label>
+            {files.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {files.map((file, index) => (
+                  <MediaPreview key={`${file.name}-${index}`} file={file} onRemove={() => removeFile(index)} />
+                ))}
+              </div>
+            )}
+            {files.length < MAX_REPORT_FILES && (
+              <div className="border-2 border-dashed rounded-lg p-6 text-center hover:border-primary transition-colors cursor-pointer">
+                <input type="file" id="photo" accept="image/*,video/*" multiple onChange={handleFilesChange} className="hidden" />
+                <label htmlFor="photo" className="cursor-pointer w-full flex flex-col items-center">
                   <div className="space-y-2">
                     <Upload className="w-8 h-8 text-muted-foreground mx-auto" />
-                    <p className="font-semibold">Click or drag to upload</p>
-                    <p className="text-xs text-muted-foreground">PNG or JPG (max 5MB)</p>
+                    <p className="font-semibold">{files.length ? "Add more" : "Click or drag to upload"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Up to {MAX_REPORT_FILES} files: photos or short videos (max 30s)
+                    </p>
                   </div>
-                )}
-              </label>
-            </div>
+                </label>
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -245,8 +507,56 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
             <Label>Location *</Label>
             <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
               <MapPin className="w-5 h-5 text-primary" />
-              <span className="text-sm font-medium text-muted-foreground">{location ? location.name : "Detecting location..."}</span>
+              <span className="text-sm font-medium text-muted-foreground">
+                {location ? location.name : locationDenied ? "Choose the location on the map" : "Detecting location..."}
+              </span>
+              {location?.source === "photo" && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Camera className="h-3.5 w-3.5" />
+                  From photo
+                </span>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => setShowLocationPicker((shown) => !shown)}
+              >
+                <Crosshair className="h-4 w-4 mr-1" />
+                {showLocationPicker ? "Hide map" : "Adjust on map"}
+              </Button>
             </div>
+            {showLocationPicker && (
+              <LocationPicker
+                value={location}
+                category={category}
+                initialQuery={streetAddress}
+                onChange={handlePinChange}
+              />
+            )}
+            {photoMetadata?.takenAt && (
+              <p className="text-xs text-muted-foreground">
+                Photo taken {format(photoMetadata.takenAt, "PPp")}
+              </p>
+            )}
+            {showPhotoLocationWarning && (
+              <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 space-y-2">
+                <p className="flex items-start gap-2 text-sm text-yellow-900">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  Your photo was taken about {formatDistance(photoDistance)} from where you are now. Which location should we use?
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" variant="outline" onClick={() => applyPhotoLocation(photoMetadata)}>
+                    <Camera className="h-4 w-4 mr-1" />
+                    Use photo location
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setPhotoLocationDismissed(true)}>
+                    Keep current location
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="items-center flex space-x-2">
@@ -259,6 +569,16 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
             </label>
           </div>
 
+          {isSubmitting && uploadStatus && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Uploading file {uploadStatus.current} of {uploadStatus.total}</span>
+                <span>{Math.round(uploadStatus.fraction * 100)}%</span>
+              </div>
+              <Progress value={uploadStatus.fraction * 100} className="h-2" />
+            </div>
+          )}
+
           <div className="flex gap-4 pt-4">
             <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={isSubmitting}>Cancel</Button>
             <Button type="submit" className="flex-1 gradient-primary" disabled={isSubmitting}>
@@ -270,3 +590,34 @@ export const ReportModal = ({ isOpen, onClose }: ReportModalProps) => {
     </Dialog>
   );
 };
+
+const MediaPreview = ({ file, onRemove }: { file: File; onRemove: () => void }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <div className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+      {url && (getMediaType(file) === "video" ? (
+        <video src={url} className="w-full h-full object-cover" muted />
+      ) : (
+        <img src={url} alt={file.name} className="w-full h-full object-cover" />
+      ))}
+      {getMediaType(file) === "video" && (
+        <Video className="absolute bottom-1.5 left-1.5 w-4 h-4 text-white drop-shadow" />
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-1 right-1 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+        aria-label={`Remove ${file.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { Route } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+
+type RoutingRule = Tables<"routing_rules">;
+type Department = Tables<"departments">;
+type Team = Tables<"teams">;
+
+interface RoutingRuleDialogProps {
+  open: boolean;
+  rule: RoutingRule | null;
+  departments: Department[];
+  teams: Team[];
+  nextPosition: number;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ANY = "any";
+
+const zoneFields = [
+  { key: "min_latitude", label: "South (min lat)" },
+  { key: "max_latitude", label: "North (max lat)" },
+  { key: "min_longitude", label: "West (min lng)" },
+  { key: "max_longitude", label: "East (max lng)" },
+] as const;
+
+type ZoneKey = (typeof zoneFields)[number]["key"];
+
+const emptyZone: Record<ZoneKey, string> = {
+  min_latitude: "",
+  max_latitude: "",
+  min_longitude: "",
+  max_longitude: "",
+};
+
+export const RoutingRuleDialog = ({
+  open,
+  rule,
+  departments,
+  teams,
+  nextPosition,
+  onOpenChange,
+  onSaved,
+}: RoutingRuleDialogProps) => {
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState(ANY);
+  const [keywords, setKeywords] = useState("");
+  const [zone, setZone] = useState(emptyZone);
+  const [departmentId, setDepartmentId] = useState("");
+  const [teamId, setTeamId] = useState(ANY);
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? "");
+    setCategory(rule?.category ?? ANY);
+    setKeywords(rule?.keywords?.join(", ") ?? "");
+    setZone(
+      rule && rule.min_latitude !== null
+        ? {
+            min_latitude: String(rule.min_latitude),
+            max_latitude: String(rule.max_latitude),
+            min_longitude: String(rule.min_longitude),
+            max_longitude: String(rule.max_longitude),
+          }
+        : emptyZone,
+    );
+    setDepartmentId(rule?.department_id ?? "");
+    setTeamId(rule?.team_id ?? ANY);
+    setIsActive(rule?.is_active ?? true);
+  }, [open, rule]);
+
+  const departmentTeams = teams.filter((team) => team.department_id === departmentId);
+  const zoneValues = zoneFields.map(({ key }) => zone[key].trim());
+  const zoneFilled = zoneValues.filter(Boolean).length;
+  const zoneInvalid =
+    (zoneFilled > 0 && zoneFilled < 4) ||
+    zoneValues.some((value) => value !== "" && Number.isNaN(Number(value)));
+
+  const handleSave = async () => {
+    if (!name.trim() || !departmentId) {
+      toast({
+        title: "Missing Information",
+        description: "A rule needs a name and a destination department.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (zoneInvalid) {
+      toast({
+        title: "Invalid Zone",
+        description: "Fill in all four zone bounds as numbers, or leave them all empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const keywordList = keywords
+      .split(",")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean);
+    const zoneNumber = (key: ZoneKey) => (zoneFilled === 4 ? Number(zone[key]) : null);
+
+    const values: TablesInsert<"routing_rules"> = {
+      name: name.trim(),
+      category: category === ANY ? null : category,
+      keywords: keywordList.length > 0 ? keywordList : null,
+      min_latitude: zoneNumber("min_latitude"),
+      max_latitude: zoneNumber("max_latitude"),
+      min_longitude: zoneNumber("min_longitude"),
+      max_longitude: zoneNumber("max_longitude"),
+      department_id: departmentId,
+      team_id: teamId === ANY ? null : teamId,
+      is_active: isActive,
+    };
+
+    setSaving(true);
+    const { error } = rule
+      ? await supabase.from("routing_rules").update(values).eq("id", rule.id)
+      : await supabase.from("routing_rules").insert({ ...values, position: nextPosition });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving routing rule:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save routing rule.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: rule ? "Rule Updated" : "Rule Created", description: values.name });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Route className="h-5 w-5" />
+            {rule ? "Edit Routing Rule" : "New Routing Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            Conditions left empty match every report. All filled-in conditions must match.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Downtown potholes" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                {categories.map((cat) => <SelectItem key={cat.id} value={cat.name}>{cat.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-keywords">Keywords</Label>
+            <Input
+              id="rule-keywords"
+              value={keywords}
+              onChange={(e) => setKeywords(e.target.value)}
+              placeholder="hydrant, flooding"
+            />
+            <p className="text-xs text-muted-foreground">Comma separated. Matches if any appears in the title or description.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Zone</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {zoneFields.map(({ key, label }) => (
+                <Input
+                  key={key}
+                  inputMode="decimal"
+                  placeholder={label}
+                  value={zone[key]}
+                  onChange={(e) => setZone((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              ))}
+            </div>
+            {zoneInvalid && <p className="text-xs text-destructive">Fill in all four bounds, or none.</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select
+                value={departmentId}
+                onValueChange={(value) => {
+                  setDepartmentId(value);
+                  setTeamId(ANY);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={teamId} onValueChange={setTeamId} disabled={!departmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Whole department</SelectItem>
+                  {departmentTeams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="rule-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="rule-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
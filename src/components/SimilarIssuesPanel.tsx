@@ -0,0 +1,72 @@
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Image, MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { IssueUpvote } from "@/components/IssueUpvote";
+import type { SimilarIssue } from "@/hooks/useSimilarIssues";
+import { formatDistance } from "@/lib/geo";
+import { getStatusLabel } from "@/lib/issueStatus";
+
+interface SimilarIssuesPanelProps {
+  similarIssues: SimilarIssue[];
+  onSupportExisting: (issue: SimilarIssue) => void;
+  onDismiss: () => void;
+}
+
+export const SimilarIssuesPanel = ({ similarIssues, onSupportExisting, onDismiss }: SimilarIssuesPanelProps) => {
+  if (similarIssues.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        <Copy className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-semibold text-amber-900">Has this already been reported?</p>
+          <p className="text-sm text-amber-800">
+            Supporting an existing report helps it get fixed faster than filing a new one.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {similarIssues.map((issue) => (
+          <div key={issue.issue_id} className="flex items-center gap-3 rounded-md bg-background p-2 shadow-sm">
+            {issue.image_url ? (
+              <img src={issue.image_url} alt={issue.title} className="h-14 w-14 rounded object-cover flex-shrink-0" />
+            ) : (
+              <div className="h-14 w-14 rounded bg-muted flex items-center justify-center flex-shrink-0">
+                <Image className="h-5 w-5 text-muted-foreground" />
+              </div>
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium truncate">
+                Is this the same as #{issue.issue_id}? {issue.title}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline" className="text-xs">{getStatusLabel(issue.status)}</Badge>
+                {issue.distance_meters != null && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {formatDistance(issue.distance_meters)} away
+                  </span>
+                )}
+                <span>{formatDistanceToNow(new Date(issue.created_at), { addSuffix: true })}</span>
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+              <IssueUpvote
+                issueId={issue.issue_id}
+                initialUpvotes={issue.upvotes_count || 0}
+                onUpvoteChange={(hasUpvoted) => hasUpvoted && onSupportExisting(issue)}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" variant="link" size="sm" className="px-0 h-auto text-amber-900" onClick={onDismiss}>
+        None of these — continue with a new report
+      </Button>
+    </div>
+  );
+};
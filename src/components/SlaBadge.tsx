@@ -0,0 +1,40 @@
+import { format } from "date-fns";
+import { AlarmClock, AlertTriangle } from "lucide-react";
+import { SLA_STATE_META, SlaIssue, formatDuration, getSlaState } from "@/lib/sla";
+
+interface SlaBadgeProps {
+  issue: SlaIssue & { escalated_at?: string | null };
+  // Passed in so a whole table counts down off one timer
+  now: number;
+}
+
+export const SlaBadge = ({ issue, now }: SlaBadgeProps) => {
+  const state = getSlaState(issue, now);
+  if (state === "none") return null;
+
+  const due = new Date(issue.due_at!).getTime();
+  const text =
+    state === "overdue"
+      ? `Overdue by ${formatDuration(now - due)}`
+      : state === "on_track" || state === "due_soon"
+        ? `Due in ${formatDuration(due - now)}`
+        : SLA_STATE_META[state].label;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span
+        title={`Due ${format(due, "d MMM yyyy, HH:mm")}`}
+        className={`inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs font-medium ${SLA_STATE_META[state].className}`}
+      >
+        <AlarmClock className="h-3 w-3" />
+        {text}
+      </span>
+      {state === "overdue" && issue.escalated_at && (
+        <span className="inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs font-medium bg-red-600 text-white">
+          <AlertTriangle className="h-3 w-3" />
+          Escalated
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import type { Category } from "@/lib/categories";
+import { ISSUE_PRIORITIES, IssuePriority, PRIORITY_META } from "@/lib/sla";
+
+type SlaPolicy = Tables<"sla_policies">;
+
+interface SlaPolicyMatrixProps {
+  categories: Category[];
+}
+
+const ALL_CATEGORIES = "all";
+
+const cellKey = (categoryId: string | null, priority: IssuePriority) => `${categoryId ?? ALL_CATEGORIES}:${priority}`;
+
+// Resolution targets by category and priority. An empty cell falls back to
+// the row for all categories, then to the category's own SLA.
+export const SlaPolicyMatrix = ({ categories }: SlaPolicyMatrixProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const fetchPolicies = useCallback(async () => {
+    const { data, error } = await supabase.from("sla_policies").select("*");
+    if (error) {
+      console.error("Error fetching SLA policies:", error);
+      toast({ title: "Error", description: "Failed to load SLA targets.", variant: "destructive" });
+      return;
+    }
+    const values = Object.fromEntries(
+      (data as SlaPolicy[]).map((policy) => [cellKey(policy.category_id, policy.priority), String(policy.resolution_hours)]),
+    );
+    setSaved(values);
+    setDrafts(values);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const saveCell = async (categoryId: string | null, priority: IssuePriority) => {
+    const key = cellKey(categoryId, priority);
+    const value = (drafts[key] ?? "").trim();
+    if (value === (saved[key] ?? "")) return;
+
+    if (value && !(Number.isInteger(Number(value)) && Number(value) > 0)) {
+      toast({
+        title: "Invalid SLA",
+        description: "The SLA is a whole number of hours, or empty for none.",
+        variant: "destructive",
+      });
+      setDrafts((current) => ({ ...current, [key]: saved[key] ?? "" }));
+      return;
+    }
+
+    const { error } = value
+      ? await supabase
+          .from("sla_policies")
+          .upsert(
+            { category_id: categoryId, priority, resolution_hours: Number(value) },
+            { onConflict: "category_id,priority" },
+          )
+      : categoryId
+        ? await supabase.from("sla_policies").delete().eq("category_id", categoryId).eq("priority", priority)
+        : await supabase.from("sla_policies").delete().is("category_id", null).eq("priority", priority);
+
+    if (error) {
+      console.error("Error saving SLA policy:", error);
+      toast({ title: "Error", description: error.message || "Failed to save SLA target.", variant: "destructive" });
+      setDrafts((current) => ({ ...current, [key]: saved[key] ?? "" }));
+      return;
+    }
+
+    setSaved((current) => ({ ...current, [key]: value }));
+  };
+
+  const renderRow = (label: string, categoryId: string | null, fallback: string) => (
+    <TableRow key={categoryId ?? ALL_CATEGORIES}>
+      <TableCell className="font-medium">{label}</TableCell>
+      {ISSUE_PRIORITIES.map((priority) => {
+        const key = cellKey(categoryId, priority);
+        return (
+          <TableCell key={priority}>
+            <Input
+              inputMode="numeric"
+              className="w-24"
+              value={drafts[key] ?? ""}
+              placeholder={(categoryId && saved[cellKey(null, priority)]) || fallback}
+              onChange={(e) => setDrafts((current) => ({ ...current, [key]: e.target.value }))}
+              onBlur={() => saveCell(categoryId, priority)}
+            />
+          </TableCell>
+        );
+      })}
+    </TableRow>
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Category</TableHead>
+          {ISSUE_PRIORITIES.map((priority) => (
+            <TableHead key={priority}>{PRIORITY_META[priority].label} (hours)</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {renderRow("All categories", null, "—")}
+        {categories.map((category) =>
+          renderRow(category.name, category.id, category.sla_hours ? String(category.sla_hours) : "—"),
+        )}
+      </TableBody>
+    </Table>
+  );
+};
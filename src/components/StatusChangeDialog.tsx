@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { uploadAfterPhotos } from "@/lib/issueAttachments";
+import { IssueStatus, getStatusLabel, requiresReason } from "@/lib/issueStatus";
+import { getErrorMessage } from "@/lib/reportSubmission";
+
+export interface StatusChange {
+  issueId: number;
+  from: IssueStatus;
+  to: IssueStatus;
+}
+
+interface StatusChangeDialogProps {
+  change: StatusChange | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const StatusChangeDialog = ({ change, onOpenChange }: StatusChangeDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [afterPhotos, setAfterPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const reasonRequired = change ? requiresReason(change.from, change.to) : false;
+
+  useEffect(() => {
+    setReason("");
+    setAfterPhotos([]);
+  }, [change]);
+
+  const handleConfirm = async () => {
+    if (!change) return;
+
+    setSaving(true);
+    const { error } = await supabase.rpc("change_issue_status", {
+      p_issue_id: change.issueId,
+      new_status: change.to,
+      reason: reason.trim() || null,
+    });
+
+    if (error) {
+      setSaving(false);
+      console.error("Error updating status:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update issue status.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (afterPhotos.length > 0) {
+      try {
+        await uploadAfterPhotos(change.issueId, afterPhotos);
+      } catch (uploadError) {
+        console.error("Error uploading after photos:", uploadError);
+        toast({
+          title: "Photos Not Saved",
+          description: `The status was updated, but the after photos failed: ${getErrorMessage(uploadError)}`,
+          variant: "destructive",
+        });
+      }
+    }
+    setSaving(false);
+
+    toast({
+      title: "Status Updated",
+      description: `Issue #${change.issueId} is now ${getStatusLabel(change.to)}.`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!change} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mark as {change && getStatusLabel(change.to)}</DialogTitle>
+          <DialogDescription>
+            {change && `Issue #${change.issueId} is currently ${getStatusLabel(change.from)}.`}{" "}
+            The change is recorded in the issue's public history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="status-reason">Reason {reasonRequired ? "*" : "(optional)"}</Label>
+          <Textarea
+            id="status-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={reasonRequired ? "Explain why, e.g. waiting for a contractor" : "Add a note for the history"}
+            rows={3}
+          />
+        </div>
+
+        {change?.to === "resolved" && (
+          <div className="space-y-2">
+            <Label htmlFor="after-photos-input">After photos (optional)</Label>
+            <Input
+              id="after-photos-input"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setAfterPhotos(Array.from(e.target.files ?? []))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown next to the reporter's photos on the public issue page.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={saving || (reasonRequired && !reason.trim())}>
+            {saving ? "Saving..." : "Confirm"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { STATUS_META, getStatusLabel } from "@/lib/issueStatus";
+
+type StatusHistoryEntry = Tables<"issue_status_history">;
+
+interface StatusTimelineProps {
+  issueId: number;
+  // Bumped by the parent when the issue changes so the timeline refetches
+  refreshKey?: string;
+}
+
+export const StatusTimeline = ({ issueId, refreshKey }: StatusTimelineProps) => {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      const { data, error } = await supabase
+        .from("issue_status_history")
+        .select("*")
+        .eq("issue_id", issueId)
+        .order("changed_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching status history:", error);
+      } else {
+        setEntries(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchHistory();
+  }, [issueId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${STATUS_META[entry.to_status]?.className ?? "bg-gray-200"}`}
+          />
+          <p className="text-sm font-medium">
+            {entry.from_status ? `${getStatusLabel(entry.from_status)} → ` : "Reported · "}
+            {getStatusLabel(entry.to_status)}
+          </p>
+          <time className="text-xs text-muted-foreground">{format(new Date(entry.changed_at), "PPp")}</time>
+          {entry.reason && <p className="text-sm text-gray-600 mt-1">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
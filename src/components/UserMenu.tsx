@@ -10,16 +10,19 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { LogOut, Settings, User as UserIcon } from 'lucide-react';
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth.tsx";
+import { useAdminRole } from "@/hooks/useAdminRole.tsx";
+import { ROLE_LABELS, STAFF_ROLES } from "@/lib/permissions";
 
 export const UserMenu: React.FC = () => {
   const navigate = useNavigate();
-  const { logout } = useAuth();
+  const { user, signOut } = useAuth();
+  const { roles } = useAdminRole();
+  const staffRole = STAFF_ROLES.find((role) => roles.some((grant) => grant.role === role));
+  const roleLabel = staffRole ? ROLE_LABELS[staffRole] : "Staff";
 
   const handleLogout = async () => {
-    await supabase.auth.signOut();
-    logout();
+    await signOut();
     navigate("/admin-login");
   };
 
@@ -32,8 +35,8 @@ export const UserMenu: React.FC = () => {
             <AvatarFallback>AD</AvatarFallback>
           </Avatar>
           <div className="flex flex-col">
-            <span className="text-sm font-medium">Admin User</span>
-            <span className="text-xs text-muted-foreground">admin@CiviLink.com</span>
+            <span className="text-sm font-medium">{roleLabel}</span>
+            <span className="text-xs text-muted-foreground">{user?.email}</span>
           </div>
         </div>
       </DropdownMenuTrigger>
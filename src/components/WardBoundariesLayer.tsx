@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { GeoJSON as GeoJSONLayer, useMap } from "react-leaflet";
+import L from "leaflet";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type WardBoundary = Database["public"]["Functions"]["get_ward_boundaries"]["Returns"][number];
+
+interface WardBoundariesLayerProps {
+  selectedWardId?: string | null;
+  // Bumped by the caller to reload after an import
+  version?: number;
+  fitToBounds?: boolean;
+}
+
+export const WardBoundariesLayer = ({ selectedWardId = null, version = 0, fitToBounds = false }: WardBoundariesLayerProps) => {
+  const [boundaries, setBoundaries] = useState<WardBoundary[]>([]);
+  const map = useMap();
+
+  useEffect(() => {
+    const fetchBoundaries = async () => {
+      const { data, error } = await supabase.rpc("get_ward_boundaries");
+      if (error) {
+        console.error("Error fetching ward boundaries:", error);
+        return;
+      }
+      setBoundaries(data || []);
+    };
+
+    fetchBoundaries();
+  }, [version]);
+
+  useEffect(() => {
+    const shown = boundaries.filter((ward) => !selectedWardId || ward.id === selectedWardId);
+    if (!fitToBounds && !selectedWardId) return;
+    if (shown.length === 0) return;
+
+    const bounds = L.geoJSON(shown.map((ward) => ward.boundary as unknown as GeoJSON.Geometry)).getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [16, 16] });
+  }, [map, boundaries, selectedWardId, fitToBounds]);
+
+  return (
+    <>
+      {boundaries.map((ward) => {
+        const selected = ward.id === selectedWardId;
+        return (
+          <GeoJSONLayer
+            // GeoJSON layers don't pick up new props, so remount on change
+            key={`${ward.id}-${selected}-${version}`}
+            data={ward.boundary as unknown as GeoJSON.Geometry}
+            style={{
+              color: selected ? "hsl(var(--primary))" : "#64748b",
+              weight: selected ? 3 : 1,
+              fillOpacity: selected ? 0.08 : 0.02,
+            }}
+            onEachFeature={(_, layer) => layer.bindTooltip(ward.name, { sticky: true })}
+          />
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, FileUp, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { parseICalHolidays } from "@/lib/ical";
+import { WEEKDAYS } from "@/lib/workingCalendar";
+
+type Department = Tables<"departments">;
+type DepartmentCalendar = Tables<"department_calendars">;
+type DepartmentHoliday = Tables<"department_holidays">;
+
+interface WorkingCalendarDialogProps {
+  department: Department | null;
+  calendar: DepartmentCalendar | null;
+  holidays: DepartmentHoliday[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+  // Holidays are saved as they are edited, without closing the dialog
+  onHolidaysChanged: () => void;
+}
+
+export const WorkingCalendarDialog = ({
+  department,
+  calendar,
+  holidays,
+  onOpenChange,
+  onSaved,
+  onHolidaysChanged,
+}: WorkingCalendarDialogProps) => {
+  const [useHours, setUseHours] = useState(true);
+  const [timezone, setTimezone] = useState("UTC");
+  const [workStart, setWorkStart] = useState("09:00");
+  const [workEnd, setWorkEnd] = useState("17:00");
+  const [workDays, setWorkDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!department) return;
+    setUseHours(!!calendar);
+    setTimezone(calendar?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC");
+    setWorkStart(calendar?.work_start.slice(0, 5) ?? "09:00");
+    setWorkEnd(calendar?.work_end.slice(0, 5) ?? "17:00");
+    setWorkDays(calendar?.work_days ?? [1, 2, 3, 4, 5]);
+    setHolidayDate("");
+    setHolidayName("");
+  }, [department, calendar]);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const handleSave = async () => {
+    if (!department) return;
+
+    if (useHours && (workEnd <= workStart || workDays.length === 0)) {
+      toast({
+        title: "Invalid Hours",
+        description: "Working hours must end after they start, on at least one day a week.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = useHours
+      ? await supabase.from("department_calendars").upsert({
+          department_id: department.id,
+          timezone: timezone.trim(),
+          work_start: workStart,
+          work_end: workEnd,
+          work_days: [...workDays].sort((a, b) => a - b),
+        })
+      : await supabase.from("department_calendars").delete().eq("department_id", department.id);
+    setSaving(false);
+
+    if (error) {
+      showError(error.message || "Failed to save the working calendar.", error);
+      return;
+    }
+
+    toast({ title: "Calendar Saved", description: department.name });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  const saveHolidays = async (entries: { date: string; name: string }[]) => {
+    if (!department || entries.length === 0) return false;
+    const { error } = await supabase.from("department_holidays").upsert(
+      entries.map((entry) => ({ department_id: department.id, holiday_date: entry.date, name: entry.name })),
+      { onConflict: "department_id,holiday_date" },
+    );
+    if (error) {
+      showError("Failed to save holidays.", error);
+      return false;
+    }
+    onHolidaysChanged();
+    return true;
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayDate) return;
+    if (await saveHolidays([{ date: holidayDate, name: holidayName.trim() || "Holiday" }])) {
+      setHolidayDate("");
+      setHolidayName("");
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const imported = parseICalHolidays(await file.text());
+    if (imported.length === 0) {
+      showError("No events were found in that calendar file.", file.name);
+      return;
+    }
+    if (await saveHolidays(imported)) {
+      toast({ title: "Holidays Imported", description: `${imported.length} days from ${file.name}.` });
+    }
+  };
+
+  const deleteHoliday = async (holiday: DepartmentHoliday) => {
+    const { error } = await supabase.from("department_holidays").delete().eq("id", holiday.id);
+    if (error) {
+      showError("Failed to delete holiday.", error);
+      return;
+    }
+    onHolidaysChanged();
+  };
+
+  return (
+    <Dialog open={!!department} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            {department?.name} Calendar
+          </DialogTitle>
+          <DialogDescription>
+            Working time on this department's reports counts only these hours, outside its holidays.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="calendar-hours" checked={useHours} onCheckedChange={setUseHours} />
+            <Label htmlFor="calendar-hours">Set working hours</Label>
+          </div>
+          {!useHours && (
+            <p className="text-xs text-muted-foreground">
+              Without working hours the department counts as working around the clock.
+            </p>
+          )}
+
+          {useHours && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-timezone">Time zone</Label>
+                <Input
+                  id="calendar-timezone"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="e.g. Europe/London"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-start">Starts</Label>
+                  <Input id="calendar-start" type="time" value={workStart} onChange={(e) => setWorkStart(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-end">Ends</Label>
+                  <Input id="calendar-end" type="time" value={workEnd} onChange={(e) => setWorkEnd(e.target.value)} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Working days</Label>
+                <div className="flex flex-wrap gap-4">
+                  {WEEKDAYS.map((day) => (
+                    <div key={day.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`calendar-day-${day.value}`}
+                        checked={workDays.includes(day.value)}
+                        onCheckedChange={(checked) =>
+                          setWorkDays((current) =>
+                            checked ? [...current, day.value] : current.filter((value) => value !== day.value),
+                          )
+                        }
+                      />
+                      <Label htmlFor={`calendar-day-${day.value}`} className="font-normal">{day.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <Label>Holidays</Label>
+            <p className="text-xs text-muted-foreground">
+              Saved as soon as they are added. Importing an iCal (.ics) file adds every day it covers.
+            </p>
+            <div className="flex gap-2">
+              <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className="w-44 shrink-0" />
+              <Input value={holidayName} onChange={(e) => setHolidayName(e.target.value)} placeholder="Name" />
+              <Button variant="outline" size="icon" className="shrink-0" onClick={handleAddHoliday} disabled={!holidayDate}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <label
+              htmlFor="calendar-ical"
+              className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm cursor-pointer hover:border-primary"
+            >
+              <FileUp className="h-4 w-4 text-muted-foreground" />
+              Import from iCal file
+              <input
+                id="calendar-ical"
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <div className="max-h-56 overflow-y-auto divide-y rounded-md border">
+              {holidays.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">No holidays yet.</p>
+              ) : (
+                holidays.map((holiday) => (
+                  <div key={holiday.id} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm">
+                    <span>
+                      <span className="font-medium tabular-nums">{holiday.holiday_date}</span> {holiday.name}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => deleteHoliday(holiday)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Calendar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,52 +1,83 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth.tsx';
+import { supabase } from '@/integrations/supabase/client';
+import { hasPermission, isInWorkQueue, Permission, RoleGrant, ScopedIssue, STAFF_ROLES } from '@/lib/permissions';
 
 interface AdminContextType {
   isAdmin: boolean;
-  setAsAdmin: () => void;
-  unsetAsAdmin: () => void;
+  isStaff: boolean;
+  roles: RoleGrant[];
+  departmentIds: string[];
+  can: (permission: Permission, issue?: ScopedIssue) => boolean;
+  inWorkQueue: (issue: ScopedIssue) => boolean;
   loading: boolean;
+  refreshRole: () => Promise<void>;
 }
 
 const AdminContext = createContext<AdminContextType | undefined>(undefined);
 
 export const AdminProvider = ({ children }: { children: ReactNode }) => {
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const { isAuthenticated } = useAuth(); // Consume auth context
+  const [roles, setRoles] = useState<RoleGrant[]>([]);
+  // The user the current roles were verified for
+  const [verifiedFor, setVerifiedFor] = useState<string | null | undefined>(undefined);
+  const { session, loading: authLoading } = useAuth(); // Consume auth context
+  const accessToken = session?.access_token ?? null;
+  const userId = session?.user.id ?? null;
+
+  const refreshRole = useCallback(async () => {
+    if (!accessToken) {
+      setRoles([]);
+      setVerifiedFor(null);
+      return;
+    }
 
-  useEffect(() => {
     try {
-        const storedIsAdmin = localStorage.getItem('isAdmin');
-        if (storedIsAdmin) {
-          setIsAdmin(JSON.parse(storedIsAdmin));
-        }
+      const { data, error } = await supabase.rpc('get_my_roles');
+      if (error) throw error;
+      setRoles(data || []);
     } catch (error) {
-        console.error("Error reading from localStorage", error);
+      console.error("Error verifying staff roles", error);
+      setRoles([]);
     } finally {
-        setLoading(false);
+      setVerifiedFor(userId);
     }
-  }, []);
+  }, [accessToken, userId]);
 
-  // Effect to sync with auth state
+  // Re-verified whenever the session changes, including token refreshes,
+  // so a revoked role stops working without needing a reload. Only a change
+  // of user puts the provider back into its loading state.
   useEffect(() => {
-    if (!isAuthenticated) {
-      unsetAsAdmin();
-    }
-  }, [isAuthenticated]);
+    if (authLoading) return;
+    refreshRole();
+  }, [authLoading, refreshRole]);
 
-  const setAsAdmin = () => {
-    setIsAdmin(true);
-    localStorage.setItem('isAdmin', JSON.stringify(true));
-  };
+  const can = useCallback(
+    (permission: Permission, issue?: ScopedIssue) => hasPermission(roles, userId, permission, issue),
+    [roles, userId],
+  );
+
+  const inWorkQueue = useCallback(
+    (issue: ScopedIssue) => isInWorkQueue(roles, userId, issue),
+    [roles, userId],
+  );
 
-  const unsetAsAdmin = () => {
-    setIsAdmin(false);
-    localStorage.removeItem('isAdmin');
-  };
+  const departmentIds = roles
+    .filter((grant) => grant.department_id)
+    .map((grant) => grant.department_id as string);
 
   return (
-    <AdminContext.Provider value={{ isAdmin, setAsAdmin, unsetAsAdmin, loading }}>
+    <AdminContext.Provider
+      value={{
+        isAdmin: roles.some((grant) => grant.role === 'admin'),
+        isStaff: roles.some((grant) => STAFF_ROLES.includes(grant.role)),
+        roles,
+        departmentIds,
+        can,
+        inWorkQueue,
+        loading: authLoading || verifiedFor !== userId,
+        refreshRole,
+      }}
+    >
       {children}
     </AdminContext.Provider>
   );
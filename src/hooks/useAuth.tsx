@@ -1,42 +1,94 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Flags written by earlier versions of the app; they are no longer trusted.
+const LEGACY_STORAGE_KEYS = ['isAuthenticated', 'isAdmin'];
 
 interface AuthContextType {
+  session: Session | null;
+  user: User | null;
   isAuthenticated: boolean;
-  loading: boolean; // Add loading state
-  login: () => void;
-  logout: () => void;
+  loading: boolean;
+  signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loading, setLoading] = useState(true); // Initialize loading to true
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     try {
-        const storedAuth = localStorage.getItem('isAuthenticated');
-        if (storedAuth === 'true') {
-          setIsAuthenticated(true);
-        }
+      LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
     } catch (error) {
-        console.error("Error reading from localStorage", error)
-    } finally {
-        setLoading(false); // Set loading to false after checking
+      console.error("Error clearing legacy auth flags", error);
     }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    const restoreSession = async () => {
+      try {
+        const { data: { session: storedSession } } = await supabase.auth.getSession();
+        if (!storedSession) {
+          setSession(null);
+          return;
+        }
+
+        // The stored session is only a cached token; confirm it with the
+        // auth server so revoked or tampered sessions are dropped on load.
+        const { error } = await supabase.auth.getUser();
+        if (error) {
+          console.error("Stored session is no longer valid", error);
+          await supabase.auth.signOut({ scope: 'local' });
+          setSession(null);
+          return;
+        }
+        setSession(storedSession);
+      } catch (error) {
+        console.error("Error restoring session", error);
+        setSession(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    restoreSession();
+
+    return () => subscription.unsubscribe();
   }, []);
 
-  const login = () => {
-    localStorage.setItem('isAuthenticated', 'true');
-    setIsAuthenticated(true);
-  }
-  const logout = () => {
-    localStorage.removeItem('isAuthenticated');
-    setIsAuthenticated(false);
-  }
+  // supabase-js refreshes tokens ahead of expiry; if that never happened
+  // (offline, refresh token revoked) treat the session as ended.
+  useEffect(() => {
+    if (!session?.expires_at) return;
+    const msUntilExpiry = session.expires_at * 1000 - Date.now();
+    const timeout = window.setTimeout(async () => {
+      const { data, error } = await supabase.auth.refreshSession();
+      if (error || !data.session) {
+        console.error("Session expired", error);
+        setSession(null);
+      }
+    }, Math.max(msUntilExpiry, 0));
+    return () => window.clearTimeout(timeout);
+  }, [session]);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error("Error signing out", error);
+      await supabase.auth.signOut({ scope: 'local' });
+    }
+    setSession(null);
+  }, []);
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, loading, login, logout }}>
+    <AuthContext.Provider
+      value={{ session, user: session?.user ?? null, isAuthenticated: !!session, loading, signOut }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,71 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Category, cacheCategories, readCachedCategories } from '@/lib/categories';
+
+interface CategoriesContextType {
+  // Every category, retired ones included, in display order
+  categories: Category[];
+  // The ones new reports can be filed under
+  activeCategories: Category[];
+  findCategory: (name: string | null | undefined) => Category | undefined;
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
+
+export const CategoriesProvider = ({ children }: { children: ReactNode }) => {
+  const [categories, setCategories] = useState<Category[]>(readCachedCategories);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('position')
+      .order('name');
+
+    if (error) {
+      console.error("Error fetching categories:", error);
+    } else {
+      setCategories(data || []);
+      cacheCategories(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const channel = supabase.channel('categories-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refresh]);
+
+  const value = useMemo(() => {
+    const byName = new Map(categories.map((category) => [category.name, category]));
+    return {
+      categories,
+      activeCategories: categories.filter((category) => category.is_active),
+      findCategory: (name: string | null | undefined) => (name ? byName.get(name) : undefined),
+      loading,
+      refresh,
+    };
+  }, [categories, loading, refresh]);
+
+  return <CategoriesContext.Provider value={value}>{children}</CategoriesContext.Provider>;
+};
+
+export const useCategories = () => {
+  const context = useContext(CategoriesContext);
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoriesProvider');
+  }
+  return context;
+};
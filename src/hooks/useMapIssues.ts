@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { isOpenStatus } from "@/lib/issueStatus";
+
+export type MapIssue = Database["public"]["Functions"]["get_issues_in_bounds"]["Returns"][number];
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Limits the result to issues open at some point in this range, in
+// milliseconds since the epoch
+export interface MapPeriod {
+  from: number;
+  until: number;
+}
+
+interface MapIssuesQuery {
+  bounds: MapBounds | null;
+  category?: string | null;
+  wardId?: string | null;
+  period?: MapPeriod | null;
+}
+
+export const MAX_MAP_ISSUES = 2000;
+const DEBOUNCE_MS = 300;
+
+const matchesPeriod = (issue: Tables<"issues">, period: MapPeriod) =>
+  new Date(issue.created_at).getTime() <= period.until &&
+  (issue.resolved_at ? new Date(issue.resolved_at).getTime() >= period.from : isOpenStatus(issue.status));
+
+const matchesQuery = (issue: Tables<"issues">, { bounds, category, wardId, period }: MapIssuesQuery) =>
+  !!bounds &&
+  !issue.duplicate_of &&
+  !issue.is_spam &&
+  issue.latitude >= bounds.south &&
+  issue.latitude <= bounds.north &&
+  issue.longitude >= bounds.west &&
+  issue.longitude <= bounds.east &&
+  (!category || issue.category === category) &&
+  (!wardId || issue.ward_id === wardId) &&
+  (!period || matchesPeriod(issue, period));
+
+const toMapIssue = (issue: Tables<"issues">): MapIssue => ({
+  id: issue.id,
+  title: issue.title,
+  description: issue.description,
+  category: issue.category,
+  status: issue.status,
+  latitude: issue.latitude,
+  longitude: issue.longitude,
+  upvotes_count: issue.upvotes_count ?? 0,
+  ward_id: issue.ward_id,
+  created_at: issue.created_at,
+  resolved_at: issue.resolved_at,
+});
+
+// Issues inside the visible part of the map, reloaded as it pans and zooms
+// and kept current by realtime changes in between.
+export const useMapIssues = (query: MapIssuesQuery) => {
+  const { bounds, category, wardId } = query;
+  const periodFrom = query.period?.from ?? null;
+  const periodUntil = query.period?.until ?? null;
+  const [issues, setIssues] = useState<MapIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  useEffect(() => {
+    if (!bounds) return;
+
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("get_issues_in_bounds", {
+        min_latitude: bounds.south,
+        min_longitude: bounds.west,
+        max_latitude: bounds.north,
+        max_longitude: bounds.east,
+        category_filter: category || null,
+        ward_filter: wardId || null,
+        max_results: MAX_MAP_ISSUES,
+        open_from: periodFrom === null ? undefined : new Date(periodFrom).toISOString(),
+        open_until: periodUntil === null ? undefined : new Date(periodUntil).toISOString(),
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error fetching map issues:", error);
+        setError(error.message);
+      } else {
+        setError(null);
+        setIssues(data || []);
+      }
+      setLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [bounds, category, wardId, periodFrom, periodUntil]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("live-map-issues")
+      .on("postgres_changes", { event: "*", schema: "public", table: "issues" }, (payload) => {
+        if (payload.eventType === "DELETE") {
+          setIssues((current) => current.filter((issue) => issue.id !== payload.old.id));
+          return;
+        }
+
+        const changed = payload.new as Tables<"issues">;
+        setIssues((current) => {
+          const others = current.filter((issue) => issue.id !== changed.id);
+          return matchesQuery(changed, queryRef.current) ? [toMapIssue(changed), ...others] : others;
+        });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { issues, loading, error, truncated: issues.length >= MAX_MAP_ISSUES };
+};
@@ -0,0 +1,163 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PendingReport,
+  enqueueReport,
+  listPendingReports,
+  removePendingReport,
+  savePendingReport,
+} from '@/lib/offlineReportQueue';
+import { ReportDraft, ReportProgress, getErrorMessage, isNetworkError, submitReport } from '@/lib/reportSubmission';
+
+// How often queued reports are retried while the browser believes it is
+// online but the last attempt still failed (captive portals, flaky signal).
+const RETRY_INTERVAL_MS = 60_000;
+// Automatic attempts before a report is left for the reporter to retry
+const MAX_ATTEMPTS = 10;
+
+interface OfflineReportsContextType {
+  pendingReports: PendingReport[];
+  isOnline: boolean;
+  syncing: boolean;
+  queueReport: (draft: ReportDraft, progress?: ReportProgress) => Promise<void>;
+  syncPendingReports: () => Promise<void>;
+  retryReport: (id: number) => Promise<void>;
+  discardReport: (id: number) => Promise<void>;
+}
+
+const OfflineReportsContext = createContext<OfflineReportsContextType | undefined>(undefined);
+
+export const OfflineReportsProvider = ({ children }: { children: ReactNode }) => {
+  const [pendingReports, setPendingReports] = useState<PendingReport[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const { toast } = useToast();
+
+  const refreshPendingReports = useCallback(async () => {
+    try {
+      setPendingReports(await listPendingReports());
+    } catch (error) {
+      console.error("Error reading offline reports", error);
+    }
+  }, []);
+
+  const syncPendingReports = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let submitted = 0;
+    let attachmentsFailed = 0;
+    let failedCount = 0;
+    try {
+      const reports = await listPendingReports();
+      for (const report of reports) {
+        if (report.failed) continue;
+        try {
+          const result = await submitReport(report.draft, report.progress, async (progress) => {
+            report.progress = progress;
+            await savePendingReport(report);
+          });
+          await removePendingReport(report.id!);
+          submitted++;
+          if (result.attachmentsFailed) attachmentsFailed++;
+        } catch (error) {
+          console.error('Error syncing offline report:', error);
+          const attempts = report.attempts + 1;
+          const networkError = isNetworkError(error);
+          // Anything but a dropped connection would fail the same way again
+          const failed = !networkError || attempts >= MAX_ATTEMPTS;
+          await savePendingReport({ ...report, attempts, lastError: getErrorMessage(error), failed });
+          if (failed) failedCount++;
+          // No point hammering the rest of the queue while the connection is down.
+          if (networkError) break;
+        }
+      }
+    } catch (error) {
+      console.error("Error syncing offline reports", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refreshPendingReports();
+    }
+
+    if (submitted > 0) {
+      const sent = `${submitted} saved report${submitted === 1 ? " was" : "s were"} submitted. You can follow them under My Reports.`;
+      toast(
+        attachmentsFailed > 0
+          ? {
+              title: "Attachments Not Saved",
+              description: `${sent} The extra photos and videos of ${attachmentsFailed} of them couldn't be added.`,
+              variant: "destructive",
+            }
+          : { title: "Offline Reports Sent", description: sent },
+      );
+    }
+    if (failedCount > 0) {
+      toast({
+        title: "Report Not Sent",
+        description: `${failedCount} saved report${failedCount === 1 ? "" : "s"} couldn't be submitted. Open Pending reports to retry or discard ${failedCount === 1 ? "it" : "them"}.`,
+        variant: "destructive",
+      });
+    }
+  }, [refreshPendingReports, toast]);
+
+  // Puts a failed report back in the queue and tries it straight away
+  const retryReport = useCallback(async (id: number) => {
+    const report = (await listPendingReports()).find((pending) => pending.id === id);
+    if (!report) return;
+    await savePendingReport({ ...report, failed: false });
+    await syncPendingReports();
+  }, [syncPendingReports]);
+
+  const queueReport = useCallback(async (draft: ReportDraft, progress?: ReportProgress) => {
+    await enqueueReport(draft, progress);
+    await refreshPendingReports();
+  }, [refreshPendingReports]);
+
+  const discardReport = useCallback(async (id: number) => {
+    await removePendingReport(id);
+    await refreshPendingReports();
+  }, [refreshPendingReports]);
+
+  useEffect(() => {
+    refreshPendingReports().then(syncPendingReports);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingReports();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refreshPendingReports, syncPendingReports]);
+
+  const hasQueuedReports = pendingReports.some((report) => !report.failed);
+  useEffect(() => {
+    if (!hasQueuedReports) return;
+    const interval = window.setInterval(syncPendingReports, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [hasQueuedReports, syncPendingReports]);
+
+  return (
+    <OfflineReportsContext.Provider
+      value={{ pendingReports, isOnline, syncing, queueReport, syncPendingReports, retryReport, discardReport }}
+    >
+      {children}
+    </OfflineReportsContext.Provider>
+  );
+};
+
+export const useOfflineReports = () => {
+  const context = useContext(OfflineReportsContext);
+  if (context === undefined) {
+    throw new Error('useOfflineReports must be used within an OfflineReportsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type SimilarIssue = Database["public"]["Functions"]["find_similar_issues"]["Returns"][number];
+
+interface SimilarIssuesQuery {
+  title: string;
+  description: string;
+  category: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+const DEBOUNCE_MS = 600;
+const MIN_TEXT_LENGTH = 4;
+
+// Looks up likely duplicates of a report while it is being written.
+export const useSimilarIssues = ({ title, description, category, latitude, longitude }: SimilarIssuesQuery) => {
+  const [similarIssues, setSimilarIssues] = useState<SimilarIssue[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const hasLocation = latitude != null && longitude != null && !(latitude === 0 && longitude === 0);
+  const hasText = title.trim().length >= MIN_TEXT_LENGTH || description.trim().length >= MIN_TEXT_LENGTH;
+
+  useEffect(() => {
+    if (!category || (!hasText && !hasLocation) || !navigator.onLine) {
+      setSimilarIssues([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("find_similar_issues", {
+        input_title: title,
+        input_description: description,
+        input_category: category,
+        ...(hasLocation ? { input_latitude: latitude, input_longitude: longitude } : {}),
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error finding similar issues:", error);
+        setSimilarIssues([]);
+      } else {
+        setSimilarIssues(data || []);
+      }
+      setLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [title, description, category, latitude, longitude, hasText, hasLocation]);
+
+  return { similarIssues, loading };
+};
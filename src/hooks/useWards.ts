@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Ward {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+// Ward names for filters and breakdowns; boundaries are loaded separately
+// by the maps that draw them.
+export const useWards = () => {
+  const [wards, setWards] = useState<Ward[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.from("wards").select("id, name, code").order("name");
+    if (error) {
+      console.error("Error fetching wards:", error);
+    } else {
+      setWards(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { wards, loading, refresh };
+};
@@ -14,24 +14,368 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          default_department_id: string | null
+          fields: Json
+          icon: string
+          id: string
+          is_active: boolean
+          name: string
+          position: number
+          sla_hours: number | null
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          default_department_id?: string | null
+          fields?: Json
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          position?: number
+          sla_hours?: number | null
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          default_department_id?: string | null
+          fields?: Json
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          position?: number
+          sla_hours?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_default_department_id_fkey"
+            columns: ["default_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_calendars: {
+        Row: {
+          created_at: string
+          department_id: string
+          timezone: string
+          updated_at: string
+          work_days: number[]
+          work_end: string
+          work_start: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          timezone?: string
+          updated_at?: string
+          work_days?: number[]
+          work_end?: string
+          work_start?: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          timezone?: string
+          updated_at?: string
+          work_days?: number[]
+          work_end?: string
+          work_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_calendars_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: true
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_holidays: {
+        Row: {
+          created_at: string
+          department_id: string
+          holiday_date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          holiday_date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_holidays_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      departments: {
+        Row: {
+          contact_email: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          contact_email?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          contact_email?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      issue_attachments: {
+        Row: {
+          created_at: string
+          id: number
+          issue_id: number
+          kind: Database["public"]["Enums"]["attachment_kind"]
+          media_type: string
+          position: number
+          uploaded_by: string | null
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          issue_id: number
+          kind?: Database["public"]["Enums"]["attachment_kind"]
+          media_type?: string
+          position?: number
+          uploaded_by?: string | null
+          url: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          issue_id?: number
+          kind?: Database["public"]["Enums"]["attachment_kind"]
+          media_type?: string
+          position?: number
+          uploaded_by?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_attachments_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_followups: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: number
+          image_url: string | null
+          issue_id: number
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: number
+          image_url?: string | null
+          issue_id: number
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: number
+          image_url?: string | null
+          issue_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_followups_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_receipts: {
+        Row: {
+          created_at: string
+          device_token_hash: string | null
+          issue_id: number
+          tracking_code_hash: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          device_token_hash?: string | null
+          issue_id: number
+          tracking_code_hash: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          device_token_hash?: string | null
+          issue_id?: number
+          tracking_code_hash?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_receipts_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: true
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["issue_status"] | null
+          id: number
+          issue_id: number
+          reason: string | null
+          to_status: Database["public"]["Enums"]["issue_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["issue_status"] | null
+          id?: number
+          issue_id: number
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["issue_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["issue_status"] | null
+          id?: number
+          issue_id?: number
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["issue_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_status_history_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_subscriptions: {
+        Row: {
+          created_at: string
+          issue_id: number
+          recipient_id: string
+        }
+        Insert: {
+          created_at?: string
+          issue_id: number
+          recipient_id: string
+        }
+        Update: {
+          created_at?: string
+          issue_id?: number
+          recipient_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_subscriptions_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_subscriptions_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       issue_upvotes: {
         Row: {
           created_at: string
           id: string
           issue_id: number
-          user_ip: string
+          user_id: string | null
+          user_ip: string | null
+          voter_token_hash: string | null
         }
         Insert: {
           created_at?: string
           id?: string
           issue_id: number
-          user_ip: string
+          user_id?: string | null
+          user_ip?: string | null
+          voter_token_hash?: string | null
         }
         Update: {
           created_at?: string
           id?: string
           issue_id?: number
-          user_ip?: string
+          user_id?: string | null
+          user_ip?: string | null
+          voter_token_hash?: string | null
         }
         Relationships: [
           {
@@ -46,10 +390,15 @@ export type Database = {
       issues: {
         Row: {
           assigned_to: string | null
+          assigned_user_id: string | null
           category: string
           created_at: string
+          department_id: string | null
           description: string
+          details: Json
+          due_at: string | null
           duplicate_of: number | null
+          escalated_at: string | null
           id: number
           image_url: string | null
           is_spam: boolean | null
@@ -57,21 +406,37 @@ export type Database = {
           latitude: number
           location_name: string | null
           longitude: number
+          neighbourhood: string | null
+          postcode: string | null
+          priority: Database["public"]["Enums"]["issue_priority"]
           priority_score: number | null
           public_notes: string | null
+          resolution_time: unknown | null
+          resolution_working_time: unknown | null
+          responded_at: string | null
           response_time: unknown | null
-          status: string
+          response_working_time: unknown | null
+          routing_rule_id: string | null
+          status: Database["public"]["Enums"]["issue_status"]
           street_address: string | null
+          team_id: string | null
           title: string
           upvotes_count: number | null
+          ward: string | null
+          ward_id: string | null
           resolved_at: string | null
         }
         Insert: {
           assigned_to?: string | null
+          assigned_user_id?: string | null
           category: string
           created_at?: string
+          department_id?: string | null
           description: string
+          details?: Json
+          due_at?: string | null
           duplicate_of?: number | null
+          escalated_at?: string | null
           id?: number
           image_url?: string | null
           is_spam?: boolean | null
@@ -79,21 +444,37 @@ export type Database = {
           latitude: number
           location_name?: string | null
           longitude: number
+          neighbourhood?: string | null
+          postcode?: string | null
+          priority?: Database["public"]["Enums"]["issue_priority"]
           priority_score?: number | null
           public_notes?: string | null
+          resolution_time?: unknown | null
+          resolution_working_time?: unknown | null
+          responded_at?: string | null
           response_time?: unknown | null
-          status?: string
+          response_working_time?: unknown | null
+          routing_rule_id?: string | null
+          status?: Database["public"]["Enums"]["issue_status"]
           street_address?: string | null
+          team_id?: string | null
           title: string
           upvotes_count?: number | null
+          ward?: string | null
+          ward_id?: string | null
           resolved_at?: string | null
         }
         Update: {
           assigned_to?: string | null
+          assigned_user_id?: string | null
           category?: string
           created_at?: string
+          department_id?: string | null
           description?: string
+          details?: Json
+          due_at?: string | null
           duplicate_of?: number | null
+          escalated_at?: string | null
           id?: number
           image_url?: string | null
           is_spam?: boolean | null
@@ -101,16 +482,34 @@ export type Database = {
           latitude?: number
           location_name?: string | null
           longitude?: number
+          neighbourhood?: string | null
+          postcode?: string | null
+          priority?: Database["public"]["Enums"]["issue_priority"]
           priority_score?: number | null
           public_notes?: string | null
+          resolution_time?: unknown | null
+          resolution_working_time?: unknown | null
+          responded_at?: string | null
           response_time?: unknown | null
-          status?: string
+          response_working_time?: unknown | null
+          routing_rule_id?: string | null
+          status?: Database["public"]["Enums"]["issue_status"]
           street_address?: string | null
+          team_id?: string | null
           title?: string
           upvotes_count?: number | null
+          ward?: string | null
+          ward_id?: string | null
           resolved_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "issues_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "issues_duplicate_of_fkey"
             columns: ["duplicate_of"]
@@ -118,45 +517,599 @@ export type Database = {
             referencedRelation: "issues"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "issues_routing_rule_id_fkey"
+            columns: ["routing_rule_id"]
+            isOneToOne: false
+            referencedRelation: "routing_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "wards"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      notification_deliveries: {
         Row: {
-          id: string
-          role: string | null
+          attempts: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          claimed_at: string | null
+          created_at: string
+          id: number
+          last_error: string | null
+          notification_id: number
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_delivery_status"]
         }
         Insert: {
+          attempts?: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          created_at?: string
+          id?: number
+          last_error?: string | null
+          notification_id: number
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          created_at?: string
+          id?: number
+          last_error?: string | null
+          notification_id?: number
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_recipients: {
+        Row: {
+          created_at: string
+          device_token_hash: string | null
+          email: string | null
+          email_enabled: boolean
           id: string
-          role?: string | null
+          in_app_enabled: boolean
+          push_enabled: boolean
+          unsubscribe_token: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          device_token_hash?: string | null
+          email?: string | null
+          email_enabled?: boolean
+          id?: string
+          in_app_enabled?: boolean
+          push_enabled?: boolean
+          unsubscribe_token?: string
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
+          created_at?: string
+          device_token_hash?: string | null
+          email?: string | null
+          email_enabled?: boolean
           id?: string
-          role?: string | null
+          in_app_enabled?: boolean
+          push_enabled?: boolean
+          unsubscribe_token?: string
+          updated_at?: string
+          user_id?: string | null
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      find_similar_issues: {
-        Args: {
-          input_category: string
-          input_description: string
-          input_title: string
-          similarity_threshold?: number
-        }
-        Returns: {
-          issue_id: number
-          similarity_score: number
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: number
+          issue_id: number | null
+          read_at: string | null
+          recipient_id: string
+          show_in_app: boolean
           title: string
-        }[]
+          url: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: number
+          issue_id?: number | null
+          read_at?: string | null
+          recipient_id: string
+          show_in_app?: boolean
+          title: string
+          url?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: number
+          issue_id?: number | null
+          read_at?: string | null
+          recipient_id?: string
+          show_in_app?: boolean
+          title?: string
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          id: string
+          role: string | null
+        }
+        Insert: {
+          id: string
+          role?: string | null
+        }
+        Update: {
+          id?: string
+          role?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: number
+          p256dh: string
+          recipient_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: number
+          p256dh: string
+          recipient_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: number
+          p256dh?: string
+          recipient_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routing_rules: {
+        Row: {
+          category: string | null
+          created_at: string
+          department_id: string
+          id: string
+          is_active: boolean
+          keywords: string[] | null
+          max_latitude: number | null
+          max_longitude: number | null
+          min_latitude: number | null
+          min_longitude: number | null
+          name: string
+          position: number
+          team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          department_id: string
+          id?: string
+          is_active?: boolean
+          keywords?: string[] | null
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name: string
+          position?: number
+          team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          department_id?: string
+          id?: string
+          is_active?: boolean
+          keywords?: string[] | null
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name?: string
+          position?: number
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_rules_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "routing_rules_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          priority: Database["public"]["Enums"]["issue_priority"]
+          resolution_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          priority: Database["public"]["Enums"]["issue_priority"]
+          resolution_hours: number
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          priority?: Database["public"]["Enums"]["issue_priority"]
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          department_id: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wards: {
+        Row: {
+          boundary: unknown
+          code: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          boundary: unknown
+          code?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          boundary?: unknown
+          code?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      add_issue_followup: {
+        Args: {
+          body: string
+          device_token: string
+          image_url?: string
+          p_issue_id: number
+          tracking_code: string
+        }
+        Returns: number
+      }
+      add_report_attachments: {
+        Args: {
+          device_token: string
+          media_types: string[]
+          p_issue_id: number
+          urls: string[]
+        }
+        Returns: undefined
+      }
+      backfill_issue_wards: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      cast_upvote: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: boolean
+      }
+      change_issue_status: {
+        Args: {
+          new_status: Database["public"]["Enums"]["issue_status"]
+          p_issue_id: number
+          reason?: string
+        }
+        Returns: undefined
+      }
+      claim_notification_deliveries: {
+        Args: {
+          batch_size?: number
+        }
+        Returns: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          delivery_id: number
+          email: string | null
+          recipient_id: string
+          title: string
+          unsubscribe_token: string
+          url: string | null
+        }[]
+      }
+      complete_notification_delivery: {
+        Args: {
+          error_message?: string
+          p_delivery_id: number
+          succeeded: boolean
+        }
+        Returns: undefined
+      }
+      distance_meters: {
+        Args: {
+          lat1: number
+          lat2: number
+          lng1: number
+          lng2: number
+        }
+        Returns: number
+      }
+      ensure_notification_recipient: {
+        Args: {
+          device_token: string
+        }
+        Returns: string
+      }
+      escalate_overdue_issues: {
+        Args: {
+          batch_size?: number
+        }
+        Returns: number
+      }
+      evaluate_routing: {
+        Args: {
+          include_inactive?: boolean
+          input_category: string
+          input_description: string
+          input_latitude: number
+          input_longitude: number
+          input_title: string
+        }
+        Returns: {
+          department_id: string
+          rule_id: string
+          team_id: string | null
+        }[]
+      }
+      find_notification_recipient: {
+        Args: {
+          device_token: string
+        }
+        Returns: string
+      }
+      find_similar_issues: {
+        Args: {
+          input_category: string
+          input_description: string
+          input_latitude?: number
+          input_longitude?: number
+          input_title: string
+          radius_meters?: number
+          similarity_threshold?: number
+        }
+        Returns: {
+          created_at: string
+          distance_meters: number | null
+          image_url: string | null
+          issue_id: number
+          similarity_score: number
+          status: string
+          title: string
+          upvotes_count: number | null
+        }[]
+      }
+      find_ward: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+        }
+        Returns: string
+      }
+      follow_issue: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: undefined
       }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_issue_media_counts: {
+        Args: {
+          issue_ids: number[]
+        }
+        Returns: {
+          issue_id: number
+          media_count: number
+        }[]
+      }
+      get_issues_in_bounds: {
+        Args: {
+          category_filter?: string
+          max_latitude: number
+          max_longitude: number
+          max_results?: number
+          min_latitude: number
+          min_longitude: number
+          open_from?: string
+          open_until?: string
+          ward_filter?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          description: string
+          id: number
+          latitude: number
+          longitude: number
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["issue_status"]
+          title: string
+          upvotes_count: number
+          ward_id: string | null
+        }[]
+      }
+      get_my_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          department_id: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
+      get_notification_preferences: {
+        Args: {
+          device_token: string
+        }
+        Returns: {
+          email: string | null
+          email_enabled: boolean
+          in_app_enabled: boolean
+          push_enabled: boolean
+        }[]
+      }
+      get_ward_boundaries: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          boundary: Json
+          code: string | null
+          id: string
+          name: string
+        }[]
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_upvoted: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: boolean
+      }
+      hash_device_token: {
+        Args: {
+          token: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -164,13 +1117,276 @@ export type Database = {
         }
         Returns: boolean
       }
+      heads_department: {
+        Args: {
+          _department_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      import_wards: {
+        Args: {
+          code_property?: string
+          geojson: Json
+          name_property?: string
+          replace_existing?: boolean
+        }
+        Returns: {
+          issues_assigned: number
+          wards_imported: number
+        }[]
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_following_issue: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: boolean
+      }
+      is_open_status: {
+        Args: {
+          status: Database["public"]["Enums"]["issue_status"]
+        }
+        Returns: boolean
+      }
+      is_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_sla_hours: {
+        Args: {
+          p_category: string
+          p_priority: Database["public"]["Enums"]["issue_priority"]
+        }
+        Returns: number
+      }
+      issue_status_transition: {
+        Args: {
+          from_status: Database["public"]["Enums"]["issue_status"]
+          to_status: Database["public"]["Enums"]["issue_status"]
+        }
+        Returns: {
+          allowed: boolean
+          requires_reason: boolean
+        }[]
+      }
+      issue_supervisors: {
+        Args: {
+          _department_id: string
+        }
+        Returns: string[]
+      }
+      list_followed_issues: {
+        Args: {
+          device_token: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          followed_at: string
+          image_url: string | null
+          issue_id: number
+          status: Database["public"]["Enums"]["issue_status"]
+          title: string
+        }[]
+      }
+      list_my_notifications: {
+        Args: {
+          device_token: string
+          max_results?: number
+        }
+        Returns: {
+          body: string
+          created_at: string
+          id: number
+          issue_id: number | null
+          read_at: string | null
+          title: string
+          url: string | null
+        }[]
+      }
+      list_my_reports: {
+        Args: {
+          device_token: string
+          tracking_codes?: string[]
+        }
+        Returns: {
+          category: string
+          created_at: string
+          duplicate_of: number | null
+          followups_count: number
+          image_url: string | null
+          issue_id: number
+          public_notes: string | null
+          status: Database["public"]["Enums"]["issue_status"]
+          title: string
+          tracking_code: string | null
+        }[]
+      }
+      list_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          department_id: string | null
+          email: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      mark_notifications_read: {
+        Args: {
+          device_token: string
+          notification_ids?: number[]
+        }
+        Returns: undefined
+      }
+      merge_issues: {
+        Args: {
+          canonical_id: number
+          duplicate_ids: number[]
+        }
+        Returns: number
+      }
+      owns_issue: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+          tracking_code?: string
+        }
+        Returns: boolean
+      }
+      preview_routing: {
+        Args: {
+          include_inactive?: boolean
+          sample_size?: number
+        }
+        Returns: {
+          category: string
+          created_at: string
+          current_department_id: string | null
+          department_id: string | null
+          issue_id: number
+          rule_id: string | null
+          team_id: string | null
+          title: string
+        }[]
+      }
+      register_push_subscription: {
+        Args: {
+          device_token: string
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+        }
+        Returns: undefined
+      }
+      remove_push_subscription: {
+        Args: {
+          device_token: string
+          p_endpoint: string
+        }
+        Returns: undefined
+      }
+      reorder_categories: {
+        Args: {
+          category_ids: string[]
+        }
+        Returns: undefined
+      }
+      reorder_routing_rules: {
+        Args: {
+          rule_ids: string[]
+        }
+        Returns: undefined
+      }
+      retract_upvote: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: boolean
+      }
+      save_notification_preferences: {
+        Args: {
+          device_token: string
+          email: string
+          email_enabled: boolean
+          in_app_enabled: boolean
+          push_enabled: boolean
+        }
+        Returns: undefined
+      }
+      submit_issue: {
+        Args: {
+          device_token: string
+          report: Json
+          tracking_code: string
+        }
+        Returns: number
+      }
+      unfollow_issue: {
+        Args: {
+          device_token: string
+          p_issue_id: number
+        }
+        Returns: undefined
+      }
+      unmerge_issue: {
+        Args: {
+          issue_id: number
+        }
+        Returns: undefined
+      }
+      unsubscribe_notifications: {
+        Args: {
+          token: string
+        }
+        Returns: boolean
+      }
+      validate_device_token: {
+        Args: {
+          token: string
+        }
+        Returns: undefined
+      }
+      validate_tracking_code: {
+        Args: {
+          tracking_code: string
+        }
+        Returns: undefined
+      }
+      working_time_between: {
+        Args: {
+          _department_id: string
+          _from: string
+          _to: string
+        }
+        Returns: unknown
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role:
+        | "admin"
+        | "user"
+        | "dispatcher"
+        | "department_head"
+        | "field_crew"
+        | "viewer"
+      attachment_kind: "before" | "after"
+      issue_priority: "low" | "normal" | "high" | "urgent"
+      issue_status:
+        | "new"
+        | "acknowledged"
+        | "in_progress"
+        | "on_hold"
+        | "resolved"
+        | "closed"
+        | "rejected"
+      notification_channel: "email" | "push" | "in_app"
+      notification_delivery_status: "pending" | "sent" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -298,7 +1514,27 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: [
+        "admin",
+        "user",
+        "dispatcher",
+        "department_head",
+        "field_crew",
+        "viewer",
+      ],
+      attachment_kind: ["before", "after"],
+      issue_priority: ["low", "normal", "high", "urgent"],
+      issue_status: [
+        "new",
+        "acknowledged",
+        "in_progress",
+        "on_hold",
+        "resolved",
+        "closed",
+        "rejected",
+      ],
+      notification_channel: ["email", "push", "in_app"],
+      notification_delivery_status: ["pending", "sent", "failed"],
     },
   },
 } as const
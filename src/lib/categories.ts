@@ -0,0 +1,75 @@
+import {
+  AlertTriangle,
+  Bike,
+  Building2,
+  Bus,
+  Car,
+  Droplets,
+  Dog,
+  HelpCircle,
+  Leaf,
+  Lightbulb,
+  LucideIcon,
+  Palette,
+  RectangleHorizontal,
+  Route,
+  Trash2,
+  TrafficCone,
+  Trees,
+  Volume2,
+  Wrench,
+  Zap,
+} from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Category = Tables<"categories">;
+
+// The icons an admin can pick for a category, stored by name
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  "alert-triangle": AlertTriangle,
+  bike: Bike,
+  "building-2": Building2,
+  bus: Bus,
+  car: Car,
+  dog: Dog,
+  droplets: Droplets,
+  "help-circle": HelpCircle,
+  leaf: Leaf,
+  lightbulb: Lightbulb,
+  palette: Palette,
+  "rectangle-horizontal": RectangleHorizontal,
+  route: Route,
+  "traffic-cone": TrafficCone,
+  "trash-2": Trash2,
+  trees: Trees,
+  "volume-2": Volume2,
+  wrench: Wrench,
+  zap: Zap,
+};
+
+export const DEFAULT_CATEGORY_COLOR = "#6b7280";
+
+export const getCategoryIcon = (category?: Category | null) => CATEGORY_ICONS[category?.icon ?? ""] ?? HelpCircle;
+
+export const getCategoryColor = (category?: Category | null) => category?.color || DEFAULT_CATEGORY_COLOR;
+
+// The last catalogue seen is kept on the device so the report form still
+// offers categories when it is opened offline.
+const CACHE_KEY = "civilink-categories";
+
+export const readCachedCategories = (): Category[] => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || "[]");
+  } catch (error) {
+    console.error("Error reading categories from localStorage", error);
+    return [];
+  }
+};
+
+export const cacheCategories = (categories: Category[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(categories));
+  } catch (error) {
+    console.error("Error saving categories to localStorage", error);
+  }
+};
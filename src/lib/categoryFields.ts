@@ -0,0 +1,124 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import type { Category } from "@/lib/categories";
+
+export const CATEGORY_FIELD_TYPES = {
+  text: "Text",
+  number: "Number",
+  select: "Choice",
+  yes_no: "Yes / No",
+  photo: "Photo",
+} as const;
+
+export type CategoryFieldType = keyof typeof CATEGORY_FIELD_TYPES;
+
+const categoryFieldSchema = z.object({
+  key: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(["text", "number", "select", "yes_no", "photo"]),
+  required: z.boolean().default(false),
+  options: z.array(z.string()).optional(),
+});
+
+export type CategoryField = z.infer<typeof categoryFieldSchema>;
+
+// Answers as stored on an issue; photos are stored as their URL
+export type ReportDetails = Record<string, string | number | boolean>;
+
+// Answers while the form is being filled in, photos still as files
+export type DetailFormValues = Record<string, string | boolean | Blob | undefined>;
+
+// A category whose fields don't parse asks nothing extra rather than
+// breaking the report form
+export const getCategoryFields = (category?: Category | null): CategoryField[] => {
+  const parsed = z.array(categoryFieldSchema).safeParse(category?.fields ?? []);
+  if (!parsed.success) {
+    console.error(`Invalid fields on category "${category?.name}"`, parsed.error);
+    return [];
+  }
+  return parsed.data;
+};
+
+// Keys are fixed when a field is created so relabelling it keeps old answers
+export const fieldKeyFromLabel = (label: string, taken: string[]) => {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "field";
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) key = `${base}_${suffix}`;
+  return key;
+};
+
+const blank = (value: unknown) => (value === "" ? undefined : value);
+
+const fieldSchema = (field: CategoryField): z.ZodTypeAny => {
+  const message = `${field.label} is required`;
+  switch (field.type) {
+    case "number": {
+      const number = z.number({ required_error: message, invalid_type_error: `${field.label} must be a number` });
+      return z.preprocess(
+        (value) => (blank(value) === undefined ? undefined : Number(value)),
+        field.required ? number : number.optional(),
+      );
+    }
+    case "select": {
+      const choice = z.string({ required_error: message }).refine((value) => field.options?.includes(value), {
+        message: `Choose one of the options for ${field.label}`,
+      });
+      return z.preprocess(blank, field.required ? choice : choice.optional());
+    }
+    case "yes_no":
+      return field.required ? z.boolean({ required_error: message }) : z.boolean().optional();
+    case "photo":
+      return field.required ? z.instanceof(Blob, { message }) : z.instanceof(Blob).optional();
+    default: {
+      const text = z.string({ required_error: message }).trim().min(1, message).max(500);
+      return z.preprocess(blank, field.required ? text : text.optional());
+    }
+  }
+};
+
+export const buildDetailsSchema = (fields: CategoryField[]) =>
+  z.object(Object.fromEntries(fields.map((field) => [field.key, fieldSchema(field)])));
+
+// Issue rows carry details as plain JSON
+export const readDetails = (details: Json | null | undefined): ReportDetails =>
+  details && typeof details === "object" && !Array.isArray(details) ? (details as ReportDetails) : {};
+
+export const formatDetailValue = (field: CategoryField | undefined, value: string | number | boolean) => {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (field?.type === "photo") return "Photo";
+  return String(value);
+};
+
+// Photo answers are links in the staff pages, so anything other than a web
+// address is never rendered as one
+export const photoAnswerUrl = (value: string | number | boolean) => {
+  if (typeof value !== "string") return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Label and value of every answer, in the category's field order; answers to
+// fields since removed are listed last under their key
+export const describeDetails = (fields: CategoryField[], details: ReportDetails) => {
+  const known = fields
+    .filter((field) => details[field.key] !== undefined)
+    .map((field) => ({ key: field.key, label: field.label, field, value: details[field.key] }));
+  const unknown = Object.keys(details)
+    .filter((key) => !fields.some((field) => field.key === key))
+    .map((key) => ({ key, label: key, field: undefined, value: details[key] }));
+  return [...known, ...unknown];
+};
+
+// Spreadsheet columns for an export, one per answer, headed by its label;
+// photos are exported as their URL
+export const detailColumns = (fields: CategoryField[], details: ReportDetails) =>
+  Object.fromEntries(
+    describeDetails(fields, details).map(({ label, field, value }) => [
+      label,
+      field?.type === "photo" ? String(value) : formatDetailValue(field, value),
+    ]),
+  );
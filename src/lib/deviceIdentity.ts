@@ -0,0 +1,22 @@
+const DEVICE_TOKEN_KEY = "civilink-device-token";
+
+let memoryToken: string | null = null;
+
+// Anonymous citizens are identified by a random token that persists on this
+// device. The server only ever stores a hash of it; signed-in users are
+// identified by their account instead.
+export const getDeviceToken = () => {
+  try {
+    let token = localStorage.getItem(DEVICE_TOKEN_KEY);
+    if (!token) {
+      token = crypto.randomUUID();
+      localStorage.setItem(DEVICE_TOKEN_KEY, token);
+    }
+    return token;
+  } catch (error) {
+    // Storage can be unavailable (private browsing); keep a per-session token
+    console.error("Error reading device token from localStorage", error);
+    memoryToken = memoryToken || crypto.randomUUID();
+    return memoryToken;
+  }
+};
@@ -0,0 +1,63 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+// Where maps open when we don't know where the user is
+export const DEFAULT_MAP_CENTER: [number, number] = [51.505, -0.09];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Same great-circle formula as public.distance_meters in the database.
+export const distanceMeters = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (meters: number | null | undefined) => {
+  if (meters == null) return null;
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(1)} km`;
+};
+
+type Ring = GeoJSON.Position[];
+
+// Ray casting; GeoJSON positions are [lng, lat]
+const ringContains = (ring: Ring, lat: number, lng: number) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const polygonContains = ([outer, ...holes]: Ring[], lat: number, lng: number) =>
+  ringContains(outer, lat, lng) && !holes.some((hole) => ringContains(hole, lat, lng));
+
+export const geometryContains = (geometry: GeoJSON.Geometry | null, lat: number, lng: number) => {
+  if (geometry?.type === "Polygon") return polygonContains(geometry.coordinates, lat, lng);
+  if (geometry?.type === "MultiPolygon") return geometry.coordinates.some((polygon) => polygonContains(polygon, lat, lng));
+  return false;
+};
+
+// A representative point for labelling or searching: the vertex average,
+// which is good enough for streets and compact areas
+export const geometryCenter = (geometry: GeoJSON.Geometry | null): { lat: number; lng: number } | null => {
+  const positions: GeoJSON.Position[] = [];
+  const collect = (coordinates: unknown) => {
+    if (typeof (coordinates as number[])[0] === "number") positions.push(coordinates as GeoJSON.Position);
+    else (coordinates as unknown[]).forEach(collect);
+  };
+  if (!geometry || geometry.type === "GeometryCollection") return null;
+  collect(geometry.coordinates);
+  if (positions.length === 0) return null;
+
+  const lng = positions.reduce((sum, [x]) => sum + x, 0) / positions.length;
+  const lat = positions.reduce((sum, [, y]) => sum + y, 0) / positions.length;
+  return { lat, lng };
+};
@@ -0,0 +1,219 @@
+import { geometryCenter, geometryContains } from "@/lib/geo";
+
+// Geocoding goes through a chain of providers, tried in the order given by
+// VITE_GEOCODING_PROVIDERS. The local gazetteer knows our own wards and
+// streets; the remote ones fill in whatever it doesn't cover.
+const PROVIDER_ORDER = (import.meta.env.VITE_GEOCODING_PROVIDERS || "local,nominatim,bigdatacloud")
+  .split(",")
+  .map((name: string) => name.trim())
+  .filter(Boolean);
+const NOMINATIM_URL = import.meta.env.VITE_NOMINATIM_URL || "https://nominatim.openstreetmap.org";
+const GAZETTEER_URL = import.meta.env.VITE_GAZETTEER_URL || "/geo/gazetteer.geojson";
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+// What we store on an issue about where it is
+export interface GeocodedPlace {
+  name: string | null;
+  ward: string | null;
+  neighbourhood: string | null;
+  postcode: string | null;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  reverse: (lat: number, lng: number) => Promise<Partial<GeocodedPlace> | null>;
+  search?: (query: string, near?: { lat: number; lng: number }) => Promise<GeocodeResult[]>;
+}
+
+const nominatimProvider: GeocodingProvider = {
+  name: "nominatim",
+  reverse: async (lat, lng) => {
+    const params = new URLSearchParams({ lat: String(lat), lon: String(lng), format: "jsonv2", addressdetails: "1" });
+    const response = await fetch(`${NOMINATIM_URL}/reverse?${params}`, { headers: { "Accept-Language": "en" } });
+    if (!response.ok) throw new Error(`Reverse geocoding failed (${response.status})`);
+
+    const { address } = await response.json();
+    if (!address) return null;
+    return {
+      name: address.suburb || address.city || address.town || address.village || null,
+      ward: address.city_district || null,
+      neighbourhood: address.neighbourhood || address.quarter || address.suburb || null,
+      postcode: address.postcode || null,
+    };
+  },
+  // Results near the given point come first when one is known
+  search: async (query, near) => {
+    const params = new URLSearchParams({ q: query, format: "jsonv2", limit: "5" });
+    if (near) {
+      const delta = 0.25;
+      params.set("viewbox", [near.lng - delta, near.lat + delta, near.lng + delta, near.lat - delta].join(","));
+    }
+
+    const response = await fetch(`${NOMINATIM_URL}/search?${params}`, { headers: { "Accept-Language": "en" } });
+    if (!response.ok) throw new Error(`Address search failed (${response.status})`);
+
+    const results: { lat: string; lon: string; display_name: string }[] = await response.json();
+    return results.map((result) => ({
+      lat: Number(result.lat),
+      lng: Number(result.lon),
+      label: result.display_name,
+    }));
+  },
+};
+
+const bigDataCloudProvider: GeocodingProvider = {
+  name: "bigdatacloud",
+  reverse: async (lat, lng) => {
+    const response = await fetch(
+      `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lng}&localityLanguage=en`
+    );
+    if (!response.ok) throw new Error(`Reverse geocoding failed (${response.status})`);
+
+    const data = await response.json();
+    return {
+      name: data.locality || data.city || data.countryName || null,
+      postcode: data.postcode || null,
+    };
+  },
+};
+
+// Features carry { name, kind: "ward" | "neighbourhood" | "street", postcode? }
+type GazetteerFeature = GeoJSON.Feature<GeoJSON.Geometry, { name: string; kind: string; postcode?: string }>;
+
+let gazetteer: Promise<GazetteerFeature[]> | null = null;
+
+// A failed load counts as an empty gazetteer this time and is tried again
+// on the next lookup
+const loadGazetteer = () => {
+  gazetteer ??= fetch(GAZETTEER_URL)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Loading the gazetteer failed (${response.status})`);
+      return response.json();
+    })
+    .then((collection: GeoJSON.FeatureCollection) => (collection.features || []) as GazetteerFeature[])
+    .catch((error) => {
+      console.error("Error loading gazetteer:", error);
+      gazetteer = null;
+      return [];
+    });
+  return gazetteer;
+};
+
+const localProvider: GeocodingProvider = {
+  name: "local",
+  reverse: async (lat, lng) => {
+    const containing = (await loadGazetteer()).filter((feature) => geometryContains(feature.geometry, lat, lng));
+    if (containing.length === 0) return null;
+
+    const nameOf = (kind: string) => containing.find((feature) => feature.properties.kind === kind)?.properties.name ?? null;
+    return {
+      ward: nameOf("ward"),
+      neighbourhood: nameOf("neighbourhood"),
+      postcode: containing.find((feature) => feature.properties.postcode)?.properties.postcode ?? null,
+    };
+  },
+  search: async (query) => {
+    const needle = query.toLowerCase();
+    return (await loadGazetteer())
+      .filter((feature) => feature.properties.name?.toLowerCase().includes(needle))
+      .slice(0, 5)
+      .flatMap((feature) => {
+        const center = geometryCenter(feature.geometry);
+        return center ? [{ ...center, label: feature.properties.name }] : [];
+      });
+  },
+};
+
+const PROVIDERS: Record<string, GeocodingProvider> = {
+  local: localProvider,
+  nominatim: nominatimProvider,
+  bigdatacloud: bigDataCloudProvider,
+};
+
+const getProviders = () => PROVIDER_ORDER.map((name: string) => PROVIDERS[name]).filter(Boolean) as GeocodingProvider[];
+
+// Results are cached on the device so moving the pin back and forth or
+// reopening the form doesn't hit rate-limited services again.
+const CACHE_KEY = "civilink-geocode-cache";
+const CACHE_LIMIT = 200;
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type CacheEntry = { value: unknown; at: number };
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || "{}");
+  } catch (error) {
+    console.error("Error reading geocode cache from localStorage", error);
+    return {};
+  }
+};
+
+// Results `keep` rejects, such as those found while every service was
+// unreachable, are returned without being cached
+const cached = async <T>(key: string, load: () => Promise<T>, keep: (value: T) => boolean): Promise<T> => {
+  const entry = readCache()[key];
+  if (entry && Date.now() - entry.at < CACHE_TTL_MS) return entry.value as T;
+
+  const value = await load();
+  if (!keep(value)) return value;
+  try {
+    const entries = Object.entries({ ...readCache(), [key]: { value, at: Date.now() } })
+      .sort(([, a], [, b]) => b.at - a.at)
+      .slice(0, CACHE_LIMIT);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.error("Error saving geocode cache to localStorage", error);
+  }
+  return value;
+};
+
+const isComplete = (place: GeocodedPlace) => Object.values(place).every((value) => value !== null);
+
+// Each provider fills the fields the ones before it left empty. Never
+// throws: a report can always be sent without an address.
+export const reverseGeocode = (lat: number, lng: number): Promise<GeocodedPlace> =>
+  // ~10m grid, well within GPS accuracy
+  cached(
+    `reverse:${lat.toFixed(4)},${lng.toFixed(4)}`,
+    async () => {
+      const place: GeocodedPlace = { name: null, ward: null, neighbourhood: null, postcode: null };
+      for (const provider of getProviders()) {
+        try {
+          const found = await provider.reverse(lat, lng);
+          for (const key of Object.keys(place) as (keyof GeocodedPlace)[]) {
+            place[key] ??= found?.[key] ?? null;
+          }
+        } catch (error) {
+          console.error(`Error reverse geocoding with ${provider.name}:`, error);
+        }
+        if (isComplete(place)) break;
+      }
+      return place;
+    },
+    // Nothing found usually means every service was unreachable
+    (place) => Object.values(place).some((value) => value !== null),
+  );
+
+// The first provider with any matches wins
+export const searchAddress = (query: string, near?: { lat: number; lng: number }): Promise<GeocodeResult[]> =>
+  cached(`search:${query.toLowerCase()}@${near ? `${near.lat.toFixed(2)},${near.lng.toFixed(2)}` : ""}`, async () => {
+    let lastError: unknown = null;
+    for (const provider of getProviders()) {
+      if (!provider.search) continue;
+      try {
+        const results = await provider.search(query, near);
+        if (results.length > 0) return results;
+      } catch (error) {
+        console.error(`Error searching with ${provider.name}:`, error);
+        lastError = error;
+      }
+    }
+    if (lastError) throw lastError;
+    return [];
+  }, (results) => results.length > 0);
@@ -0,0 +1,65 @@
+export interface ICalHoliday {
+  // YYYY-MM-DD
+  date: string;
+  name: string;
+}
+
+// Multi-day events longer than this are treated as bad data, not holidays
+const MAX_EVENT_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Continuation lines start with a space or tab (RFC 5545 §3.1)
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+
+// DTSTART;VALUE=DATE:20261225 or DTSTART:20261225T000000Z; only the calendar
+// date matters for a holiday
+const parseDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+const toIsoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Reads the events of an iCalendar file (a public holiday feed, for
+ * instance) as one holiday per day covered. All-day end dates are exclusive.
+ * Recurrence rules are not expanded, so yearly feeds should list each year.
+ */
+export const parseICalHolidays = (text: string): ICalHoliday[] => {
+  const holidays = new Map<string, string>();
+  let event: Record<string, string> | null = null;
+
+  for (const line of unfold(text)) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (line === "END:VEVENT" && event) {
+      const start = parseDate(event.DTSTART ?? "");
+      if (start !== null) {
+        const end = parseDate(event.DTEND ?? "") ?? start + DAY_MS;
+        const days = Math.min(Math.max(Math.round((end - start) / DAY_MS), 1), MAX_EVENT_DAYS);
+        for (let day = 0; day < days; day++) {
+          const date = toIsoDate(start + day * DAY_MS);
+          if (!holidays.has(date)) holidays.set(date, unescapeText(event.SUMMARY ?? "") || "Holiday");
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    event[name] = line.slice(separator + 1);
+  }
+
+  return [...holidays.entries()]
+    .map(([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,98 @@
+// Photos are shrunk and recompressed in the browser before upload: camera
+// files are often 5-12MB and mobile connections are slow.
+const MAX_DIMENSION = Number(import.meta.env.VITE_IMAGE_MAX_DIMENSION) || 1920;
+const THUMBNAIL_DIMENSION = 400;
+const QUALITY = 0.82;
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  extension: "webp" | "jpg";
+}
+
+// createImageBitmap applies the EXIF orientation for us, so sideways phone
+// photos come out upright once redrawn (and the EXIF block is dropped).
+const loadImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if ("createImageBitmap" in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch (error) {
+      console.error("createImageBitmap failed, falling back to <img>", error);
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY));
+
+const renderScaled = async (source: ImageBitmap | HTMLImageElement, maxDimension: number, type: string) => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, type);
+};
+
+export const processImage = async (file: Blob): Promise<ProcessedImage> => {
+  const source = await loadImage(file);
+  try {
+    // Browsers without WebP encoding quietly hand back PNG, so check the type
+    const webp = await renderScaled(source, MAX_DIMENSION, "image/webp");
+    const useWebp = webp?.type === "image/webp";
+    const type = useWebp ? "image/webp" : "image/jpeg";
+    const image = useWebp ? webp : await renderScaled(source, MAX_DIMENSION, type);
+    const thumbnail = await renderScaled(source, THUMBNAIL_DIMENSION, type);
+    if (!image || !thumbnail) throw new Error("Could not encode image");
+
+    return { image, thumbnail, extension: useWebp ? "webp" : "jpg" };
+  } finally {
+    if ("close" in source) source.close();
+  }
+};
+
+// Fallback for JPEGs the canvas couldn't redraw: drop the APPn segments
+// that carry EXIF (GPS, device, timestamps), XMP and IPTC, plus comments,
+// and keep everything the decoder needs.
+const METADATA_MARKERS = new Set([0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xeb, 0xec, 0xed, 0xee, 0xef, 0xfe]);
+
+export const stripJpegMetadata = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error("Not a JPEG file");
+
+  const kept: Blob[] = [file.slice(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the rest is image data
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (!METADATA_MARKERS.has(marker)) kept.push(file.slice(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  kept.push(file.slice(offset));
+
+  return new Blob(kept, { type: "image/jpeg" });
+};
+
+export const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Only content-hashed uploads have a thumbnail next to them
+const HASHED_NAME = /\/([0-9a-f]{64}\.(?:webp|jpg))$/;
+
+export const getThumbnailUrl = (url: string) => url.replace(HASHED_NAME, "/thumbs/$1");
@@ -0,0 +1,30 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { uploadReportPhoto } from "@/lib/reportSubmission";
+
+export type IssueAttachment = Tables<"issue_attachments">;
+
+export const fetchIssueAttachments = async (issueId: number) => {
+  const { data, error } = await supabase
+    .from("issue_attachments")
+    .select("*")
+    .eq("issue_id", issueId)
+    .order("kind", { ascending: true })
+    .order("position", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+// Crew photos of the finished work, shown against the reporter's photos
+export const uploadAfterPhotos = async (issueId: number, photos: File[]) => {
+  const existing = await fetchIssueAttachments(issueId);
+  let position = existing.filter((attachment) => attachment.kind === "after").length;
+
+  for (const photo of photos) {
+    const url = await uploadReportPhoto(photo, photo.name);
+    const { error } = await supabase
+      .from("issue_attachments")
+      .insert({ issue_id: issueId, url, media_type: "image", kind: "after", position: position++ });
+    if (error) throw error;
+  }
+};
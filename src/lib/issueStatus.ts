@@ -0,0 +1,44 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type IssueStatus = Database["public"]["Enums"]["issue_status"];
+
+export const ISSUE_STATUSES: readonly IssueStatus[] = Constants.public.Enums.issue_status;
+
+interface StatusMeta {
+  label: string;
+  // Tailwind classes for the status pill
+  className: string;
+  badgeVariant: "default" | "secondary" | "destructive" | "outline";
+}
+
+export const STATUS_META: Record<IssueStatus, StatusMeta> = {
+  new: { label: "New", className: "bg-red-100 text-red-800", badgeVariant: "destructive" },
+  acknowledged: { label: "Acknowledged", className: "bg-amber-100 text-amber-800", badgeVariant: "outline" },
+  in_progress: { label: "In Progress", className: "bg-blue-100 text-blue-800", badgeVariant: "default" },
+  on_hold: { label: "On Hold", className: "bg-gray-200 text-gray-800", badgeVariant: "outline" },
+  resolved: { label: "Resolved", className: "bg-green-100 text-green-800", badgeVariant: "secondary" },
+  closed: { label: "Closed", className: "bg-slate-100 text-slate-700", badgeVariant: "secondary" },
+  rejected: { label: "Rejected", className: "bg-zinc-100 text-zinc-600", badgeVariant: "outline" },
+};
+
+// Mirrors public.issue_status_transition(); the database rejects anything
+// not listed here. `true` means the change needs a written reason.
+export const STATUS_TRANSITIONS: Record<IssueStatus, Partial<Record<IssueStatus, boolean>>> = {
+  new: { acknowledged: false, in_progress: false, on_hold: true, resolved: false, rejected: true },
+  acknowledged: { in_progress: false, on_hold: true, resolved: false, rejected: true },
+  in_progress: { on_hold: true, resolved: false },
+  on_hold: { in_progress: false, resolved: false, rejected: true },
+  resolved: { closed: false, in_progress: true },
+  closed: { in_progress: true },
+  rejected: { new: true },
+};
+
+export const getStatusLabel = (status: string) =>
+  STATUS_META[status as IssueStatus]?.label ?? status.replace(/_/g, " ");
+
+export const isOpenStatus = (status: string) => !["resolved", "closed", "rejected"].includes(status);
+
+export const getNextStatuses = (status: IssueStatus) =>
+  ISSUE_STATUSES.filter((next) => next in (STATUS_TRANSITIONS[status] ?? {}));
+
+export const requiresReason = (from: IssueStatus, to: IssueStatus) => !!STATUS_TRANSITIONS[from]?.[to];
@@ -0,0 +1,66 @@
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import type { IssueStatus } from "@/lib/issueStatus";
+
+// Leaflet looks for its default marker images next to its CSS, which the
+// bundler moves; point it at the bundled copies instead
+delete (L.Icon.Default.prototype as { _getIconUrl?: unknown })._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
+});
+
+// Matches the status pills in STATUS_META
+export const STATUS_COLORS: Record<IssueStatus, string> = {
+  new: "#dc2626",
+  acknowledged: "#d97706",
+  in_progress: "#2563eb",
+  on_hold: "#6b7280",
+  resolved: "#16a34a",
+  closed: "#475569",
+  rejected: "#a1a1aa",
+};
+
+export const getStatusColor = (status: string) => STATUS_COLORS[status as IssueStatus] ?? "#6b7280";
+
+export const createPinIcon = (color: string) =>
+  L.divIcon({
+    html: `
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="32" height="32">
+        <path fill="${color}" d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5a2.5 2.5 0 010-5 2.5 2.5 0 010 5z"/>
+        <circle cx="12" cy="9.5" r="1.5" fill="white" />
+      </svg>`,
+    className: "",
+    iconSize: [32, 32],
+    iconAnchor: [16, 32],
+    popupAnchor: [0, -32],
+  });
+
+// A ring split by the colours of the markers inside the cluster, with the
+// count in the middle
+export const createClusterIcon = (colors: string[]) => {
+  const counts = new Map<string, number>();
+  colors.forEach((color) => counts.set(color, (counts.get(color) ?? 0) + 1));
+
+  let offset = 0;
+  const stops = [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([color, count]) => {
+      const start = offset;
+      offset += (count / colors.length) * 360;
+      return `${color} ${start}deg ${offset}deg`;
+    });
+
+  const size = colors.length < 10 ? 34 : colors.length < 100 ? 40 : 48;
+  return L.divIcon({
+    html: `
+      <div style="width:${size}px;height:${size}px;border-radius:50%;background:conic-gradient(${stops.join(",")});display:flex;align-items:center;justify-content:center;box-shadow:0 1px 4px rgba(0,0,0,.3)">
+        <span style="width:${size - 12}px;height:${size - 12}px;border-radius:50%;background:white;display:flex;align-items:center;justify-content:center;font:600 12px/1 sans-serif;color:#1f2937">${colors.length}</span>
+      </div>`,
+    className: "",
+    iconSize: [size, size],
+  });
+};
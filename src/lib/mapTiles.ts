@@ -0,0 +1,96 @@
+import L from "leaflet";
+
+// Base map tiles come from a chain of sources, tried in the order given by
+// VITE_MAP_TILE_SOURCES. Networks that block public tile servers can point
+// the chain at tiles served from our own host instead:
+// - "osm": any OSM-compatible {z}/{x}/{y} raster server (VITE_MAP_TILE_URL)
+// - "local": raster tiles on our host, e.g. an MBTiles file behind a tile
+//   server or tiles exported to public/tiles (VITE_MAP_LOCAL_TILE_URL)
+// - "pmtiles": a raster PMTiles archive on any static host (VITE_MAP_PMTILES_URL)
+// - "vector": Protomaps basemap vector tiles, either a PMTiles archive or a
+//   {z}/{x}/{y}.mvt URL, drawn in the browser (VITE_MAP_VECTOR_TILES_URL)
+const SOURCE_ORDER = (import.meta.env.VITE_MAP_TILE_SOURCES || "osm")
+  .split(",")
+  .map((name: string) => name.trim())
+  .filter(Boolean);
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export type TileSourceKind = "xyz" | "pmtiles" | "vector";
+
+export interface TileSource {
+  name: string;
+  kind: TileSourceKind;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+const SOURCES: Record<string, TileSource> = {
+  osm: {
+    name: "osm",
+    kind: "xyz",
+    url: import.meta.env.VITE_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION || OSM_ATTRIBUTION,
+    maxZoom: 19,
+  },
+  local: {
+    name: "local",
+    kind: "xyz",
+    url: import.meta.env.VITE_MAP_LOCAL_TILE_URL || "/tiles/{z}/{x}/{y}.png",
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 18,
+  },
+  pmtiles: {
+    name: "pmtiles",
+    kind: "pmtiles",
+    url: import.meta.env.VITE_MAP_PMTILES_URL || "/tiles/basemap.pmtiles",
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 18,
+  },
+  vector: {
+    name: "vector",
+    kind: "vector",
+    url: import.meta.env.VITE_MAP_VECTOR_TILES_URL || "/tiles/basemap.pmtiles",
+    attribution: `<a href="https://protomaps.com">Protomaps</a> ${OSM_ATTRIBUTION}`,
+    maxZoom: 19,
+  },
+};
+
+// Sources that failed once stay skipped until the page reloads, so opening
+// another map doesn't wait on the same dead server again.
+const failedSources = new Set<string>();
+
+export const getTileSources = () =>
+  (SOURCE_ORDER.map((name: string) => SOURCES[name]).filter(Boolean) as TileSource[]).filter(
+    (source) => !failedSources.has(source.name)
+  );
+
+export const markTileSourceFailed = (source: TileSource) => {
+  console.error(`Map tile source "${source.name}" is unavailable`);
+  failedSources.add(source.name);
+};
+
+const isArchive = (url: string) => !url.includes("{z}");
+
+// pmtiles and protomaps-leaflet are only loaded when a source needs them.
+// Both extend the global L, which Leaflet sets when it loads.
+export const createTileLayer = async (source: TileSource): Promise<L.Layer> => {
+  const options = { attribution: source.attribution, maxZoom: source.maxZoom };
+
+  if (source.kind === "xyz") return L.tileLayer(source.url, options);
+
+  const { PMTiles, leafletRasterLayer } = await import("pmtiles");
+  // Reading the archive header up front turns a missing or misconfigured
+  // archive into an error here instead of a map of blank tiles
+  const archive = isArchive(source.url) ? new PMTiles(source.url) : null;
+  await archive?.getHeader();
+
+  if (source.kind === "pmtiles") {
+    if (!archive) throw new Error("Raster PMTiles sources need an archive URL");
+    return leafletRasterLayer(archive, options) as L.Layer;
+  }
+
+  const { leafletLayer } = await import("protomaps-leaflet");
+  return leafletLayer({ ...options, url: archive ?? source.url, flavor: "light", lang: "en" }) as unknown as L.Layer;
+};
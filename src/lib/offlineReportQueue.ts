@@ -0,0 +1,71 @@
+import type { ReportDraft, ReportProgress } from "@/lib/reportSubmission";
+
+const DB_NAME = "civilink-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "pending-reports";
+
+export interface PendingReport {
+  id?: number;
+  draft: ReportDraft;
+  progress: ReportProgress;
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+  // Set once retrying on its own won't help; only the reporter retries it.
+  // Missing on reports queued before this existed.
+  failed?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const enqueueReport = async (draft: ReportDraft, progress: ReportProgress = {}) => {
+  const record: PendingReport = {
+    draft,
+    progress,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+  const id = await runRequest("readwrite", (store) => store.add(record));
+  return { ...record, id: id as number };
+};
+
+export const listPendingReports = () =>
+  runRequest<PendingReport[]>("readonly", (store) => store.getAll());
+
+export const savePendingReport = (report: PendingReport) =>
+  runRequest("readwrite", (store) => store.put(report));
+
+export const removePendingReport = (id: number) =>
+  runRequest("readwrite", (store) => store.delete(id));
@@ -0,0 +1,80 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export interface RoleGrant {
+  role: AppRole;
+  department_id: string | null;
+}
+
+export type Permission =
+  | "issues.update_status"
+  | "issues.assign"
+  | "issues.prioritize"
+  | "issues.route"
+  | "issues.moderate"
+  | "issues.merge"
+  | "issues.export"
+  | "analytics.view"
+  | "routing.manage"
+  | "wards.manage"
+  | "categories.manage"
+  | "calendars.manage";
+
+export const STAFF_ROLES: AppRole[] = ["admin", "dispatcher", "department_head", "field_crew", "viewer"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Administrator",
+  dispatcher: "Dispatcher",
+  department_head: "Department Head",
+  field_crew: "Field Crew",
+  viewer: "Auditor",
+  user: "Citizen",
+};
+
+// Mirrors the RLS policies on public.issues; the database is the authority,
+// this only decides which actions the admin UI offers.
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: ["issues.update_status", "issues.assign", "issues.prioritize", "issues.route", "issues.moderate", "issues.merge", "issues.export", "analytics.view", "routing.manage", "wards.manage", "categories.manage", "calendars.manage"],
+  dispatcher: ["issues.update_status", "issues.assign", "issues.prioritize", "issues.route", "issues.moderate", "issues.merge", "issues.export", "analytics.view"],
+  department_head: ["issues.update_status", "issues.assign", "issues.prioritize", "issues.export", "analytics.view"],
+  field_crew: ["issues.update_status"],
+  viewer: ["issues.export", "analytics.view"],
+  user: [],
+};
+
+export interface ScopedIssue {
+  department_id: string | null;
+  assigned_user_id: string | null;
+}
+
+const grantCoversIssue = (grant: RoleGrant, userId: string | null, issue: ScopedIssue) => {
+  if (grant.role === "department_head") return !!grant.department_id && issue.department_id === grant.department_id;
+  if (grant.role === "field_crew") return !!userId && issue.assigned_user_id === userId;
+  return true;
+};
+
+/**
+ * Whether any of the user's role grants allows `permission`. When an issue
+ * is given, department heads are limited to their department and field
+ * crews to issues assigned to them.
+ */
+export const hasPermission = (
+  grants: RoleGrant[],
+  userId: string | null,
+  permission: Permission,
+  issue?: ScopedIssue,
+) =>
+  grants.some(
+    (grant) =>
+      ROLE_PERMISSIONS[grant.role]?.includes(permission) &&
+      (!issue || grantCoversIssue(grant, userId, issue)),
+  );
+
+/**
+ * Whether the issue belongs in the user's work queue in the staff console:
+ * department heads see their department's issues and field crews those
+ * assigned to them. This is a filter, not access control; issues are public.
+ */
+export const isInWorkQueue = (grants: RoleGrant[], userId: string | null, issue: ScopedIssue) =>
+  grants.some((grant) => STAFF_ROLES.includes(grant.role) && grantCoversIssue(grant, userId, issue));
@@ -0,0 +1,31 @@
+import exifr from "exifr";
+
+export interface PhotoMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  takenAt: Date | null;
+}
+
+// Reads where and when a photo was taken from its EXIF block. Only used to
+// suggest a location; the stored image has all metadata stripped.
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata | null> => {
+  try {
+    const [gps, tags] = await Promise.all([
+      exifr.gps(file).catch(() => null),
+      exifr.parse(file, ["DateTimeOriginal"]).catch(() => null),
+    ]);
+
+    const hasGps = gps && Number.isFinite(gps.latitude) && Number.isFinite(gps.longitude) && (gps.latitude !== 0 || gps.longitude !== 0);
+    const takenAt = tags?.DateTimeOriginal instanceof Date ? tags.DateTimeOriginal : null;
+    if (!hasGps && !takenAt) return null;
+
+    return {
+      latitude: hasGps ? gps.latitude : null,
+      longitude: hasGps ? gps.longitude : null,
+      takenAt,
+    };
+  } catch (error) {
+    console.error("Error reading photo metadata:", error);
+    return null;
+  }
+};
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  Boolean(VAPID_PUBLIC_KEY) && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// PushManager wants the VAPID key as raw bytes rather than base64url
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const getRegistration = async () => {
+  const existing = await navigator.serviceWorker.getRegistration("/sw.js");
+  return existing ?? navigator.serviceWorker.register("/sw.js");
+};
+
+export const enablePushNotifications = async () => {
+  if (!isPushSupported()) throw new Error("Push notifications aren't supported in this browser.");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site.");
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc("register_push_subscription", {
+    device_token: getDeviceToken(),
+    p_endpoint: endpoint!,
+    p_p256dh: keys!.p256dh,
+    p_auth: keys!.auth,
+  });
+  if (error) throw error;
+};
+
+export const disablePushNotifications = async () => {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase.rpc("remove_push_subscription", {
+    device_token: getDeviceToken(),
+    p_endpoint: subscription.endpoint,
+  });
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
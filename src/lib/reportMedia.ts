@@ -0,0 +1,47 @@
+// Limits for what citizens can attach to a report. The server enforces the
+// file count too (add_report_attachments).
+export const MAX_REPORT_FILES = 6;
+// Photos are shrunk before upload, so this only guards against absurd files
+export const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+export const MAX_VIDEO_SECONDS = 30;
+
+export type MediaType = "image" | "video";
+
+export const getMediaType = (file: Blob): MediaType => (file.type.startsWith("video/") ? "video" : "image");
+
+const readVideoDuration = (file: Blob) =>
+  new Promise<number>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read video"));
+    };
+    video.src = url;
+  });
+
+// Returns a message explaining why the file can't be attached, or null
+export const validateReportFile = async (file: File) => {
+  if (!file.type.startsWith("image/") && !file.type.startsWith("video/")) {
+    return `${file.name} isn't a photo or video.`;
+  }
+
+  if (getMediaType(file) === "image") {
+    return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than 25MB.` : null;
+  }
+
+  if (file.size > MAX_VIDEO_BYTES) return `${file.name} is larger than 50MB.`;
+  try {
+    const duration = await readVideoDuration(file);
+    return duration > MAX_VIDEO_SECONDS ? `${file.name} is longer than ${MAX_VIDEO_SECONDS} seconds.` : null;
+  } catch (error) {
+    console.error("Error reading video duration:", error);
+    return `${file.name} couldn't be read as a video.`;
+  }
+};
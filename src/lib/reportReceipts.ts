@@ -0,0 +1,39 @@
+const TRACKING_CODES_KEY = "civilink-tracking-codes";
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TRACKING_CODE_PATTERN = /^CL-[0-9A-HJKMNP-TV-Z]{5}-[0-9A-HJKMNP-TV-Z]{5}$/;
+
+const randomChunk = (length: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+};
+
+export const generateTrackingCode = () => `CL-${randomChunk(5)}-${randomChunk(5)}`;
+
+// Accepts codes typed with lowercase letters, spaces or missing dashes
+export const normalizeTrackingCode = (input: string) => {
+  const compact = input.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/^CL/, "");
+  const code = compact.length === 10 ? `CL-${compact.slice(0, 5)}-${compact.slice(5)}` : input.trim().toUpperCase();
+  return TRACKING_CODE_PATTERN.test(code) ? code : null;
+};
+
+export const getSavedTrackingCodes = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TRACKING_CODES_KEY) || "[]");
+  } catch (error) {
+    console.error("Error reading tracking codes from localStorage", error);
+    return [];
+  }
+};
+
+export const saveTrackingCode = (code: string) => {
+  try {
+    const codes = getSavedTrackingCodes();
+    if (!codes.includes(code)) {
+      localStorage.setItem(TRACKING_CODES_KEY, JSON.stringify([code, ...codes]));
+    }
+  } catch (error) {
+    console.error("Error saving tracking code to localStorage", error);
+  }
+};
@@ -0,0 +1,206 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+import { generateTrackingCode, saveTrackingCode } from "@/lib/reportReceipts";
+import { getMediaType } from "@/lib/reportMedia";
+import { hashBlob, processImage, stripJpegMetadata } from "@/lib/imageProcessing";
+import { UploadProgressHandler, uploadToStorage } from "@/lib/storageUpload";
+
+export interface ReportMedia {
+  blob: Blob;
+  name: string;
+}
+
+export interface ReportDraft {
+  title: string;
+  category: string;
+  description: string;
+  latitude: number;
+  longitude: number;
+  location_name: string;
+  // Structured address from geocoding; missing on reports queued offline
+  // before these were collected
+  ward?: string | null;
+  neighbourhood?: string | null;
+  postcode?: string | null;
+  street_address: string;
+  landmark: string;
+  photo: Blob | null;
+  photoName: string | null;
+  // Photos and videos beyond the cover photo; missing on reports queued
+  // offline before attachments existed
+  extraMedia?: ReportMedia[];
+  // Answers to the category's own fields, with photo answers kept apart
+  // until they are uploaded
+  details?: Record<string, string | number | boolean>;
+  detailPhotos?: Record<string, ReportMedia>;
+}
+
+// Each step records what it achieved so a retry picks up where the last
+// attempt stopped instead of uploading or inserting twice.
+export interface ReportProgress {
+  imageUrl?: string | null;
+  detailPhotoUrls?: Record<string, string>;
+  issueId?: number;
+  trackingCode?: string;
+  extraMediaUrls?: string[];
+  attachmentsSaved?: boolean;
+}
+
+export interface SubmittedReport {
+  issueId: number;
+  trackingCode: string;
+  // The report went in but its extra photos and videos were refused
+  attachmentsFailed: boolean;
+}
+
+// Which file of the report is uploading, for the progress bar
+export interface UploadStatus {
+  current: number;
+  total: number;
+  fraction: number;
+}
+
+// Photos are resized and recompressed with a thumbnail next to them, which
+// also drops their EXIF metadata; videos go up as they are. Names are
+// content hashes so retries and identical files never collide.
+export const uploadReportPhoto = async (photo: Blob, photoName: string | null, onProgress?: UploadProgressHandler) => {
+  if (getMediaType(photo) === "video") {
+    const fileExt = (photoName || "video.mp4").split('.').pop();
+    return uploadToStorage('issues', `${await hashBlob(photo)}-original.${fileExt}`, photo, onProgress);
+  }
+
+  let processed = null;
+  try {
+    processed = await processImage(photo);
+  } catch (error) {
+    console.error("Error processing image, uploading a stripped original", error);
+  }
+
+  if (processed) {
+    const fileName = `${await hashBlob(processed.image)}.${processed.extension}`;
+    await uploadToStorage('issues', `thumbs/${fileName}`, processed.thumbnail);
+    return uploadToStorage('issues', fileName, processed.image, onProgress);
+  }
+
+  // Never publish an original we couldn't strip
+  if (photo.type !== "image/jpeg") {
+    throw new Error("This photo format isn't supported. Please use a JPEG, PNG or WebP photo.");
+  }
+  const stripped = await stripJpegMetadata(photo);
+  return uploadToStorage('issues', `${await hashBlob(stripped)}-original.jpg`, stripped, onProgress);
+};
+
+export const submitReport = async (
+  draft: ReportDraft,
+  progress: ReportProgress = {},
+  onProgress?: (progress: ReportProgress) => void | Promise<void>,
+  onUpload?: (status: UploadStatus) => void,
+): Promise<SubmittedReport> => {
+  const detailPhotos = Object.entries(draft.detailPhotos ?? {});
+  const total = (draft.photo ? 1 : 0) + detailPhotos.length + (draft.extraMedia?.length ?? 0);
+  let imageUrl = progress.imageUrl ?? null;
+  if (draft.photo && !imageUrl) {
+    imageUrl = await uploadReportPhoto(draft.photo, draft.photoName, (fraction) => onUpload?.({ current: 1, total, fraction }));
+    progress = { ...progress, imageUrl };
+    await onProgress?.(progress);
+  }
+
+  const detailPhotoUrls = { ...(progress.detailPhotoUrls ?? {}) };
+  for (const [index, [key, media]] of detailPhotos.entries()) {
+    if (detailPhotoUrls[key]) continue;
+    const current = index + (draft.photo ? 2 : 1);
+    detailPhotoUrls[key] = await uploadReportPhoto(media.blob, media.name, (fraction) => onUpload?.({ current, total, fraction }));
+    progress = { ...progress, detailPhotoUrls: { ...detailPhotoUrls } };
+    await onProgress?.(progress);
+  }
+
+  // The code is kept before the report is filed so a retry files the same one
+  const trackingCode = progress.trackingCode ?? generateTrackingCode();
+  if (!progress.trackingCode) {
+    progress = { ...progress, trackingCode };
+    await onProgress?.(progress);
+  }
+
+  if (!progress.issueId) {
+    const { data: issueId, error: submitError } = await supabase.rpc('submit_issue', {
+      report: {
+        title: draft.title,
+        category: draft.category,
+        description: draft.description,
+        latitude: draft.latitude,
+        longitude: draft.longitude,
+        location_name: draft.location_name,
+        ward: draft.ward ?? null,
+        neighbourhood: draft.neighbourhood ?? null,
+        postcode: draft.postcode ?? null,
+        image_url: imageUrl,
+        street_address: draft.street_address,
+        landmark: draft.landmark,
+        details: { ...(draft.details ?? {}), ...detailPhotoUrls },
+      },
+      tracking_code: trackingCode,
+      device_token: getDeviceToken(),
+    });
+
+    if (submitError) throw submitError;
+    progress = { ...progress, issueId };
+    await onProgress?.(progress);
+  }
+
+  const { issueId } = progress;
+  saveTrackingCode(trackingCode);
+  const attachmentsSaved = await saveExtraMedia(draft, progress, onProgress, (index, fraction) =>
+    onUpload?.({ current: index + (draft.photo ? 2 : 1) + detailPhotos.length, total, fraction }),
+  );
+  return { issueId, trackingCode, attachmentsFailed: !attachmentsSaved };
+};
+
+// Extra files go up after the receipt exists, since adding them is limited
+// to the reporter. Returns false when the server refused them; retrying
+// wouldn't help, so that still counts as the step being done.
+const saveExtraMedia = async (
+  draft: ReportDraft,
+  progress: ReportProgress,
+  onProgress?: (progress: ReportProgress) => void | Promise<void>,
+  onUpload?: (index: number, fraction: number) => void,
+) => {
+  const extraMedia = draft.extraMedia ?? [];
+  if (extraMedia.length === 0 || progress.attachmentsSaved) return true;
+
+  const urls = [...(progress.extraMediaUrls ?? [])];
+  for (const media of extraMedia.slice(urls.length)) {
+    const index = urls.length;
+    urls.push(await uploadReportPhoto(media.blob, media.name, (fraction) => onUpload?.(index, fraction)));
+    progress = { ...progress, extraMediaUrls: [...urls] };
+    await onProgress?.(progress);
+  }
+
+  const { error } = await supabase.rpc('add_report_attachments', {
+    p_issue_id: progress.issueId,
+    device_token: getDeviceToken(),
+    urls,
+    media_types: extraMedia.map((media) => getMediaType(media.blob)),
+  });
+  if (error) {
+    if (isNetworkError(error)) throw error;
+    console.error("Error saving report attachments", error);
+  }
+
+  await onProgress?.({ ...progress, attachmentsSaved: true });
+  return !error;
+};
+
+export const getErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+};
+
+// supabase-js surfaces dropped connections as plain errors with the fetch
+// failure text, so match on the message rather than an error class.
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(getErrorMessage(error));
+};
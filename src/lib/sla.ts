@@ -0,0 +1,90 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+import { isOpenStatus } from "@/lib/issueStatus";
+
+export type IssuePriority = Database["public"]["Enums"]["issue_priority"];
+
+export const ISSUE_PRIORITIES: readonly IssuePriority[] = Constants.public.Enums.issue_priority;
+
+export const PRIORITY_META: Record<IssuePriority, { label: string; className: string }> = {
+  low: { label: "Low", className: "bg-slate-100 text-slate-700" },
+  normal: { label: "Normal", className: "bg-blue-100 text-blue-800" },
+  high: { label: "High", className: "bg-orange-100 text-orange-800" },
+  urgent: { label: "Urgent", className: "bg-red-100 text-red-800" },
+};
+
+// Higher for more urgent priorities, for sorting
+export const priorityRank = (priority: IssuePriority) => ISSUE_PRIORITIES.indexOf(priority);
+
+// Priorities counted as needing attention
+export const isHighPriority = (priority: IssuePriority) => priority === "high" || priority === "urgent";
+
+export type SlaState = "none" | "on_track" | "due_soon" | "overdue" | "met" | "breached";
+
+export const SLA_STATE_META: Record<SlaState, { label: string; className: string }> = {
+  none: { label: "No target", className: "bg-muted text-muted-foreground" },
+  on_track: { label: "On track", className: "bg-green-100 text-green-800" },
+  due_soon: { label: "Due soon", className: "bg-amber-100 text-amber-800" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+  met: { label: "Met SLA", className: "bg-green-100 text-green-800" },
+  breached: { label: "Breached SLA", className: "bg-red-100 text-red-800" },
+};
+
+export interface SlaIssue {
+  status: string;
+  created_at: string;
+  due_at: string | null;
+  resolved_at: string | null;
+}
+
+// Open issues count as due soon in the last quarter of their window
+const DUE_SOON_SHARE = 0.25;
+
+// Rejected issues and those closed without being resolved have no outcome
+export const getSlaState = (issue: SlaIssue, now = Date.now()): SlaState => {
+  if (!issue.due_at) return "none";
+  const due = new Date(issue.due_at).getTime();
+
+  if (!isOpenStatus(issue.status)) {
+    if (!issue.resolved_at) return "none";
+    return new Date(issue.resolved_at).getTime() <= due ? "met" : "breached";
+  }
+
+  if (now > due) return "overdue";
+  const window = due - new Date(issue.created_at).getTime();
+  return due - now <= window * DUE_SOON_SHARE ? "due_soon" : "on_track";
+};
+
+// Coarse "2d 4h" / "3h 20m" / "12m" form for badges
+export const formatDuration = (ms: number) => {
+  const minutes = Math.floor(Math.abs(ms) / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+const INTERVAL_UNIT_HOURS: Record<string, number> = { year: 365 * 24, mon: 30 * 24, day: 24 };
+
+// Postgres sends intervals as text, e.g. "3 days 04:12:33.5" or "-01:00:00"
+export const parseInterval = (value: unknown): number | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  let hours = 0;
+  for (const [, amount, unit] of value.matchAll(/(-?\d+) (year|mon|day)s?/g)) {
+    hours += Number(amount) * INTERVAL_UNIT_HOURS[unit];
+  }
+  let ms = hours * 3_600_000;
+
+  const time = value.match(/(-?)(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (time) {
+    const sign = time[1] ? -1 : 1;
+    ms += sign * ((Number(time[2]) * 60 + Number(time[3])) * 60 + Number(time[4])) * 1000;
+  }
+  return ms;
+};
+
+export const formatInterval = (value: unknown) => {
+  const ms = parseInterval(value);
+  return ms === null ? null : formatDuration(ms);
+};
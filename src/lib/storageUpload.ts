@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type UploadProgressHandler = (fraction: number) => void;
+
+// Content-hashed names mean a second upload of the same bytes hits an
+// existing object; that's a success, not an error.
+const isDuplicate = (message: string) => /duplicate|already exists/i.test(message);
+
+// supabase-js doesn't report upload progress, so the bytes go through a
+// signed upload URL with XHR instead.
+const putWithProgress = (url: string, blob: Blob, onProgress?: UploadProgressHandler) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", blob.type || "application/octet-stream");
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if ((xhr.status >= 200 && xhr.status < 300) || xhr.status === 409 || isDuplicate(xhr.responseText)) {
+        onProgress?.(1);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+      }
+    };
+    // Same wording fetch uses, so isNetworkError queues the report for later
+    xhr.onerror = () => reject(new Error("Failed to fetch"));
+    xhr.send(blob);
+  });
+
+export const uploadToStorage = async (bucket: string, path: string, blob: Blob, onProgress?: UploadProgressHandler) => {
+  const storage = supabase.storage.from(bucket);
+  const { data, error } = await storage.createSignedUploadUrl(path);
+
+  if (error) {
+    if (!isDuplicate(error.message)) throw error;
+    onProgress?.(1);
+  } else {
+    await putWithProgress(data.signedUrl, blob, onProgress);
+  }
+
+  return storage.getPublicUrl(path).data.publicUrl;
+};
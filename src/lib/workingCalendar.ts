@@ -0,0 +1,18 @@
+// ISO weekday numbers, as stored in department_calendars.work_days
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+// "Mon–Fri" for a consecutive run, otherwise "Mon, Wed, Fri"
+export const formatWorkDays = (days: number[]) => {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  const labels = sorted.map((day) => WEEKDAYS[day - 1]?.label ?? String(day));
+  const consecutive = sorted.every((day, index) => index === 0 || day === sorted[index - 1] + 1);
+  return consecutive && sorted.length > 2 ? `${labels[0]}–${labels[labels.length - 1]}` : labels.join(", ");
+};
@@ -17,14 +17,14 @@ const AdminAuth = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
-  const { login, isAuthenticated, loading: authLoading } = useAuth();
-  const { setAsAdmin } = useAdminRole();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { isStaff, loading: roleLoading } = useAdminRole();
 
   useEffect(() => {
-    if (!authLoading && isAuthenticated) {
+    if (!authLoading && !roleLoading && isAuthenticated && isStaff) {
       navigate("/admin", { replace: true });
     }
-  }, [isAuthenticated, authLoading, navigate]);
+  }, [isAuthenticated, isStaff, authLoading, roleLoading, navigate]);
 
   const handleLogin = async () => {
     setLoading(true);
@@ -42,19 +42,17 @@ const AdminAuth = () => {
         throw new Error("Authentication failed. Please check your credentials.");
       }
 
-      const { data: isAdmin, error: rpcError } = await supabase.rpc('is_admin');
+      const { data: hasStaffRole, error: rpcError } = await supabase.rpc('is_staff');
 
       if (rpcError) {
         throw new Error(rpcError.message);
       }
 
-      if (isAdmin) {
-        login();
-        setAsAdmin();
+      if (hasStaffRole) {
         toast.success("Login Successful", {
-          description: "Welcome back, admin!",
+          description: "Welcome back!",
         });
-        // Navigation is now handled by useEffect
+        // Navigation happens once AdminProvider has verified the role too
       } else {
         await supabase.auth.signOut();
         throw new Error("You are not authorized to access this page.");
@@ -72,7 +70,7 @@ const AdminAuth = () => {
     setShowPassword(!showPassword);
   };
 
-  if (authLoading || isAuthenticated) {
+  if (authLoading || (isAuthenticated && (roleLoading || isStaff))) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div>Loading...</div>
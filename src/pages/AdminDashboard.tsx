@@ -13,14 +13,16 @@ import {
   SidebarGroupLabel,
   SidebarTrigger
 } from "@/components/ui/sidebar";
-import { Home, List, BarChart3, Activity } from 'lucide-react';
+import { Home, List, BarChart3, Activity, Route, Map, Tags, CalendarClock } from 'lucide-react';
 import { DashboardOverview } from "@/components/DashboardOverview";
 import { Link,useNavigate } from "react-router-dom";
 import { UserMenu } from "@/components/UserMenu";
+import { useAdminRole } from "@/hooks/useAdminRole";
 import logo from "@/assets/logo.png";
 
 const AdminDashboardContent: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAdminRole();
 
   const currentView = {
     title: "Admin Dashboard",
@@ -55,12 +57,46 @@ const AdminDashboardContent: React.FC = () => {
                   <span className="text-base">All Reports</span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
-              <SidebarMenuItem>
-                <SidebarMenuButton tooltip="Analytics" onClick={() => navigate('/admin/analytics')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
-                  <BarChart3 className="w-5 h-5" />
-                  <span className="text-base">Analytics</span>
-                </SidebarMenuButton>
-              </SidebarMenuItem>
+              {can("analytics.view") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Analytics" onClick={() => navigate('/admin/analytics')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
+                    <BarChart3 className="w-5 h-5" />
+                    <span className="text-base">Analytics</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {can("routing.manage") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Routing Rules" onClick={() => navigate('/admin/routing')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
+                    <Route className="w-5 h-5" />
+                    <span className="text-base">Routing Rules</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {can("wards.manage") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Wards" onClick={() => navigate('/admin/wards')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
+                    <Map className="w-5 h-5" />
+                    <span className="text-base">Wards</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {can("categories.manage") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Categories" onClick={() => navigate('/admin/categories')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
+                    <Tags className="w-5 h-5" />
+                    <span className="text-base">Categories</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {can("calendars.manage") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Working Calendars" onClick={() => navigate('/admin/calendars')} className="h-12 hover:scale-105 hover:shadow-lg transition-transform duration-200">
+                    <CalendarClock className="w-5 h-5" />
+                    <span className="text-base">Working Calendars</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroup>
         </SidebarContent>
@@ -16,6 +16,11 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import type { Tables } from "@/integrations/supabase/types";
 import { UserMenu } from "@/components/UserMenu";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { useWards } from "@/hooks/useWards";
+import { getCategoryColor } from "@/lib/categories";
+import { formatDuration, getSlaState, parseInterval } from "@/lib/sla";
 import logo from "@/assets/logo.png";
 
 // Types for our data
@@ -43,6 +48,29 @@ interface LocationHotspotData {
   count: number;
 }
 
+interface SlaCategoryData {
+  name: string;
+  met: number;
+  breached: number;
+}
+
+interface SlaSummary {
+  // Share of resolved issues with a target that were resolved in time
+  compliance: number | null;
+  met: number;
+  breached: number;
+  overdue: number;
+  escalated: number;
+}
+
+// Averages in milliseconds, null when nothing has been measured yet
+interface TimingSummary {
+  response: number | null;
+  responseWorking: number | null;
+  resolution: number | null;
+  resolutionWorking: number | null;
+}
+
 // Helper function to format month
 const formatMonth = (dateString: string) => {
   const date = new Date(dateString);
@@ -143,6 +171,22 @@ const LocationHotspotsChart = ({ data }: { data: LocationHotspotData[] }) => {
   );
 }
 
+const SlaComplianceChart = ({ data }: { data: SlaCategoryData[] }) => {
+  const isMobile = useIsMobile();
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <BarChart data={data} margin={isMobile ? { top: 5, right: 20, left: -20, bottom: 5 } : { top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" />
+        <YAxis allowDecimals={false} />
+        <Tooltip />
+        <Legend />
+        <Bar dataKey="met" stackId="sla" fill="#82ca9d" name="Within SLA" />
+        <Bar dataKey="breached" stackId="sla" fill="#ef4444" name="Breached or overdue" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
 
 // Custom Tooltip for detailed view
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -159,92 +203,154 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 };
 
 const AnalyticsContent = () => {
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [wardFilter, setWardFilter] = useState("all");
   const [monthlyData, setMonthlyData] = useState<MonthlyReportData[]>([]);
   const [categoryData, setCategoryData] = useState<CategoryDistributionData[]>([]);
   const [reportsByDayData, setReportsByDayData] = useState<ReportsByDayData[]>([]);
   const [locationData, setLocationData] = useState<LocationHotspotData[]>([]);
+  const [slaCategoryData, setSlaCategoryData] = useState<SlaCategoryData[]>([]);
+  const [timings, setTimings] = useState<TimingSummary>({ response: null, responseWorking: null, resolution: null, resolutionWorking: null });
+  const [slaSummary, setSlaSummary] = useState<SlaSummary>({ compliance: null, met: 0, breached: 0, overdue: 0, escalated: 0 });
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const isMobile = useIsMobile();
-  const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#AF19FF", "#FF1943"];
+  const { wards } = useWards();
+  const { findCategory } = useCategories();
 
   useEffect(() => {
     const fetchData = async () => {
       setLoading(true);
-      const { data: issues, error } = await supabase.from('issues').select<'*', Issue>('*');
+      const { data, error } = await supabase.from('issues').select<'*', Issue>('*');
       
-      if (error || !issues) {
+      if (error || !data) {
         console.error("Error fetching issues:", error);
         setLoading(false);
         return;
       }
 
-      // Process data for each chart
-      processMonthlyReports(issues);
-      processCategoryDistribution(issues);
-      processReportsByDay(issues);
-      processLocationHotspots(issues);
-      
+      setIssues(data);
       setLoading(false);
     };
 
     fetchData();
   }, []);
 
-  const processMonthlyReports = (issues: Issue[]) => {
-    const data = issues.reduce((acc, issue) => {
-      const month = formatMonth(issue.created_at);
-      if (!acc[month]) {
-        acc[month] = { month, total: 0, resolved: 0 };
-      }
-      acc[month].total++;
-      if (issue.status === 'resolved') {
-        acc[month].resolved++;
-      }
-      return acc;
-    }, {} as Record<string, MonthlyReportData>);
-    setMonthlyData(Object.values(data));
-  };
+  useEffect(() => {
+    const processMonthlyReports = (issues: Issue[]) => {
+      const data = issues.reduce((acc, issue) => {
+        const month = formatMonth(issue.created_at);
+        if (!acc[month]) {
+          acc[month] = { month, total: 0, resolved: 0 };
+        }
+        acc[month].total++;
+        if (issue.status === 'resolved' || issue.status === 'closed') {
+          acc[month].resolved++;
+        }
+        return acc;
+      }, {} as Record<string, MonthlyReportData>);
+      setMonthlyData(Object.values(data));
+    };
 
-  const processCategoryDistribution = (issues: Issue[]) => {
-    const data = issues.reduce((acc, issue) => {
-      if (!acc[issue.category]) {
-        acc[issue.category] = { name: issue.category, count: 0, fill: '' };
-      }
-      acc[issue.category].count++;
-      return acc;
-    }, {} as Record<string, CategoryDistributionData>);
+    const processCategoryDistribution = (issues: Issue[]) => {
+      const data = issues.reduce((acc, issue) => {
+        if (!acc[issue.category]) {
+          acc[issue.category] = { name: issue.category, count: 0, fill: '' };
+        }
+        acc[issue.category].count++;
+        return acc;
+      }, {} as Record<string, CategoryDistributionData>);
     
-    const sortedData = Object.values(data).sort((a,b) => b.count - a.count).map((item, index) => ({...item, fill: COLORS[index % COLORS.length]}));
-    setCategoryData(sortedData);
-  };
+      const sortedData = Object.values(data).sort((a,b) => b.count - a.count).map((item) => ({...item, fill: getCategoryColor(findCategory(item.name))}));
+      setCategoryData(sortedData);
+    };
+
+    const processReportsByDay = (issues: Issue[]) => {
+      const daysOfWeek = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+      const data = issues.reduce((acc, issue) => {
+          const day = daysOfWeek[new Date(issue.created_at).getDay()];
+          if (!acc[day]) {
+              acc[day] = { day, count: 0 };
+          }
+          acc[day].count++;
+          return acc;
+      }, {} as Record<string, ReportsByDayData>);
+
+      const sortedData = daysOfWeek.map(day => data[day] || { day, count: 0 });
+      setReportsByDayData(sortedData);
+    };
 
-  const processReportsByDay = (issues: Issue[]) => {
-    const daysOfWeek = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-    const data = issues.reduce((acc, issue) => {
-        const day = daysOfWeek[new Date(issue.created_at).getDay()];
-        if (!acc[day]) {
-            acc[day] = { day, count: 0 };
+    // Grouped by the ward boundary each issue falls in; location_name is only
+    // a city name
+    const processWardBreakdown = (issues: Issue[]) => {
+      const wardNames = new Map(wards.map((ward) => [ward.id, ward.name]));
+      const data = issues.reduce((acc, issue) => {
+        const location = wardNames.get(issue.ward_id) || issue.ward || 'No ward';
+        if (!acc[location]) {
+          acc[location] = { location, count: 0 };
         }
-        acc[day].count++;
+        acc[location].count++;
         return acc;
-    }, {} as Record<string, ReportsByDayData>);
+      }, {} as Record<string, LocationHotspotData>);
+      setLocationData(Object.values(data).sort((a,b) => b.count - a.count).slice(0, 10)); // Top 10
+    };
 
-    const sortedData = daysOfWeek.map(day => data[day] || { day, count: 0 });
-    setReportsByDayData(sortedData);
-  };
+    // Open issues past their due date count against the category already
+    const processSlaCompliance = (issues: Issue[]) => {
+      const now = Date.now();
+      const summary: SlaSummary = { compliance: null, met: 0, breached: 0, overdue: 0, escalated: 0 };
+      const byCategory = issues.reduce((acc, issue) => {
+        const state = getSlaState(issue, now);
+        if (state === "none") return acc;
+        if (!acc[issue.category]) {
+          acc[issue.category] = { name: issue.category, met: 0, breached: 0 };
+        }
+        if (state === "met") {
+          summary.met++;
+          acc[issue.category].met++;
+        } else if (state === "breached" || state === "overdue") {
+          summary[state]++;
+          acc[issue.category].breached++;
+          if (state === "overdue" && issue.escalated_at) summary.escalated++;
+        }
+        return acc;
+      }, {} as Record<string, SlaCategoryData>);
 
-  const processLocationHotspots = (issues: Issue[]) => {
-    const data = issues.reduce((acc, issue) => {
-      const location = issue.location_name || 'Unknown';
-      if (!acc[location]) {
-        acc[location] = { location, count: 0 };
-      }
-      acc[location].count++;
-      return acc;
-    }, {} as Record<string, LocationHotspotData>);
-    setLocationData(Object.values(data).sort((a,b) => b.count - a.count).slice(0, 10)); // Top 10
-  };
+      const resolved = summary.met + summary.breached;
+      summary.compliance = resolved > 0 ? Math.round((summary.met / resolved) * 100) : null;
+      setSlaSummary(summary);
+      setSlaCategoryData(
+        Object.values(byCategory)
+          .filter((item) => item.met + item.breached > 0)
+          .sort((a, b) => b.met + b.breached - (a.met + a.breached)),
+      );
+    };
+
+    const processTimings = (issues: Issue[]) => {
+      const average = (values: unknown[]) => {
+        const measured = values.map(parseInterval).filter((value): value is number => value !== null);
+        return measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null;
+      };
+      setTimings({
+        response: average(issues.map((issue) => issue.response_time)),
+        responseWorking: average(issues.map((issue) => issue.response_working_time)),
+        resolution: average(issues.map((issue) => issue.resolution_time)),
+        resolutionWorking: average(issues.map((issue) => issue.resolution_working_time)),
+      });
+    };
+
+    const selected = issues.filter((issue) =>
+      wardFilter === "all" || (wardFilter === "none" ? !issue.ward_id : issue.ward_id === wardFilter)
+    );
+
+    // Process data for each chart
+    processMonthlyReports(selected);
+    processCategoryDistribution(selected);
+    processReportsByDay(selected);
+    processWardBreakdown(selected);
+    processSlaCompliance(selected);
+    processTimings(selected);
+  }, [issues, wardFilter, wards, findCategory]);
 
   const chartCardStyle = {
     background: 'rgba(255, 255, 255, 0.1)',
@@ -295,6 +401,20 @@ const AnalyticsContent = () => {
       <SidebarInset>
         <header className="sticky top-0 z-10 flex items-center gap-4 border-b bg-background px-4 py-4 sm:h-auto sm:border-0 sm:bg-transparent sm:px-6">
           <SidebarTrigger className="sm:hidden flex-shrink-0" />
+          <div className="ml-auto">
+            <Select value={wardFilter} onValueChange={setWardFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Ward" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Wards</SelectItem>
+                <SelectItem value="none">No Ward</SelectItem>
+                {wards.map((ward) => (
+                  <SelectItem key={ward.id} value={ward.id}>{ward.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </header>
         <main className="p-4 sm:px-6 sm:py-0">
           {loading ? (
@@ -365,9 +485,86 @@ const AnalyticsContent = () => {
                 </Card>
               </div>
               
+              <div className="grid gap-6 md:grid-cols-4">
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">SLA Compliance</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{slaSummary.compliance === null ? "—" : `${slaSummary.compliance}%`}</div>
+                    <p className="text-xs text-muted-foreground">Resolved within target</p>
+                  </CardContent>
+                </Card>
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Resolved Late</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{slaSummary.breached}</div>
+                    <p className="text-xs text-muted-foreground">of {slaSummary.met + slaSummary.breached} resolved with a target</p>
+                  </CardContent>
+                </Card>
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Overdue Now</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-600">{slaSummary.overdue}</div>
+                    <p className="text-xs text-muted-foreground">Open past their due date</p>
+                  </CardContent>
+                </Card>
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Escalated</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{slaSummary.escalated}</div>
+                    <p className="text-xs text-muted-foreground">Overdue issues sent to a supervisor</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Average First Response</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">
+                      {timings.responseWorking === null ? "—" : `${formatDuration(timings.responseWorking)} working`}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {timings.response === null ? "No responses yet" : `${formatDuration(timings.response)} on the clock`}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card style={chartCardStyle}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Average Resolution</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">
+                      {timings.resolutionWorking === null ? "—" : `${formatDuration(timings.resolutionWorking)} working`}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {timings.resolution === null ? "Nothing resolved yet" : `${formatDuration(timings.resolution)} on the clock`}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card style={chartCardStyle}>
+                <CardHeader>
+                  <CardTitle>SLA Compliance by Category</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SlaComplianceChart data={slaCategoryData} />
+                </CardContent>
+              </Card>
+
               <Card style={chartCardStyle}>
                 <CardHeader>
-                  <CardTitle>Top 10 Report Hotspots</CardTitle>
+                  <CardTitle>Top 10 Wards by Reports</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <LocationHotspotsChart data={locationData} />
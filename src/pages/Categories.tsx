@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowDown, ArrowLeft, ArrowUp, Pencil, Plus, Tags, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CategoryDialog } from "@/components/CategoryDialog";
+import { SlaPolicyMatrix } from "@/components/SlaPolicyMatrix";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+import { Category, getCategoryColor, getCategoryIcon } from "@/lib/categories";
+
+type Department = Tables<"departments">;
+
+const Categories = () => {
+  const { categories, loading, refresh } = useCategories();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+    [toast],
+  );
+
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      const { data, error } = await supabase.from("departments").select("*").order("name");
+      if (error) {
+        showError("Failed to load departments.", error);
+        return;
+      }
+      setDepartments(data || []);
+    };
+
+    fetchDepartments();
+  }, [showError]);
+
+  const departmentName = useMemo(() => {
+    const names = new Map(departments.map((department) => [department.id, department.name]));
+    return (id: string | null) => (id ? names.get(id) ?? "Unknown department" : null);
+  }, [departments]);
+
+  const moveCategory = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= categories.length) return;
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const { error } = await supabase.rpc("reorder_categories", {
+      category_ids: reordered.map((category) => category.id),
+    });
+    if (error) showError("Failed to reorder categories.", error);
+    refresh();
+  };
+
+  const toggleCategory = async (category: Category, isActive: boolean) => {
+    const { error } = await supabase.from("categories").update({ is_active: isActive }).eq("id", category.id);
+    if (error) {
+      showError("Failed to update category.", error);
+      return;
+    }
+    refresh();
+  };
+
+  const deleteCategory = async (category: Category) => {
+    if (!confirm(`Delete category "${category.name}"? Existing reports keep it as text; turn it off instead to keep it in filters.`)) return;
+    const { error } = await supabase.from("categories").delete().eq("id", category.id);
+    if (error) {
+      showError("Failed to delete category.", error);
+      return;
+    }
+    refresh();
+  };
+
+  return (
+    <>
+      <div className="min-h-screen bg-muted/40 p-4 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/admin')}
+            className="flex items-center gap-2 hover:shadow-lg hover:scale-105 transition-transform duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <Button
+            onClick={() => {
+              setEditingCategory(null);
+              setEditorOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Category
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <Tags className="h-8 w-8 text-primary" />
+              Categories
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              What citizens can report, and how each kind of report looks and is handled across the app.
+            </p>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories ({categories.length})</CardTitle>
+            <CardDescription>Shown in this order on the report form, map and dashboards.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Order</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Default department</TableHead>
+                  <TableHead>SLA</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && categories.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">Loading categories...</TableCell>
+                  </TableRow>
+                ) : categories.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No categories yet. Citizens can't file reports until there is at least one.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  categories.map((category, index) => {
+                    const Icon = getCategoryIcon(category);
+                    return (
+                      <TableRow key={category.id} className={category.is_active ? "" : "opacity-50"}>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <span className="w-6 text-sm text-muted-foreground">{index + 1}</span>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveCategory(index, -1)} disabled={index === 0}>
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveCategory(index, 1)} disabled={index === categories.length - 1}>
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            <span
+                              className="flex h-7 w-7 items-center justify-center rounded-full text-white"
+                              style={{ backgroundColor: getCategoryColor(category) }}
+                            >
+                              <Icon className="h-4 w-4" />
+                            </span>
+                            {category.name}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {category.default_department_id ? (
+                            <Badge variant="outline">{departmentName(category.default_department_id)}</Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Routing rules only</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{category.sla_hours ? `${category.sla_hours}h` : "—"}</TableCell>
+                        <TableCell>
+                          <Switch checked={category.is_active} onCheckedChange={(checked) => toggleCategory(category, checked)} />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => {
+                                setEditingCategory(category);
+                                setEditorOpen(true);
+                              }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => deleteCategory(category)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>SLA by Priority</CardTitle>
+            <CardDescription>
+              Hours to resolve a report once filed. Empty cells fall back to the all-categories row, then to the
+              category's own SLA. Open reports move to their new due date when a target changes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SlaPolicyMatrix categories={categories} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <CategoryDialog
+        open={editorOpen}
+        category={editingCategory}
+        departments={departments}
+        nextPosition={categories.length + 1}
+        onOpenChange={setEditorOpen}
+        onSaved={refresh}
+      />
+    </>
+  );
+};
+
+export default Categories;
@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { MapContainer, Marker } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { ArrowLeft, Calendar, GitMerge, Home, Landmark, MapPin, MessageSquare, MessageSquarePlus, Share2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BeforeAfterSlider } from "@/components/BeforeAfterSlider";
+import { FollowButton } from "@/components/FollowButton";
+import { IssueDetailsList } from "@/components/IssueDetails";
+import { IssueGallery } from "@/components/IssueGallery";
+import { IssueUpvote } from "@/components/IssueUpvote";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categories";
+import { getCategoryFields, readDetails } from "@/lib/categoryFields";
+import { STATUS_META, getStatusLabel } from "@/lib/issueStatus";
+import { IssueAttachment, fetchIssueAttachments } from "@/lib/issueAttachments";
+import { createPinIcon } from "@/lib/mapIcons";
+import { formatInterval } from "@/lib/sla";
+
+type Issue = Tables<"issues">;
+type Followup = Tables<"issue_followups">;
+
+interface LinkedIssue {
+  id: number;
+  title: string;
+  created_at: string;
+}
+
+const IssueDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const issueId = Number(id);
+  const [issue, setIssue] = useState<Issue | null>(null);
+  const [duplicates, setDuplicates] = useState<LinkedIssue[]>([]);
+  const [followups, setFollowups] = useState<Followup[]>([]);
+  const [attachments, setAttachments] = useState<IssueAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { findCategory } = useCategories();
+
+  useEffect(() => {
+    if (!Number.isInteger(issueId)) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchIssue = async () => {
+      setLoading(true);
+      const [issueResult, duplicatesResult, followupsResult, attachmentsResult] = await Promise.all([
+        supabase.from("issues").select("*").eq("id", issueId).maybeSingle(),
+        supabase
+          .from("issues")
+          .select("id, title, created_at")
+          .eq("duplicate_of", issueId)
+          .eq("is_spam", false)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("issue_followups")
+          .select("*")
+          .eq("issue_id", issueId)
+          .order("created_at", { ascending: true }),
+        fetchIssueAttachments(issueId).catch((error) => {
+          console.error("Error fetching attachments:", error);
+          return [] as IssueAttachment[];
+        }),
+      ]);
+
+      const fetchError = issueResult.error || duplicatesResult.error || followupsResult.error;
+      if (fetchError) {
+        console.error("Error fetching issue:", fetchError);
+      }
+      // Spam stays hidden from the public, same as the reports list
+      setIssue(issueResult.data && !issueResult.data.is_spam ? issueResult.data : null);
+      setDuplicates(duplicatesResult.data || []);
+      setFollowups(followupsResult.data || []);
+      setAttachments(attachmentsResult);
+      setLoading(false);
+    };
+
+    fetchIssue();
+
+    const channel = supabase
+      .channel(`issue-detail-${issueId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "issues", filter: `id=eq.${issueId}` },
+        (payload) => setIssue(payload.new as Issue),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [issueId]);
+
+  const handleShare = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: issue?.title, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link Copied", description: "The link to this issue is on your clipboard." });
+    } catch (error) {
+      // Closing the share sheet rejects too; nothing to report then
+      console.error("Error sharing issue:", error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-10 space-y-4">
+        <Skeleton className="h-10 w-2/3" />
+        <Skeleton className="h-80 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!issue) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h1 className="mb-4 text-3xl font-bold">Issue not found</h1>
+          <p className="mb-4 text-gray-600">This report doesn't exist or has been removed.</p>
+          <Button asChild>
+            <Link to="/view-reports">Browse community reports</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const position: [number, number] = [issue.latitude, issue.longitude];
+  const beforeMedia = attachments.filter((attachment) => attachment.kind === "before");
+  const afterPhotos = attachments.filter((attachment) => attachment.kind === "after");
+  const beforePhoto = beforeMedia.find((attachment) => attachment.media_type === "image")?.url ?? issue.image_url;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <div className="container mx-auto px-4 py-6 max-w-5xl">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" asChild>
+              <Link to="/">
+                <Home className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/view-reports" className="flex items-center gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                All Reports
+              </Link>
+            </Button>
+          </div>
+          <Button variant="outline" onClick={handleShare} className="flex items-center gap-2">
+            <Share2 className="h-4 w-4" />
+            Share
+          </Button>
+        </div>
+
+        {issue.duplicate_of && (
+          <div className="mb-6 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 flex items-center gap-2">
+            <GitMerge className="h-4 w-4 flex-shrink-0" />
+            <span>
+              This report was merged into{" "}
+              <Link to={`/issues/${issue.duplicate_of}`} className="font-medium underline">
+                issue #{issue.duplicate_of}
+              </Link>
+              , which is where progress is tracked.
+            </span>
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <Badge variant="secondary">{issue.category}</Badge>
+                  <Badge className={STATUS_META[issue.status]?.className}>{getStatusLabel(issue.status)}</Badge>
+                  <span className="text-xs text-muted-foreground">#{issue.id}</span>
+                </div>
+                <CardTitle className="text-2xl md:text-3xl">{issue.title}</CardTitle>
+                <div className="flex items-center gap-1.5 text-sm text-gray-500 pt-1">
+                  <Calendar className="h-4 w-4" />
+                  <span title={format(new Date(issue.created_at), "PPpp")}>
+                    Reported {formatDistanceToNow(new Date(issue.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {beforeMedia.length > 0 ? (
+                  <IssueGallery attachments={beforeMedia} title={issue.title} />
+                ) : issue.image_url && (
+                  <a href={issue.image_url} target="_blank" rel="noopener noreferrer">
+                    <img src={issue.image_url} alt={issue.title} className="w-full max-h-[480px] object-contain rounded-lg bg-black/5" />
+                  </a>
+                )}
+                <p className="text-gray-700 whitespace-pre-line">{issue.description}</p>
+                <IssueDetailsList fields={getCategoryFields(findCategory(issue.category))} details={readDetails(issue.details)} />
+                <div className="flex items-center justify-between border-t pt-4">
+                  <div className="flex items-center gap-2">
+                    <IssueUpvote issueId={issue.id} initialUpvotes={issue.upvotes_count || 0} />
+                    <FollowButton issueId={issue.id} />
+                  </div>
+                  {issue.resolution_time && issue.status === "resolved" && (
+                    <span className="text-xs text-green-600">Resolved in {formatInterval(issue.resolution_time)}</span>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {afterPhotos.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{beforePhoto ? "Before & After" : "After the Work"}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {beforePhoto ? (
+                    <BeforeAfterSlider beforeUrl={beforePhoto} afterUrl={afterPhotos[0].url} />
+                  ) : (
+                    <IssueGallery attachments={afterPhotos.slice(0, 1)} title={issue.title} />
+                  )}
+                  {afterPhotos.length > 1 && <IssueGallery attachments={afterPhotos.slice(1)} title={issue.title} />}
+                </CardContent>
+              </Card>
+            )}
+
+            {issue.public_notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5" />
+                    Update from the City
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-700 whitespace-pre-line">{issue.public_notes}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {followups.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquarePlus className="h-5 w-5" />
+                    Updates from the Reporter
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {followups.map((followup) => (
+                    <div key={followup.id} className="border-l-2 border-gray-200 pl-4 space-y-2">
+                      <time className="text-xs text-muted-foreground" title={format(new Date(followup.created_at), "PPpp")}>
+                        {formatDistanceToNow(new Date(followup.created_at), { addSuffix: true })}
+                      </time>
+                      {followup.body && <p className="text-gray-700 whitespace-pre-line">{followup.body}</p>}
+                      {followup.image_url && (
+                        <a href={followup.image_url} target="_blank" rel="noopener noreferrer">
+                          <img src={followup.image_url} alt="Reporter update" className="max-h-60 rounded-md" />
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Status Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StatusTimeline issueId={issue.id} refreshKey={issue.status} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card className="overflow-hidden">
+              <div className="relative z-0 h-64">
+                <MapContainer center={position} zoom={16} style={{ height: "100%", width: "100%" }} scrollWheelZoom={false}>
+                  <MapTileLayer />
+                  <Marker position={position} icon={createPinIcon(getCategoryColor(findCategory(issue.category)))} />
+                </MapContainer>
+              </div>
+              <CardContent className="space-y-2 pt-4 text-sm text-gray-600">
+                {(issue.location_name || issue.street_address) && (
+                  <div className="flex items-start gap-2">
+                    <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                    <span>
+                      {[issue.street_address, issue.location_name].filter(Boolean).join(", ")}
+                    </span>
+                  </div>
+                )}
+                {issue.landmark && (
+                  <div className="flex items-start gap-2">
+                    <Landmark className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                    <span>Near {issue.landmark}</span>
+                  </div>
+                )}
+                <a
+                  href={`https://maps.google.com/?q=${issue.latitude},${issue.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary underline text-xs"
+                >
+                  Open in Google Maps
+                </a>
+              </CardContent>
+            </Card>
+
+            {duplicates.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <GitMerge className="h-5 w-5" />
+                    Also Reported As
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {duplicates.map((duplicate) => (
+                    <Link
+                      key={duplicate.id}
+                      to={`/issues/${duplicate.id}`}
+                      className="block rounded-md border p-2 text-sm hover:bg-muted/50"
+                    >
+                      <span className="font-medium">#{duplicate.id}</span> {duplicate.title}
+                      <span className="block text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(duplicate.created_at), { addSuffix: true })}
+                      </span>
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IssueDetail;
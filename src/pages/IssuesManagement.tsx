@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import * as XLSX from 'xlsx';
 import {
@@ -49,27 +49,36 @@ import {
   Zap,
   Archive,
   Download,
+  GitMerge,
+  Unlink,
+  Flag,
+  AlarmClock,
 } from "lucide-react";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
 import { useAuth } from "@/hooks/useAuth";
 import { useAdminRole } from "@/hooks/useAdminRole";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import IssueSkeleton from "@/components/IssueSkeleton";
+import { IssueDetailsSummary } from "@/components/IssueDetails";
 import { Skeleton } from "@/components/ui/skeleton";
+import { MergeIssuesDialog } from "@/components/MergeIssuesDialog";
+import { AssignIssueDialog } from "@/components/AssignIssueDialog";
+import { StatusChange, StatusChangeDialog } from "@/components/StatusChangeDialog";
+import { IssueMediaDialog } from "@/components/IssueMediaDialog";
+import { SlaBadge } from "@/components/SlaBadge";
+import { useCategories } from "@/hooks/useCategories";
+import type { Json } from "@/integrations/supabase/types";
+import { detailColumns, formatDetailValue, getCategoryFields, readDetails } from "@/lib/categoryFields";
+import { useWards } from "@/hooks/useWards";
+import { ISSUE_STATUSES, IssueStatus, STATUS_META, getNextStatuses, getStatusLabel } from "@/lib/issueStatus";
+import { ISSUE_PRIORITIES, IssuePriority, PRIORITY_META, SLA_STATE_META, formatInterval, getSlaState, isHighPriority, priorityRank } from "@/lib/sla";
 
 interface Issue {
   id: number;
   title: string;
   description: string;
   category: string;
-  status: string;
+  status: IssueStatus;
   location_name: string | null;
   latitude: number;
   longitude: number;
@@ -79,24 +88,58 @@ interface Issue {
   is_spam: boolean;
   duplicate_of: number | null;
   priority_score: number;
-  response_time: string | null;
+  priority: IssuePriority;
+  due_at: string | null;
+  escalated_at: string | null;
+  resolved_at: string | null;
+  // Postgres intervals, as text
+  response_time: unknown;
+  response_working_time: unknown;
+  resolution_time: unknown;
+  resolution_working_time: unknown;
   assigned_to: string | null;
+  assigned_user_id: string | null;
+  department_id: string | null;
+  team_id: string | null;
   public_notes: string | null;
+  ward: string | null;
+  ward_id: string | null;
+  details: Json;
 }
 
 const IssuesManagement = () => {
   const [issues, setIssues] = useState<Issue[]>([]);
   const [filteredIssues, setFilteredIssues] = useState<Issue[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [mediaIssue, setMediaIssue] = useState<Issue | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [categoryFilter, setCategoryFilter] = useState("all");
+  // Answers to the filtered category's own fields, by field key
+  const [detailFilters, setDetailFilters] = useState<Record<string, string>>({});
+  const [wardFilter, setWardFilter] = useState("all");
+  const [slaFilter, setSlaFilter] = useState("all");
   const [showSpam, setShowSpam] = useState(false);
   const [sortBy, setSortBy] = useState("priority");
+  const [mergeSource, setMergeSource] = useState<Issue | null>(null);
+  const [assignTarget, setAssignTarget] = useState<Issue | null>(null);
+  const [statusChange, setStatusChange] = useState<StatusChange | null>(null);
+  // One clock for every due-date countdown on the page
+  const [now, setNow] = useState(() => Date.now());
   const navigate = useNavigate();
-  const { isAdmin, loading: adminLoading } = useAdminRole();
+  const { isStaff, can, inWorkQueue, loading: adminLoading } = useAdminRole();
   const { toast } = useToast();
+  const { wards } = useWards();
+  const { categories, findCategory } = useCategories();
+  const filterFields = useMemo(
+    () => (categoryFilter === "all" ? [] : getCategoryFields(findCategory(categoryFilter)).filter((field) => field.type !== "photo")),
+    [categoryFilter, findCategory],
+  );
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Fetch issues from Supabase and set up real-time updates
   useEffect(() => {
@@ -154,10 +197,7 @@ const IssuesManagement = () => {
         return;
       }
 
-      setIssues(data.map(issue => ({
-        ...issue,
-        response_time: issue.response_time as string | null
-      })) || []);
+      setIssues(data || []);
     } catch (error) {
       console.error('Error:', error);
     } finally {
@@ -174,16 +214,36 @@ const IssuesManagement = () => {
       
       const matchesStatus = statusFilter === "all" || issue.status === statusFilter;
       const matchesCategory = categoryFilter === "all" || issue.category === categoryFilter;
+      const matchesWard = wardFilter === "all" || (wardFilter === "none" ? !issue.ward_id : issue.ward_id === wardFilter);
       const matchesSpam = showSpam ? true : !issue.is_spam;
+      const matchesSla = slaFilter === "all" || getSlaState(issue, now) === slaFilter;
+      const details = readDetails(issue.details);
+      const matchesDetails = filterFields.every((field) => {
+        const wanted = detailFilters[field.key];
+        if (!wanted) return true;
+        const value = details[field.key];
+        if (value === undefined) return false;
+        if (field.type === "text") return String(value).toLowerCase().includes(wanted.toLowerCase());
+        return formatDetailValue(field, value) === wanted;
+      });
       
-      return matchesSearch && matchesStatus && matchesCategory && matchesSpam;
+      return inWorkQueue(issue) && matchesSearch && matchesStatus && matchesCategory && matchesWard && matchesSpam && matchesSla && matchesDetails;
     });
 
     // Sort issues
+    // Triage priority first, then community interest
+    const byPriority = (a: Issue, b: Issue) =>
+      priorityRank(b.priority) - priorityRank(a.priority) || b.priority_score - a.priority_score;
     filtered.sort((a, b) => {
       switch (sortBy) {
         case "priority":
-          return b.priority_score - a.priority_score;
+          return byPriority(a, b);
+        case "due": {
+          // Open issues by due date first; resolved and untargeted ones after
+          const dueTime = (issue: Issue) =>
+            issue.due_at && !issue.resolved_at ? new Date(issue.due_at).getTime() : Number.POSITIVE_INFINITY;
+          return dueTime(a) - dueTime(b);
+        }
         case "upvotes":
           return b.upvotes_count - a.upvotes_count;
         case "newest":
@@ -191,108 +251,82 @@ const IssuesManagement = () => {
         case "oldest":
           return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
         default:
-          return b.priority_score - a.priority_score;
+          return byPriority(a, b);
       }
     });
 
     setFilteredIssues(filtered);
-  }, [issues, searchTerm, statusFilter, categoryFilter, showSpam, sortBy]);
+  }, [issues, searchTerm, statusFilter, categoryFilter, wardFilter, slaFilter, showSpam, sortBy, inWorkQueue, filterFields, detailFilters, now]);
 
-  const handleStatusChange = async (
-    issueId: number,
-    newStatus: string,
-  ) => {
+  const handleSpamToggle = async (issueId: number, isSpam: boolean) => {
     try {
-      const updateData: any = { status: newStatus };
-      
-      // Calculate response time for resolved issues
-      if (newStatus === 'resolved') {
-        const issue = issues.find(i => i.id === issueId);
-        if (issue) {
-          const created = new Date(issue.created_at);
-          const now = new Date();
-          const diffMs = now.getTime() - created.getTime();
-          const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-          const diffDays = Math.floor(diffHours / 24);
-          
-          if (diffDays > 0) {
-            updateData.response_time = `${diffDays} days ${diffHours % 24} hours`;
-          } else {
-            updateData.response_time = `${diffHours} hours`;
-          }
-        }
-      }
-
       const { error } = await supabase
         .from('issues')
-        .update(updateData)
+        .update({ is_spam: isSpam })
         .eq('id', issueId);
 
       if (error) {
-        console.error('Error updating status:', error);
+        console.error('Error updating spam status:', error);
         toast({
           title: "Error",
-          description: "Failed to update issue status.",
+          description: "Failed to update spam status.",
           variant: "destructive",
         });
         return;
       }
 
       toast({
-        title: "Status Updated",
-        description: "Issue status has been updated successfully.",
+        title: isSpam ? "Marked as Spam" : "Unmarked as Spam",
+        description: "Issue spam status has been updated.",
       });
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
-  const handleSpamToggle = async (issueId: number, isSpam: boolean) => {
+  const handlePriorityChange = async (issueId: number, priority: IssuePriority) => {
     try {
       const { error } = await supabase
         .from('issues')
-        .update({ is_spam: isSpam })
+        .update({ priority })
         .eq('id', issueId);
 
       if (error) {
-        console.error('Error updating spam status:', error);
+        console.error('Error updating priority:', error);
         toast({
           title: "Error",
-          description: "Failed to update spam status.",
+          description: "Failed to update priority.",
           variant: "destructive",
         });
         return;
       }
 
       toast({
-        title: isSpam ? "Marked as Spam" : "Unmarked as Spam",
-        description: "Issue spam status has been updated.",
+        title: "Priority Updated",
+        description: `Issue #${issueId} is now ${PRIORITY_META[priority].label.toLowerCase()} priority; its due date follows.`,
       });
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
-  const handleAssignIssue = async (issueId: number, assignedTo: string) => {
+  const handleUnmerge = async (issueId: number) => {
     try {
-      const { error } = await supabase
-        .from('issues')
-        .update({ assigned_to: assignedTo })
-        .eq('id', issueId);
+      const { error } = await supabase.rpc('unmerge_issue', { issue_id: issueId });
 
       if (error) {
-        console.error('Error assigning issue:', error);
+        console.error('Error unmerging issue:', error);
         toast({
           title: "Error",
-          description: "Failed to assign issue.",
+          description: "Failed to unlink duplicate.",
           variant: "destructive",
         });
         return;
       }
 
       toast({
-        title: "Issue Assigned",
-        description: `Issue assigned to ${assignedTo}`,
+        title: "Duplicate Unlinked",
+        description: `Issue #${issueId} is visible to the public again.`,
       });
     } catch (error) {
       console.error('Error:', error);
@@ -300,7 +334,11 @@ const IssuesManagement = () => {
   };
 
   const handleExport = () => {
-    const worksheet = XLSX.utils.json_to_sheet(filteredIssues);
+    const rows = filteredIssues.map(({ details, ...issue }) => ({
+      ...issue,
+      ...detailColumns(getCategoryFields(findCategory(issue.category)), readDetails(details)),
+    }));
+    const worksheet = XLSX.utils.json_to_sheet(rows);
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, "Issues");
     XLSX.writeFile(workbook, "issues.xlsx");
@@ -314,18 +352,17 @@ const IssuesManagement = () => {
   const totalIssues = filteredIssues.length;
   const newIssues = filteredIssues.filter((i) => i.status === "new").length;
   const inProgressIssues = filteredIssues.filter((i) => i.status === "in_progress").length;
-  const resolvedIssues = filteredIssues.filter((i) => i.status === "resolved").length;
+  const resolvedIssues = filteredIssues.filter((i) => i.status === "resolved" || i.status === "closed").length;
   const spamIssues = issues.filter((i) => i.is_spam).length;
   const totalUpvotes = filteredIssues.reduce((sum, issue) => sum + issue.upvotes_count, 0);
-  const uniqueCategories = [...new Set(issues.map(i => i.category))];
-  const highPriorityIssues = filteredIssues.filter(i => i.priority_score > 5).length;
-
-  const getStatusBadgeVariant = (status: string) => {
-    if (status === "new") return "destructive";
-    if (status === "in_progress") return "default";
-    if (status === "resolved") return "secondary";
-    return "outline";
-  };
+  // The catalogue first, then any older names still on reports
+  const uniqueCategories = [...new Set([...categories.map(c => c.name), ...issues.map(i => i.category)])];
+  const highPriorityIssues = filteredIssues.filter(i => isHighPriority(i.priority)).length;
+  const overdueIssues = filteredIssues.filter(i => getSlaState(i, now) === "overdue").length;
+  const duplicateCounts = issues.reduce((acc, issue) => {
+    if (issue.duplicate_of) acc[issue.duplicate_of] = (acc[issue.duplicate_of] || 0) + 1;
+    return acc;
+  }, {} as Record<number, number>);
 
   const getStatusIcon = (status: string) => {
     if (status === "new") return <AlertTriangle className="h-4 w-4" />;
@@ -342,12 +379,12 @@ const IssuesManagement = () => {
     );
   }
 
-  if (!isAdmin) {
+  if (!isStaff) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
-          <p className="text-muted-foreground mb-4">You need admin privileges to access this page.</p>
+          <p className="text-muted-foreground mb-4">You need a staff role to access this page.</p>
           <Button onClick={() => navigate('/admin')}>Go to Dashboard</Button>
         </div>
       </div>
@@ -395,7 +432,7 @@ const IssuesManagement = () => {
         </div>
 
         {/* Statistics Cards */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-6 mb-6">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7 mb-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Issues</CardTitle>
@@ -418,6 +455,17 @@ const IssuesManagement = () => {
             </CardContent>
           </Card>
           
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+              <AlarmClock className="h-4 w-4 text-red-600" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{overdueIssues}</div>
+              <p className="text-xs text-muted-foreground">Past their SLA</p>
+            </CardContent>
+          </Card>
+          
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Community</CardTitle>
@@ -472,7 +520,7 @@ const IssuesManagement = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid gap-4 md:grid-cols-7">
+            <div className="grid gap-4 md:grid-cols-9">
               <div className="relative md:col-span-2">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -489,13 +537,19 @@ const IssuesManagement = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
+                  {ISSUE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{STATUS_META[status].label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
-              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <Select
+                value={categoryFilter}
+                onValueChange={(value) => {
+                  setCategoryFilter(value);
+                  setDetailFilters({});
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="Category" />
                 </SelectTrigger>
@@ -507,12 +561,38 @@ const IssuesManagement = () => {
                 </SelectContent>
               </Select>
 
+              <Select value={wardFilter} onValueChange={setWardFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Ward" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Wards</SelectItem>
+                  <SelectItem value="none">No Ward</SelectItem>
+                  {wards.map((ward) => (
+                    <SelectItem key={ward.id} value={ward.id}>{ward.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={slaFilter} onValueChange={setSlaFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any SLA</SelectItem>
+                  {(["overdue", "due_soon", "on_track", "breached", "met", "none"] as const).map((state) => (
+                    <SelectItem key={state} value={state}>{SLA_STATE_META[state].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
               <Select value={sortBy} onValueChange={setSortBy}>
                 <SelectTrigger>
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="priority">Priority</SelectItem>
+                  <SelectItem value="due">Due Soonest</SelectItem>
                   <SelectItem value="upvotes">Most Upvoted</SelectItem>
                   <SelectItem value="newest">Newest First</SelectItem>
                   <SelectItem value="oldest">Oldest First</SelectItem>
@@ -530,10 +610,12 @@ const IssuesManagement = () => {
                 <label htmlFor="showSpam" className="text-sm">Show Spam</label>
               </div>
               <div className="flex items-center gap-2">
-                <Button onClick={handleExport} size="sm">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
+                {can("issues.export") && (
+                  <Button onClick={handleExport} size="sm">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                )}
               
 
               <Button 
@@ -542,6 +624,9 @@ const IssuesManagement = () => {
                   setSearchTerm("");
                   setStatusFilter("all");
                   setCategoryFilter("all");
+                  setDetailFilters({});
+                  setWardFilter("all");
+                  setSlaFilter("all");
                   setShowSpam(false);
                   setSortBy("priority");
                 }}
@@ -550,6 +635,36 @@ const IssuesManagement = () => {
               </Button>
               </div>
             </div>
+            {filterFields.length > 0 && (
+              <div className="grid gap-4 md:grid-cols-4 mt-4 pt-4 border-t">
+                {filterFields.map((field) =>
+                  field.type === "select" || field.type === "yes_no" ? (
+                    <Select
+                      key={field.key}
+                      value={detailFilters[field.key] || "any"}
+                      onValueChange={(value) => setDetailFilters((prev) => ({ ...prev, [field.key]: value === "any" ? "" : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">{field.label}: any</SelectItem>
+                        {(field.type === "yes_no" ? ["Yes", "No"] : field.options ?? []).map((option) => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      key={field.key}
+                      placeholder={field.label}
+                      value={detailFilters[field.key] ?? ""}
+                      onChange={(e) => setDetailFilters((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                    />
+                  ),
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -582,7 +697,7 @@ const IssuesManagement = () => {
                   Array.from({ length: 10 }).map((_, index) => <IssueSkeleton key={index} />)
                 ) : filteredIssues.length > 0 ? (
                   filteredIssues.map((issue) => (
-                    <TableRow key={issue.id} className={issue.is_spam ? "opacity-50" : ""}>
+                    <TableRow key={issue.id} className={issue.is_spam || issue.duplicate_of ? "opacity-50" : ""}>
                       <TableCell>
                         <div className="space-y-2">
                           <div className="flex items-start justify-between">
@@ -590,11 +705,18 @@ const IssuesManagement = () => {
                               <div className="font-medium flex items-center gap-2">
                                 {issue.title}
                                 {issue.is_spam && <Badge variant="destructive" className="text-xs">SPAM</Badge>}
-                                {issue.duplicate_of && <Badge variant="outline" className="text-xs">DUPLICATE</Badge>}
+                                {issue.duplicate_of && <Badge variant="outline" className="text-xs">DUPLICATE OF #{issue.duplicate_of}</Badge>}
+                                {duplicateCounts[issue.id] && (
+                                  <Badge variant="secondary" className="text-xs gap-1">
+                                    <GitMerge className="h-3 w-3" />
+                                    {duplicateCounts[issue.id]} merged
+                                  </Badge>
+                                )}
                               </div>
                               <div className="text-sm text-muted-foreground line-clamp-2">
                                 {issue.description}
                               </div>
+                              <IssueDetailsSummary fields={getCategoryFields(findCategory(issue.category))} details={readDetails(issue.details)} />
                             </div>
                             <div className="text-right">
                               <div className="text-lg font-semibold text-primary">
@@ -625,13 +747,25 @@ const IssuesManagement = () => {
                       
                       <TableCell>
                         <div className="space-y-2">
-                          <Badge variant={getStatusBadgeVariant(issue.status)} className="gap-1">
+                          <Badge variant={STATUS_META[issue.status]?.badgeVariant ?? "outline"} className="gap-1">
                             {getStatusIcon(issue.status)}
-                            {issue.status.replace('_', ' ')}
+                            {getStatusLabel(issue.status)}
                           </Badge>
+                          <div>
+                            <span className={`inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs font-medium ${PRIORITY_META[issue.priority]?.className ?? ""}`}>
+                              <Flag className="h-3 w-3" />
+                              {PRIORITY_META[issue.priority]?.label ?? issue.priority}
+                            </span>
+                          </div>
+                          <SlaBadge issue={issue} now={now} />
                           {issue.response_time && (
+                            <div className="text-xs text-muted-foreground">
+                              First response: {formatInterval(issue.response_time)} ({formatInterval(issue.response_working_time)} working)
+                            </div>
+                          )}
+                          {issue.resolution_time && (
                             <div className="text-xs text-green-600 bg-green-50 px-2 py-1 rounded">
-                              Resolved in: {issue.response_time}
+                              Resolved in: {formatInterval(issue.resolution_time)} ({formatInterval(issue.resolution_working_time)} working)
                             </div>
                           )}
                           {issue.public_notes && (
@@ -649,6 +783,9 @@ const IssuesManagement = () => {
                             {issue.location_name || `${issue.latitude}, ${issue.longitude}`}
                           </span>
                         </div>
+                        {issue.ward && (
+                          <Badge variant="secondary" className="mt-1 text-xs">{issue.ward}</Badge>
+                        )}
                       </TableCell>
                       
                       <TableCell>
@@ -656,7 +793,7 @@ const IssuesManagement = () => {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => setSelectedImage(issue.image_url)}
+                            onClick={() => setMediaIssue(issue)}
                             className="h-8 w-8 p-0"
                           >
                             <Image className="h-4 w-4" />
@@ -685,46 +822,69 @@ const IssuesManagement = () => {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end" className="w-56">
-                            <DropdownMenuLabel>Status Management</DropdownMenuLabel>
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(issue.id, "new")}
-                            >
-                              <AlertTriangle className="h-4 w-4 mr-2" />
-                              Mark as New
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(issue.id, "in_progress")}
-                            >
-                              <Clock className="h-4 w-4 mr-2" />
-                              Mark as In Progress
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(issue.id, "resolved")}
-                            >
-                              <CheckCircle2 className="h-4 w-4 mr-2" />
-                              Mark as Resolved
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            
-                            <DropdownMenuLabel>Moderation</DropdownMenuLabel>
-                            <DropdownMenuItem
-                              onClick={() => handleSpamToggle(issue.id, !issue.is_spam)}
-                              className={issue.is_spam ? "text-green-600" : "text-red-600"}
-                            >
-                              <Shield className="h-4 w-4 mr-2" />
-                              {issue.is_spam ? "Unmark as Spam" : "Mark as Spam"}
-                            </DropdownMenuItem>
-                            
-                            <DropdownMenuItem
-                              onClick={() => {
-                                const assignTo = prompt("Assign to (enter name):");
-                                if (assignTo) handleAssignIssue(issue.id, assignTo);
-                              }}
-                            >
-                              <Users className="h-4 w-4 mr-2" />
-                              Assign Issue
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
+                            {can("issues.update_status", issue) && !issue.duplicate_of && getNextStatuses(issue.status).length > 0 && (
+                              <>
+                                <DropdownMenuLabel>Status Management</DropdownMenuLabel>
+                                {getNextStatuses(issue.status).map((next) => (
+                                  <DropdownMenuItem
+                                    key={next}
+                                    onClick={() => setStatusChange({ issueId: issue.id, from: issue.status, to: next })}
+                                  >
+                                    <span className="mr-2 flex h-4 w-4 items-center justify-center">{getStatusIcon(next)}</span>
+                                    Mark as {STATUS_META[next].label}
+                                  </DropdownMenuItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                              </>
+                            )}
+
+                            {can("issues.prioritize", issue) && !issue.duplicate_of && (
+                              <>
+                                <DropdownMenuLabel>Priority</DropdownMenuLabel>
+                                {ISSUE_PRIORITIES.filter((priority) => priority !== issue.priority).map((priority) => (
+                                  <DropdownMenuItem key={priority} onClick={() => handlePriorityChange(issue.id, priority)}>
+                                    <Flag className="h-4 w-4 mr-2" />
+                                    Set {PRIORITY_META[priority].label}
+                                  </DropdownMenuItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                              </>
+                            )}
+
+                            {(can("issues.moderate", issue) || can("issues.assign", issue) || can("issues.merge", issue)) && (
+                              <>
+                                <DropdownMenuLabel>Moderation</DropdownMenuLabel>
+                                {can("issues.moderate", issue) && (
+                                  <DropdownMenuItem
+                                    onClick={() => handleSpamToggle(issue.id, !issue.is_spam)}
+                                    className={issue.is_spam ? "text-green-600" : "text-red-600"}
+                                  >
+                                    <Shield className="h-4 w-4 mr-2" />
+                                    {issue.is_spam ? "Unmark as Spam" : "Mark as Spam"}
+                                  </DropdownMenuItem>
+                                )}
+
+                                {can("issues.assign", issue) && (
+                                  <DropdownMenuItem onClick={() => setAssignTarget(issue)}>
+                                    <Users className="h-4 w-4 mr-2" />
+                                    Assign Issue
+                                  </DropdownMenuItem>
+                                )}
+
+                                {can("issues.merge", issue) && (issue.duplicate_of ? (
+                                  <DropdownMenuItem onClick={() => handleUnmerge(issue.id)}>
+                                    <Unlink className="h-4 w-4 mr-2" />
+                                    Unlink Duplicate
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem onClick={() => setMergeSource(issue)}>
+                                    <GitMerge className="h-4 w-4 mr-2" />
+                                    Merge Duplicates...
+                                  </DropdownMenuItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                              </>
+                            )}
                             
                             <DropdownMenuLabel>Actions</DropdownMenuLabel>
                             <DropdownMenuItem
@@ -736,7 +896,7 @@ const IssuesManagement = () => {
                             
                             <DropdownMenuItem
                               onClick={() => {
-                                navigator.clipboard.writeText(`Issue #${issue.id}: ${issue.title}`);
+                                navigator.clipboard.writeText(`${window.location.origin}/issues/${issue.id}`);
                                 toast({ title: "Copied to clipboard" });
                               }}
                             >
@@ -761,26 +921,27 @@ const IssuesManagement = () => {
         </Card>
       </div>
 
-      {/* Image Modal */}
-      <Dialog open={!!selectedImage} onOpenChange={() => setSelectedImage(null)}>
-        <DialogContent className="sm:max-w-[500px]">
-          <DialogHeader>
-            <DialogTitle>Issue Image</DialogTitle>
-            <DialogDescription>
-              Uploaded image for this issue report
-            </DialogDescription>
-          </DialogHeader>
-          {selectedImage && (
-            <div className="flex justify-center">
-              <img
-                src={selectedImage}
-                alt="Issue"
-                className="max-w-full max-h-[400px] object-contain rounded-lg"
-              />
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      <MergeIssuesDialog
+        issue={mergeSource}
+        issues={issues}
+        onOpenChange={(open) => !open && setMergeSource(null)}
+      />
+
+      <AssignIssueDialog
+        issue={assignTarget}
+        onOpenChange={(open) => !open && setAssignTarget(null)}
+      />
+
+      <StatusChangeDialog
+        change={statusChange}
+        onOpenChange={(open) => !open && setStatusChange(null)}
+      />
+
+      <IssueMediaDialog
+        issue={mediaIssue}
+        canAddAfterPhotos={!!mediaIssue && can("issues.update_status", mediaIssue)}
+        onOpenChange={(open) => !open && setMediaIssue(null)}
+      />
     </>
   );
 };
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronUp, ExternalLink, Home, Inbox, KeyRound, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FollowedIssuesCard } from "@/components/FollowedIssuesCard";
+import { NotificationPreferencesCard } from "@/components/NotificationPreferencesCard";
+import { ReportFollowupForm } from "@/components/ReportFollowupForm";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceToken } from "@/lib/deviceIdentity";
+import { getThumbnailUrl } from "@/lib/imageProcessing";
+import { STATUS_META, getStatusLabel, isOpenStatus } from "@/lib/issueStatus";
+import { getSavedTrackingCodes, normalizeTrackingCode, saveTrackingCode } from "@/lib/reportReceipts";
+
+type MyReport = Database["public"]["Functions"]["list_my_reports"]["Returns"][number];
+
+const MyReports = () => {
+  const [reports, setReports] = useState<MyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [codeInput, setCodeInput] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const fetchReports = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_my_reports", {
+      device_token: getDeviceToken(),
+      tracking_codes: getSavedTrackingCodes(),
+    });
+
+    if (error) {
+      console.error("Error fetching my reports:", error);
+      toast({ title: "Error", description: "Failed to load your reports.", variant: "destructive" });
+    } else {
+      setReports(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handleTrackCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeTrackingCode(codeInput);
+    if (!code) {
+      toast({
+        title: "Invalid Code",
+        description: "Tracking codes look like CL-XXXXX-XXXXX.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const knownIds = new Set(reports.map((report) => report.issue_id));
+    const { data, error } = await supabase.rpc("list_my_reports", {
+      device_token: getDeviceToken(),
+      tracking_codes: [code],
+    });
+
+    if (error) {
+      console.error("Error looking up tracking code:", error);
+      toast({ title: "Error", description: "Failed to look up that code.", variant: "destructive" });
+      return;
+    }
+    if (!data?.some((report) => report.tracking_code === code)) {
+      toast({ title: "Not Found", description: "No report matches that tracking code.", variant: "destructive" });
+      return;
+    }
+
+    saveTrackingCode(code);
+    setCodeInput("");
+    await fetchReports();
+    const found = data.find((report) => report.tracking_code === code);
+    if (found && !knownIds.has(found.issue_id)) {
+      toast({ title: "Report Added", description: `Report #${found.issue_id} is now listed below.` });
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <div className="container mx-auto px-4 py-6 max-w-3xl">
+        <div className="flex items-center gap-2 mb-6">
+          <Button variant="outline" size="icon" asChild>
+            <Link to="/">
+              <Home className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl md:text-3xl font-bold">My Reports</h1>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Track Another Report
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTrackCode} className="flex gap-2">
+              <Input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                placeholder="CL-XXXXX-XXXXX"
+                className="font-mono uppercase"
+                autoComplete="off"
+              />
+              <Button type="submit" disabled={!codeInput.trim()}>Track</Button>
+            </form>
+            <p className="text-xs text-muted-foreground mt-2">
+              Reports sent from this device appear automatically. Enter the tracking code you were given to follow a report from another device.
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="mb-6">
+          <NotificationPreferencesCard />
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Inbox className="h-10 w-10 mx-auto mb-3" />
+            <p>You haven't submitted any reports from this device yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reports.map((report) => {
+              const expanded = expandedId === report.issue_id;
+              return (
+                <Card key={report.issue_id}>
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="flex gap-4">
+                      {report.image_url && (
+                        <img src={getThumbnailUrl(report.image_url)} alt={report.title} className="h-20 w-20 rounded-md object-cover flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <Badge className={STATUS_META[report.status]?.className}>{getStatusLabel(report.status)}</Badge>
+                          <Badge variant="secondary">{report.category}</Badge>
+                          <span className="text-xs text-muted-foreground">#{report.issue_id}</span>
+                        </div>
+                        <Link to={`/issues/${report.issue_id}`} className="font-semibold hover:underline flex items-center gap-1">
+                          {report.title}
+                          <ExternalLink className="h-3.5 w-3.5 text-muted-foreground" />
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          Reported {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                          {report.followups_count > 0 &&
+                            ` · ${report.followups_count} update${report.followups_count === 1 ? "" : "s"} from you`}
+                        </p>
+                      </div>
+                    </div>
+
+                    {report.duplicate_of && (
+                      <p className="text-sm text-amber-800">
+                        Merged into{" "}
+                        <Link to={`/issues/${report.duplicate_of}`} className="underline">
+                          issue #{report.duplicate_of}
+                        </Link>
+                        , which is where progress is tracked.
+                      </p>
+                    )}
+
+                    {report.public_notes && (
+                      <div className="rounded-md bg-muted p-3 text-sm">
+                        <p className="font-medium flex items-center gap-1.5 mb-1">
+                          <MessageSquare className="h-4 w-4" />
+                          Update from the City
+                        </p>
+                        <p className="text-gray-700 whitespace-pre-line">{report.public_notes}</p>
+                      </div>
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-0 flex items-center gap-1"
+                      onClick={() => setExpandedId(expanded ? null : report.issue_id)}
+                    >
+                      {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      {expanded ? "Hide progress" : "Show progress"}
+                    </Button>
+
+                    {expanded && (
+                      <div className="space-y-6 border-t pt-4">
+                        <StatusTimeline issueId={report.issue_id} refreshKey={report.status} />
+                        {isOpenStatus(report.status) && !report.duplicate_of && (
+                          <div>
+                            <p className="text-sm font-medium mb-2">Add more details</p>
+                            <ReportFollowupForm
+                              issueId={report.issue_id}
+                              trackingCode={report.tracking_code}
+                              onAdded={fetchReports}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-6">
+          <FollowedIssuesCard />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyReports;
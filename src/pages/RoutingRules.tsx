@@ -0,0 +1,428 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Building2,
+  FlaskConical,
+  Pencil,
+  Plus,
+  Route,
+  Trash2,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RoutingRuleDialog } from "@/components/RoutingRuleDialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+
+type RoutingRule = Tables<"routing_rules">;
+type Department = Tables<"departments">;
+type Team = Tables<"teams">;
+type RoutingPreview = Database["public"]["Functions"]["preview_routing"]["Returns"][number];
+
+const describeConditions = (rule: RoutingRule) => {
+  const conditions: string[] = [];
+  if (rule.category) conditions.push(rule.category);
+  if (rule.keywords?.length) conditions.push(`mentions ${rule.keywords.join(" / ")}`);
+  if (rule.min_latitude !== null) {
+    conditions.push(
+      `within ${rule.min_latitude.toFixed(3)}, ${rule.min_longitude.toFixed(3)} → ${rule.max_latitude.toFixed(3)}, ${rule.max_longitude.toFixed(3)}`,
+    );
+  }
+  return conditions.length > 0 ? conditions.join(" · ") : "Any report";
+};
+
+const RoutingRules = () => {
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RoutingRule | null>(null);
+  const [newDepartment, setNewDepartment] = useState("");
+  const [newTeam, setNewTeam] = useState("");
+  const [newTeamDepartment, setNewTeamDepartment] = useState("");
+  const [sampleSize, setSampleSize] = useState("200");
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [preview, setPreview] = useState<RoutingPreview[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+    [toast],
+  );
+
+  const fetchAll = useCallback(async () => {
+    const [rulesResult, departmentsResult, teamsResult] = await Promise.all([
+      supabase.from("routing_rules").select("*").order("position").order("created_at"),
+      supabase.from("departments").select("*").order("name"),
+      supabase.from("teams").select("*").order("name"),
+    ]);
+    setLoading(false);
+
+    const error = rulesResult.error || departmentsResult.error || teamsResult.error;
+    if (error) {
+      showError("Failed to load routing configuration.", error);
+      return;
+    }
+    setRules(rulesResult.data || []);
+    setDepartments(departmentsResult.data || []);
+    setTeams(teamsResult.data || []);
+  }, [showError]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const departmentName = useMemo(() => {
+    const names = new Map(departments.map((department) => [department.id, department.name]));
+    return (id: string | null) => (id ? names.get(id) ?? "Unknown department" : "Unrouted");
+  }, [departments]);
+
+  const teamName = (id: string | null) => teams.find((team) => team.id === id)?.name;
+
+  const moveRule = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+
+    const { error } = await supabase.rpc("reorder_routing_rules", {
+      rule_ids: reordered.map((rule) => rule.id),
+    });
+    if (error) showError("Failed to reorder rules.", error);
+    fetchAll();
+  };
+
+  const toggleRule = async (rule: RoutingRule, isActive: boolean) => {
+    const { error } = await supabase.from("routing_rules").update({ is_active: isActive }).eq("id", rule.id);
+    if (error) {
+      showError("Failed to update rule.", error);
+      return;
+    }
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+  };
+
+  const deleteRule = async (rule: RoutingRule) => {
+    if (!confirm(`Delete routing rule "${rule.name}"?`)) return;
+    const { error } = await supabase.from("routing_rules").delete().eq("id", rule.id);
+    if (error) {
+      showError("Failed to delete rule.", error);
+      return;
+    }
+    setRules((prev) => prev.filter((r) => r.id !== rule.id));
+  };
+
+  const addDepartment = async () => {
+    if (!newDepartment.trim()) return;
+    const { error } = await supabase.from("departments").insert({ name: newDepartment.trim() });
+    if (error) {
+      showError(error.message || "Failed to add department.", error);
+      return;
+    }
+    setNewDepartment("");
+    fetchAll();
+  };
+
+  const addTeam = async () => {
+    if (!newTeam.trim() || !newTeamDepartment) return;
+    const { error } = await supabase.from("teams").insert({ name: newTeam.trim(), department_id: newTeamDepartment });
+    if (error) {
+      showError(error.message || "Failed to add team.", error);
+      return;
+    }
+    setNewTeam("");
+    fetchAll();
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    const { data, error } = await supabase.rpc("preview_routing", {
+      sample_size: Number(sampleSize),
+      include_inactive: includeInactive,
+    });
+    setPreviewing(false);
+    if (error) {
+      showError("Failed to test routing rules.", error);
+      return;
+    }
+    setPreview(data || []);
+  };
+
+  const previewSummary = useMemo(() => {
+    if (!preview) return null;
+    const matchesByRule = preview.reduce((acc, row) => {
+      if (row.rule_id) acc[row.rule_id] = (acc[row.rule_id] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    return {
+      matchesByRule,
+      unmatched: preview.filter((row) => !row.rule_id).length,
+      changed: preview.filter((row) => row.rule_id && row.department_id !== row.current_department_id).length,
+    };
+  }, [preview]);
+
+  return (
+    <>
+      <div className="min-h-screen bg-muted/40 p-4 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/admin')}
+            className="flex items-center gap-2 hover:shadow-lg hover:scale-105 transition-transform duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <Button
+            onClick={() => {
+              setEditingRule(null);
+              setEditorOpen(true);
+            }}
+            disabled={departments.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <Route className="h-8 w-8 text-primary" />
+              Routing Rules
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              New reports are sent to the department of the first matching active rule, or else to their category's default department.
+            </p>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rules ({rules.length})</CardTitle>
+            <CardDescription>Evaluated top to bottom; use the arrows to change precedence.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Order</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Routes to</TableHead>
+                  <TableHead>Active</TableHead>
+                  {previewSummary && <TableHead>Test matches</TableHead>}
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">Loading rules...</TableCell>
+                  </TableRow>
+                ) : rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No routing rules yet. Reports go to their category's default department, or stay unrouted until a dispatcher assigns them.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map((rule, index) => (
+                    <TableRow key={rule.id} className={rule.is_active ? "" : "opacity-50"}>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <span className="w-6 text-sm text-muted-foreground">{index + 1}</span>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{rule.name}</div>
+                        <div className="text-xs text-muted-foreground">{describeConditions(rule)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{departmentName(rule.department_id)}</Badge>
+                        {rule.team_id && <span className="ml-2 text-xs text-muted-foreground">{teamName(rule.team_id)}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={rule.is_active} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                      </TableCell>
+                      {previewSummary && (
+                        <TableCell className="text-sm">{previewSummary.matchesByRule[rule.id] || 0}</TableCell>
+                      )}
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => {
+                              setEditingRule(rule);
+                              setEditorOpen(true);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => deleteRule(rule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="h-5 w-5" />
+                Departments & Teams
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                {departments.map((department) => (
+                  <div key={department.id} className="rounded-md border p-3">
+                    <div className="font-medium">{department.name}</div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {teams
+                        .filter((team) => team.department_id === department.id)
+                        .map((team) => <Badge key={team.id} variant="secondary">{team.name}</Badge>)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input placeholder="New department" value={newDepartment} onChange={(e) => setNewDepartment(e.target.value)} />
+                <Button variant="outline" onClick={addDepartment}>Add</Button>
+              </div>
+              <div className="flex gap-2">
+                <Select value={newTeamDepartment} onValueChange={setNewTeamDepartment}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Department" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input placeholder="New team" value={newTeam} onChange={(e) => setNewTeam(e.target.value)} />
+                <Button variant="outline" onClick={addTeam}>Add</Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5" />
+                Test Against Past Reports
+              </CardTitle>
+              <CardDescription>Shows where recent reports would be routed by the current rules. Nothing is changed.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <Select value={sampleSize} onValueChange={setSampleSize}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="50">Last 50 reports</SelectItem>
+                    <SelectItem value="200">Last 200 reports</SelectItem>
+                    <SelectItem value="1000">Last 1000 reports</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="include-inactive"
+                    checked={includeInactive}
+                    onCheckedChange={(checked) => setIncludeInactive(Boolean(checked))}
+                  />
+                  <Label htmlFor="include-inactive" className="font-normal">Include inactive rules</Label>
+                </div>
+                <Button onClick={runPreview} disabled={previewing}>
+                  {previewing ? "Testing..." : "Run Test"}
+                </Button>
+              </div>
+
+              {preview && previewSummary && (
+                <>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="rounded-md border p-2">
+                      <div className="text-2xl font-bold">{preview.length - previewSummary.unmatched}</div>
+                      <div className="text-xs text-muted-foreground">Matched</div>
+                    </div>
+                    <div className="rounded-md border p-2">
+                      <div className="text-2xl font-bold text-orange-500">{previewSummary.unmatched}</div>
+                      <div className="text-xs text-muted-foreground">No rule</div>
+                    </div>
+                    <div className="rounded-md border p-2">
+                      <div className="text-2xl font-bold text-blue-600">{previewSummary.changed}</div>
+                      <div className="text-xs text-muted-foreground">Different from today</div>
+                    </div>
+                  </div>
+                  <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+                    {preview.map((row) => (
+                      <div key={row.issue_id} className="p-2 text-sm flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="truncate">#{row.issue_id} {row.title}</p>
+                          <p className="text-xs text-muted-foreground">{row.category}</p>
+                        </div>
+                        <div className="text-right text-xs shrink-0">
+                          <div className={row.rule_id ? "font-medium" : "text-orange-500"}>
+                            {row.rule_id ? departmentName(row.department_id) : "No match"}
+                          </div>
+                          {row.rule_id && row.department_id !== row.current_department_id && (
+                            <div className="text-muted-foreground">now: {departmentName(row.current_department_id)}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <RoutingRuleDialog
+        open={editorOpen}
+        rule={editingRule}
+        departments={departments}
+        teams={teams}
+        nextPosition={rules.length + 1}
+        onOpenChange={setEditorOpen}
+        onSaved={fetchAll}
+      />
+    </>
+  );
+};
+
+export default RoutingRules;
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+
+type UnsubscribeState = "working" | "done" | "invalid";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const Unsubscribe = () => {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<UnsubscribeState>("working");
+
+  useEffect(() => {
+    if (!token || !UUID_PATTERN.test(token)) {
+      setState("invalid");
+      return;
+    }
+
+    const unsubscribe = async () => {
+      const { data, error } = await supabase.rpc("unsubscribe_notifications", { token });
+      if (error) {
+        console.error("Error unsubscribing:", error);
+      }
+      setState(data ? "done" : "invalid");
+    };
+
+    unsubscribe();
+  }, [token]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="text-center max-w-md">
+        <MailX className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+        {state === "working" && <h1 className="text-2xl font-bold">Unsubscribing...</h1>}
+        {state === "done" && (
+          <>
+            <h1 className="mb-2 text-2xl font-bold">You're unsubscribed</h1>
+            <p className="mb-6 text-gray-600">
+              We won't email you about your reports any more. You can turn emails back on from My Reports.
+            </p>
+          </>
+        )}
+        {state === "invalid" && (
+          <>
+            <h1 className="mb-2 text-2xl font-bold">Link not recognised</h1>
+            <p className="mb-6 text-gray-600">This unsubscribe link is invalid or has expired.</p>
+          </>
+        )}
+        {state !== "working" && (
+          <Button asChild>
+            <Link to="/my-reports">Go to My Reports</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Unsubscribe;
@@ -9,10 +9,17 @@ import { Button } from "@/components/ui/button";
 import { MapPin, Calendar, Image, Search, TrendingUp, Filter, Eye, Download, Home } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { IssueUpvote } from "@/components/IssueUpvote";
+import { FollowButton } from "@/components/FollowButton";
+import { IssueGalleryDialog } from "@/components/IssueGallery";
+import { getThumbnailUrl } from "@/lib/imageProcessing";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+import { detailColumns, getCategoryFields, readDetails } from "@/lib/categoryFields";
 import * as XLSX from 'xlsx';
 import heroImage from "@/assets/hero-cityscape.jpg";
 import { Link } from "react-router-dom";
+import { ISSUE_STATUSES, STATUS_META, getStatusLabel } from "@/lib/issueStatus";
+import { formatInterval } from "@/lib/sla";
 
 const ViewReports: React.FC = () => {
   const [reports, setReports] = useState<any[]>([]);
@@ -23,7 +30,10 @@ const ViewReports: React.FC = () => {
   const [statusFilter, setStatusFilter] = useState("all");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
+  const [mediaCounts, setMediaCounts] = useState<Record<number, number>>({});
+  const [galleryIssue, setGalleryIssue] = useState<{ id: number; title: string } | null>(null);
   const { toast } = useToast();
+  const { categories, findCategory } = useCategories();
 
   useEffect(() => {
     const fetchReports = async () => {
@@ -32,12 +42,22 @@ const ViewReports: React.FC = () => {
           .from("issues")
           .select("*")
           .eq("is_spam", false) // Don't show spam issues to public
+          .is("duplicate_of", null) // Merged duplicates are represented by their canonical issue
           .order("created_at", { ascending: false });
 
         if (error) {
           throw error;
         }
         setReports(data);
+
+        const { data: counts, error: countsError } = await supabase.rpc("get_issue_media_counts", {
+          issue_ids: data.map((report) => report.id),
+        });
+        if (countsError) {
+          console.error("Error fetching media counts:", countsError);
+        } else {
+          setMediaCounts(Object.fromEntries((counts || []).map((row) => [row.issue_id, row.media_count])));
+        }
       } catch (error: any) {
         setError(error.message);
       } finally {
@@ -64,6 +84,8 @@ const ViewReports: React.FC = () => {
               title: "New Issue Reported",
               description: `${payload.new.title} in ${payload.new.category}`,
             });
+          } else if (payload.eventType === 'UPDATE' && payload.new.duplicate_of) {
+            setReports(prev => prev.filter(report => report.id !== payload.new.id));
           } else if (payload.eventType === 'UPDATE') {
             setReports(prev => prev.map(report => 
               report.id === payload.new.id ? payload.new : report
@@ -110,7 +132,7 @@ const ViewReports: React.FC = () => {
     setFilteredReports(filtered);
   }, [reports, searchTerm, statusFilter, categoryFilter, sortBy]);
 
-  const uniqueCategories = [...new Set(reports.map(r => r.category))];
+  const uniqueCategories = [...new Set([...categories.map(c => c.name), ...reports.map(r => r.category)])];
 
   const handleExport = () => {
     if (filteredReports.length === 0) {
@@ -127,7 +149,7 @@ const ViewReports: React.FC = () => {
       Title: report.title,
       Description: report.description,
       Category: report.category,
-      Status: report.status,
+      Status: getStatusLabel(report.status),
       "Created At": new Date(report.created_at).toLocaleString(),
       Location: report.location_name,
       Address: report.street_address,
@@ -137,7 +159,9 @@ const ViewReports: React.FC = () => {
       "Image URL": report.image_url,
       "Public Notes": report.public_notes,
       "Assigned To": report.assigned_to,
-      "Response Time": report.response_time,
+      "Response Time": formatInterval(report.response_time),
+      "Resolution Time": formatInterval(report.resolution_time),
+      ...detailColumns(getCategoryFields(findCategory(report.category)), readDetails(report.details)),
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(reportData);
@@ -208,9 +232,9 @@ const ViewReports: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
+                  {ISSUE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{STATUS_META[status].label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -294,16 +318,19 @@ const ViewReports: React.FC = () => {
               {filteredReports.map((report) => (
                 <Card key={report.id} className="overflow-hidden shadow-md hover:shadow-xl transition-all duration-300 flex flex-col group border-0">
                   {report.image_url && (
-                    <div className="relative w-full h-36 md:h-48 overflow-hidden">
+                    <div
+                      className="relative w-full h-36 md:h-48 overflow-hidden cursor-pointer"
+                      onClick={() => setGalleryIssue({ id: report.id, title: report.title })}
+                    >
                       <img 
-                        src={report.image_url} 
+                        src={getThumbnailUrl(report.image_url)} 
                         alt={report.title} 
                         className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300" 
                       />
                       <div className="absolute top-3 right-3">
                         <Badge variant="secondary" className="bg-black/50 text-white border-0">
                           <Image className="h-3.5 w-3.5 mr-1.5" />
-                          Evidence
+                          {mediaCounts[report.id] > 1 ? `${mediaCounts[report.id]} files` : "Evidence"}
                         </Badge>
                       </div>
                     </div>
@@ -312,7 +339,9 @@ const ViewReports: React.FC = () => {
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between gap-4">
                       <CardTitle className="text-lg font-bold text-gray-800 line-clamp-2 flex-1">
-                        {report.title}
+                        <Link to={`/issues/${report.id}`} className="hover:text-primary hover:underline">
+                          {report.title}
+                        </Link>
                       </CardTitle>
                       <div className="text-right flex-shrink-0">
                         <div className="text-xl font-bold text-primary">
@@ -333,10 +362,8 @@ const ViewReports: React.FC = () => {
                     
                     <div className="flex flex-wrap gap-2">
                       <Badge variant="secondary">{report.category}</Badge>
-                      <Badge 
-                        className={report.status === 'resolved' ? "bg-green-100 text-green-800" : report.status === 'in_progress' ? "bg-blue-100 text-blue-800" : "bg-red-100 text-red-800"}
-                      >
-                        {report.status === 'in_progress' ? 'In Progress' : report.status.charAt(0).toUpperCase() + report.status.slice(1)}
+                      <Badge className={STATUS_META[report.status]?.className}>
+                        {getStatusLabel(report.status)}
                       </Badge>
                       {report.priority_score > 5 && (
                         <Badge variant="outline" className="text-orange-600 border-orange-600">
@@ -359,14 +386,17 @@ const ViewReports: React.FC = () => {
                   
                   {/* Community Engagement */}
                   <div className="flex items-center justify-between p-4 bg-gray-50 border-t">
-                      <IssueUpvote 
-                        issueId={report.id}
-                        initialUpvotes={report.upvotes_count || 0}
-                      />
+                      <div className="flex items-center gap-2">
+                        <IssueUpvote 
+                          issueId={report.id}
+                          initialUpvotes={report.upvotes_count || 0}
+                        />
+                        <FollowButton issueId={report.id} />
+                      </div>
                       
-                      {report.response_time && report.status === 'resolved' && (
+                      {report.resolution_time && report.status === 'resolved' && (
                         <div className="text-xs text-green-600">
-                          Resolved in {report.response_time}
+                          Resolved in {formatInterval(report.resolution_time)}
                         </div>
                       )}
                   </div>
@@ -400,6 +430,11 @@ const ViewReports: React.FC = () => {
           )}
         </div>
       </main>
+      <IssueGalleryDialog
+        issueId={galleryIssue?.id ?? null}
+        title={galleryIssue?.title ?? ""}
+        onOpenChange={(open) => !open && setGalleryIssue(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { MapContainer } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { ArrowLeft, FileUp, Map as MapIcon, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { WardBoundariesLayer } from "@/components/WardBoundariesLayer";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { Ward, useWards } from "@/hooks/useWards";
+import { DEFAULT_MAP_CENTER } from "@/lib/geo";
+import { getErrorMessage } from "@/lib/reportSubmission";
+
+const Wards = () => {
+  const { wards, loading, refresh } = useWards();
+  const [file, setFile] = useState<File | null>(null);
+  const [nameProperty, setNameProperty] = useState("name");
+  const [codeProperty, setCodeProperty] = useState("");
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [reassigning, setReassigning] = useState(false);
+  const [selectedWardId, setSelectedWardId] = useState<string | null>(null);
+  const [mapVersion, setMapVersion] = useState(0);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const reload = async () => {
+    await refresh();
+    setMapVersion((version) => version + 1);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    let geojson: Json;
+    try {
+      geojson = JSON.parse(await file.text());
+    } catch (error) {
+      showError("The file isn't valid GeoJSON.", error);
+      return;
+    }
+
+    setImporting(true);
+    const { data, error } = await supabase.rpc("import_wards", {
+      geojson,
+      name_property: nameProperty.trim() || "name",
+      code_property: codeProperty.trim() || null,
+      replace_existing: replaceExisting,
+    });
+    setImporting(false);
+
+    if (error) {
+      showError(getErrorMessage(error), error);
+      return;
+    }
+
+    const result = data?.[0];
+    toast({
+      title: "Wards Imported",
+      description: `${result?.wards_imported ?? 0} wards imported; ${result?.issues_assigned ?? 0} issues are now in a ward.`,
+    });
+    setFile(null);
+    reload();
+  };
+
+  const handleReassign = async () => {
+    setReassigning(true);
+    const { data, error } = await supabase.rpc("backfill_issue_wards");
+    setReassigning(false);
+
+    if (error) {
+      showError("Failed to reassign issues to wards.", error);
+      return;
+    }
+    toast({ title: "Issues Reassigned", description: `${data} issues are in a ward.` });
+  };
+
+  const deleteWard = async (ward: Ward) => {
+    if (!confirm(`Delete ward "${ward.name}"? Its issues will no longer be assigned to a ward.`)) return;
+    const { error } = await supabase.from("wards").delete().eq("id", ward.id);
+    if (error) {
+      showError("Failed to delete ward.", error);
+      return;
+    }
+    if (selectedWardId === ward.id) setSelectedWardId(null);
+    reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/40 p-4 sm:p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/admin')}
+          className="flex items-center gap-2 hover:shadow-lg hover:scale-105 transition-transform duration-200"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Button>
+        <Button variant="outline" onClick={handleReassign} disabled={reassigning || wards.length === 0}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${reassigning ? "animate-spin" : ""}`} />
+          Reassign Issues
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <MapIcon className="h-8 w-8 text-primary" />
+            Wards & Districts
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Every report is placed in the ward that contains it, for filtering and analytics.
+          </p>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              Import Boundaries
+            </CardTitle>
+            <CardDescription>
+              A GeoJSON FeatureCollection of Polygon or MultiPolygon features in WGS84 (EPSG:4326).
+              Wards with the same name are updated in place.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input type="file" accept=".geojson,.json,application/geo+json,application/json" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name-property">Name property</Label>
+                <Input id="name-property" value={nameProperty} onChange={(e) => setNameProperty(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="code-property">Code property (optional)</Label>
+                <Input id="code-property" value={codeProperty} onChange={(e) => setCodeProperty(e.target.value)} placeholder="e.g. ward_code" />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="replace-existing" checked={replaceExisting} onCheckedChange={(checked) => setReplaceExisting(Boolean(checked))} />
+              <Label htmlFor="replace-existing" className="font-normal">Remove wards that aren't in this file</Label>
+            </div>
+            <Button onClick={handleImport} disabled={!file || importing}>
+              {importing ? "Importing..." : "Import"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="overflow-hidden">
+          <div className="relative z-0 h-80">
+            <MapContainer center={DEFAULT_MAP_CENTER} zoom={11} style={{ height: "100%", width: "100%" }}>
+              <MapTileLayer />
+              <WardBoundariesLayer selectedWardId={selectedWardId} version={mapVersion} fitToBounds />
+            </MapContainer>
+          </div>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Wards ({wards.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">Loading wards...</TableCell>
+                </TableRow>
+              ) : wards.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    No wards yet. Import a boundary file to start placing reports in wards.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                wards.map((ward) => (
+                  <TableRow
+                    key={ward.id}
+                    className={`cursor-pointer ${ward.id === selectedWardId ? "bg-muted" : ""}`}
+                    onClick={() => setSelectedWardId(ward.id === selectedWardId ? null : ward.id)}
+                  >
+                    <TableCell className="font-medium">{ward.name}</TableCell>
+                    <TableCell>{ward.code && <Badge variant="outline">{ward.code}</Badge>}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteWard(ward);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Wards;
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CalendarClock, Pencil } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WorkingCalendarDialog } from "@/components/WorkingCalendarDialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatWorkDays } from "@/lib/workingCalendar";
+
+type Department = Tables<"departments">;
+type DepartmentCalendar = Tables<"department_calendars">;
+type DepartmentHoliday = Tables<"department_holidays">;
+
+const WorkingCalendars = () => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [calendars, setCalendars] = useState<DepartmentCalendar[]>([]);
+  const [holidays, setHolidays] = useState<DepartmentHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+    [toast],
+  );
+
+  const fetchCalendars = useCallback(async () => {
+    const [departmentsResult, calendarsResult] = await Promise.all([
+      supabase.from("departments").select("*").order("name"),
+      supabase.from("department_calendars").select("*"),
+    ]);
+    if (departmentsResult.error || calendarsResult.error) {
+      showError("Failed to load working calendars.", departmentsResult.error ?? calendarsResult.error);
+      return;
+    }
+    setDepartments(departmentsResult.data || []);
+    setCalendars(calendarsResult.data || []);
+  }, [showError]);
+
+  const fetchHolidays = useCallback(async () => {
+    const { data, error } = await supabase.from("department_holidays").select("*").order("holiday_date");
+    if (error) {
+      showError("Failed to load holidays.", error);
+      return;
+    }
+    setHolidays(data || []);
+  }, [showError]);
+
+  useEffect(() => {
+    Promise.all([fetchCalendars(), fetchHolidays()]).finally(() => setLoading(false));
+  }, [fetchCalendars, fetchHolidays]);
+
+  const calendarFor = (departmentId: string) => calendars.find((calendar) => calendar.department_id === departmentId) ?? null;
+  const holidaysFor = (departmentId: string) => holidays.filter((holiday) => holiday.department_id === departmentId);
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <>
+      <div className="min-h-screen bg-muted/40 p-4 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/admin')}
+            className="flex items-center gap-2 hover:shadow-lg hover:scale-105 transition-transform duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <CalendarClock className="h-8 w-8 text-primary" />
+              Working Calendars
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Response and resolution times are recorded in working time as well as on the clock, so crews aren't
+              measured against weekends and holidays.
+            </p>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Departments ({departments.length})</CardTitle>
+            <CardDescription>
+              Times are worked out when a report changes status; changing a calendar doesn't rewrite times already recorded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Days</TableHead>
+                  <TableHead>Upcoming holidays</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">Loading calendars...</TableCell>
+                  </TableRow>
+                ) : departments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">No departments yet.</TableCell>
+                  </TableRow>
+                ) : (
+                  departments.map((department) => {
+                    const calendar = calendarFor(department.id);
+                    const upcoming = holidaysFor(department.id).filter((holiday) => holiday.holiday_date >= today);
+                    return (
+                      <TableRow key={department.id}>
+                        <TableCell className="font-medium">{department.name}</TableCell>
+                        <TableCell className="text-sm">
+                          {calendar ? (
+                            <>
+                              {calendar.work_start.slice(0, 5)}–{calendar.work_end.slice(0, 5)}
+                              <span className="text-muted-foreground"> {calendar.timezone}</span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">Around the clock</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{calendar ? formatWorkDays(calendar.work_days) : "Every day"}</TableCell>
+                        <TableCell>
+                          {upcoming.length > 0 ? (
+                            <Badge variant="outline" title={upcoming.map((holiday) => `${holiday.holiday_date} ${holiday.name}`).join("\n")}>
+                              {upcoming.length} from {upcoming[0].holiday_date}
+                            </Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">None</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingDepartment(department)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <WorkingCalendarDialog
+        department={editingDepartment}
+        calendar={editingDepartment ? calendarFor(editingDepartment.id) : null}
+        holidays={editingDepartment ? holidaysFor(editingDepartment.id) : []}
+        onOpenChange={(open) => !open && setEditingDepartment(null)}
+        onSaved={fetchCalendars}
+        onHolidaysChanged={fetchHolidays}
+      />
+    </>
+  );
+};
+
+export default WorkingCalendars;
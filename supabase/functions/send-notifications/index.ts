@@ -0,0 +1,162 @@
+// Drains the notification outbox: escalates issues that have passed their
+// SLA due date, then claims pending email and web push deliveries, sends
+// them and records the outcome. Meant to be invoked on a schedule (e.g.
+// every minute) with the service role key.
+//
+// Local testing: `supabase start` runs Inbucket as an SMTP catch-all, so
+// serve this with SMTP_HOST=host.docker.internal SMTP_PORT=54325 and read
+// the messages at http://localhost:54324. See .env.example for all settings.
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import webpush from "npm:web-push@3.6.7";
+
+interface Delivery {
+  delivery_id: number;
+  channel: "email" | "push";
+  recipient_id: string;
+  email: string | null;
+  unsubscribe_token: string;
+  title: string;
+  body: string;
+  url: string | null;
+}
+
+const BATCH_SIZE = 50;
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const siteUrl = (Deno.env.get("SITE_URL") ?? "http://localhost:8080").replace(/\/$/, "");
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+if (vapidPublicKey && vapidPrivateKey) {
+  webpush.setVapidDetails(Deno.env.get("VAPID_SUBJECT") ?? `mailto:no-reply@${new URL(siteUrl).hostname}`, vapidPublicKey, vapidPrivateKey);
+}
+
+const createSmtpClient = () => {
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) return null;
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASS");
+  return new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username && password ? { username, password } : undefined,
+    },
+  });
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const sendEmail = async (smtp: SMTPClient | null, delivery: Delivery) => {
+  if (!smtp) throw new Error("SMTP is not configured");
+  if (!delivery.email) throw new Error("Recipient has no email address");
+
+  const link = `${siteUrl}${delivery.url ?? "/my-reports"}`;
+  const unsubscribeLink = `${siteUrl}/unsubscribe/${delivery.unsubscribe_token}`;
+
+  await smtp.send({
+    from: Deno.env.get("SMTP_FROM") ?? "CiviLink <no-reply@civilink.local>",
+    to: delivery.email,
+    subject: delivery.title,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeLink}>`,
+    },
+    content: `${delivery.body}\n\nView your report: ${link}\n\nTo stop these emails, visit ${unsubscribeLink}`,
+    html: `
+      <p>${escapeHtml(delivery.body)}</p>
+      <p><a href="${link}">View your report</a></p>
+      <p style="color:#888;font-size:12px">
+        You're receiving this because you asked for updates on a CiviLink report.
+        <a href="${unsubscribeLink}">Unsubscribe</a>
+      </p>
+    `,
+  });
+};
+
+const sendPush = async (delivery: Delivery) => {
+  if (!vapidPublicKey || !vapidPrivateKey) throw new Error("VAPID keys are not configured");
+
+  const { data: subscriptions, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("recipient_id", delivery.recipient_id);
+  if (error) throw error;
+  if (!subscriptions?.length) throw new Error("Recipient has no push subscriptions");
+
+  const payload = JSON.stringify({ title: delivery.title, body: delivery.body, url: delivery.url ?? "/my-reports" });
+  let delivered = 0;
+  let lastError: unknown = null;
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+      );
+      delivered++;
+    } catch (error) {
+      // The browser dropped the subscription; forget it so we stop trying
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+      }
+      lastError = error;
+    }
+  }
+
+  if (delivered === 0) throw lastError ?? new Error("No push subscription accepted the message");
+};
+
+serve(async (req) => {
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+  }
+
+  // A failed escalation pass shouldn't hold up notifications already queued
+  const { data: escalated, error: escalationError } = await supabase.rpc("escalate_overdue_issues");
+  if (escalationError) console.error("Error escalating overdue issues:", escalationError);
+
+  const { data: deliveries, error } = await supabase.rpc("claim_notification_deliveries", { batch_size: BATCH_SIZE });
+  if (error) {
+    console.error("Error claiming deliveries:", error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+  }
+
+  const claimed = (deliveries ?? []) as Delivery[];
+  const smtp = claimed.some((delivery) => delivery.channel === "email") ? createSmtpClient() : null;
+  let sent = 0;
+
+  for (const delivery of claimed) {
+    try {
+      if (delivery.channel === "email") {
+        await sendEmail(smtp, delivery);
+      } else {
+        await sendPush(delivery);
+      }
+      await supabase.rpc("complete_notification_delivery", { p_delivery_id: delivery.delivery_id, succeeded: true });
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending ${delivery.channel} delivery ${delivery.delivery_id}:`, sendError);
+      await supabase.rpc("complete_notification_delivery", {
+        p_delivery_id: delivery.delivery_id,
+        succeeded: false,
+        error_message: sendError instanceof Error ? sendError.message : String(sendError),
+      });
+    }
+  }
+
+  await smtp?.close();
+
+  return new Response(JSON.stringify({ escalated: escalated ?? 0, claimed: claimed.length, sent }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
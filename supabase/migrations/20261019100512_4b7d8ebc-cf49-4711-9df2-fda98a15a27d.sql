@@ -0,0 +1,80 @@
+-- Great-circle distance in metres between two WGS84 points
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  lat1 DOUBLE PRECISION,
+  lng1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 6371000 * 2 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ))
+$$;
+
+-- The return type changes, so the old signature has to go first
+DROP FUNCTION IF EXISTS public.find_similar_issues(TEXT, TEXT, TEXT, FLOAT);
+
+-- Find open issues in the same category that look like the report being
+-- written: either the text is similar or it was reported close by.
+CREATE OR REPLACE FUNCTION public.find_similar_issues(
+  input_title TEXT,
+  input_description TEXT,
+  input_category TEXT,
+  similarity_threshold FLOAT DEFAULT 0.3,
+  input_latitude DOUBLE PRECISION DEFAULT NULL,
+  input_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_meters DOUBLE PRECISION DEFAULT 150
+)
+RETURNS TABLE(
+  issue_id BIGINT,
+  title TEXT,
+  similarity_score FLOAT,
+  distance_meters FLOAT,
+  image_url TEXT,
+  status TEXT,
+  upvotes_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.title,
+      GREATEST(
+        similarity(i.title, input_title),
+        similarity(i.description, input_description)
+      )::FLOAT AS sim_score,
+      CASE
+        WHEN input_latitude IS NULL OR input_longitude IS NULL THEN NULL
+        ELSE public.distance_meters(input_latitude, input_longitude, i.latitude, i.longitude)
+      END::FLOAT AS dist,
+      i.image_url,
+      i.status,
+      i.upvotes_count,
+      i.created_at
+    FROM public.issues i
+    WHERE i.category = input_category
+      AND i.is_spam = false
+      AND i.duplicate_of IS NULL
+      AND i.status <> 'resolved'
+  )
+  SELECT c.id, c.title, c.sim_score, c.dist, c.image_url, c.status, c.upvotes_count, c.created_at
+  FROM candidates c
+  WHERE c.sim_score > similarity_threshold
+     OR c.dist <= radius_meters
+  -- Nearby reports count as a strong match even when worded differently
+  ORDER BY c.sim_score + CASE WHEN c.dist <= radius_meters THEN 1 - c.dist / radius_meters ELSE 0 END DESC
+  LIMIT 5;
+END;
+$$;
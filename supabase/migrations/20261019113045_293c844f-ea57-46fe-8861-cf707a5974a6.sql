@@ -0,0 +1,96 @@
+-- Merge duplicate reports into a canonical issue.
+-- Upvotes are re-cast on the canonical issue (one per voter) so the
+-- upvotes_count trigger keeps both sides of the merge accurate.
+CREATE OR REPLACE FUNCTION public.merge_issues(
+  canonical_id BIGINT,
+  duplicate_ids BIGINT[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  canonical public.issues%ROWTYPE;
+  merged_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge issues';
+  END IF;
+
+  SELECT * INTO canonical FROM public.issues WHERE id = canonical_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % does not exist', canonical_id;
+  END IF;
+  IF canonical.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Issue % is already a duplicate of %', canonical_id, canonical.duplicate_of;
+  END IF;
+
+  duplicate_ids := array_remove(duplicate_ids, canonical_id);
+  IF coalesce(array_length(duplicate_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Children of the issues being merged follow them to the new canonical
+  UPDATE public.issues
+  SET duplicate_of = canonical_id
+  WHERE duplicate_of = ANY(duplicate_ids);
+
+  INSERT INTO public.issue_upvotes (issue_id, user_ip, created_at)
+  SELECT canonical_id, u.user_ip, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids)
+  GROUP BY u.user_ip
+  ON CONFLICT (issue_id, user_ip) DO NOTHING;
+
+  DELETE FROM public.issue_upvotes WHERE issue_id = ANY(duplicate_ids);
+
+  UPDATE public.issues
+  SET duplicate_of = canonical_id,
+      status = canonical.status
+  WHERE id = ANY(duplicate_ids);
+
+  GET DIAGNOSTICS merged_count = ROW_COUNT;
+  RETURN merged_count;
+END;
+$$;
+
+-- Detach a duplicate again. Moved upvotes stay on the canonical issue.
+CREATE OR REPLACE FUNCTION public.unmerge_issue(issue_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can unmerge issues';
+  END IF;
+
+  UPDATE public.issues SET duplicate_of = NULL WHERE id = unmerge_issue.issue_id;
+END;
+$$;
+
+-- Keep duplicates in step with their canonical issue
+CREATE OR REPLACE FUNCTION public.cascade_status_to_duplicates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.issues
+  SET status = NEW.status
+  WHERE duplicate_of = NEW.id
+    AND status IS DISTINCT FROM NEW.status;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cascade_status_to_duplicates_trigger
+  AFTER UPDATE OF status ON public.issues
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.cascade_status_to_duplicates();
+
+CREATE INDEX idx_issues_duplicate_of ON public.issues(duplicate_of) WHERE duplicate_of IS NOT NULL;
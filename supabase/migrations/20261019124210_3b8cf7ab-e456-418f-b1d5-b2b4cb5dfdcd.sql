@@ -0,0 +1,187 @@
+-- Voter identity for upvotes: signed-in citizens vote as themselves,
+-- anonymous visitors with a persistent device token. IP addresses are no
+-- longer collected; existing IP-based votes are kept as legacy rows.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.issue_upvotes
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN voter_token_hash TEXT,
+ALTER COLUMN user_ip DROP NOT NULL,
+ADD CONSTRAINT issue_upvotes_has_identity
+  CHECK (user_id IS NOT NULL OR voter_token_hash IS NOT NULL OR user_ip IS NOT NULL);
+
+CREATE UNIQUE INDEX issue_upvotes_issue_user_key
+  ON public.issue_upvotes(issue_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX issue_upvotes_issue_voter_token_key
+  ON public.issue_upvotes(issue_id, voter_token_hash) WHERE voter_token_hash IS NOT NULL;
+
+-- Device tokens are only ever stored hashed
+CREATE OR REPLACE FUNCTION public.hash_device_token(token TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(token, 'sha256'), 'hex')
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_device_token(token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF token IS NULL OR token !~ '^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'A valid device token is required';
+  END IF;
+END;
+$$;
+
+-- Votes now go through the functions below, which derive the identity
+-- server-side instead of trusting whatever the client inserts.
+DROP POLICY IF EXISTS "Anyone can create upvotes" ON public.issue_upvotes;
+DROP POLICY IF EXISTS "Anyone can view upvotes" ON public.issue_upvotes;
+
+CREATE POLICY "Admins can view upvotes"
+ON public.issue_upvotes
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.has_upvoted(p_issue_id BIGINT, device_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issue_upvotes
+    WHERE issue_id = p_issue_id
+      AND (
+        (auth.uid() IS NOT NULL AND user_id = auth.uid())
+        OR (device_token IS NOT NULL AND voter_token_hash = public.hash_device_token(device_token))
+      )
+  )
+$$;
+
+-- Returns false when this voter had already upvoted the issue
+CREATE OR REPLACE FUNCTION public.cast_upvote(p_issue_id BIGINT, device_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    PERFORM public.validate_device_token(device_token);
+  END IF;
+
+  -- A signed-in citizen who already voted anonymously on this device still
+  -- only gets one vote. Signed-in votes don't record the device, so after
+  -- signing out the same device can vote once more anonymously.
+  IF public.has_upvoted(p_issue_id, device_token) THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.issue_upvotes (issue_id, user_id)
+    VALUES (p_issue_id, auth.uid())
+    ON CONFLICT (issue_id, user_id) WHERE user_id IS NOT NULL DO NOTHING;
+  ELSE
+    INSERT INTO public.issue_upvotes (issue_id, voter_token_hash)
+    VALUES (p_issue_id, public.hash_device_token(device_token))
+    ON CONFLICT (issue_id, voter_token_hash) WHERE voter_token_hash IS NOT NULL DO NOTHING;
+  END IF;
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.retract_upvote(p_issue_id BIGINT, device_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.issue_upvotes
+  WHERE issue_id = p_issue_id
+    AND (
+      (auth.uid() IS NOT NULL AND user_id = auth.uid())
+      OR (device_token IS NOT NULL AND voter_token_hash = public.hash_device_token(device_token))
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Re-cast votes per identity now that there is more than one kind
+CREATE OR REPLACE FUNCTION public.merge_issues(
+  canonical_id BIGINT,
+  duplicate_ids BIGINT[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  canonical public.issues%ROWTYPE;
+  merged_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge issues';
+  END IF;
+
+  SELECT * INTO canonical FROM public.issues WHERE id = canonical_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % does not exist', canonical_id;
+  END IF;
+  IF canonical.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Issue % is already a duplicate of %', canonical_id, canonical.duplicate_of;
+  END IF;
+
+  duplicate_ids := array_remove(duplicate_ids, canonical_id);
+  IF coalesce(array_length(duplicate_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Children of the issues being merged follow them to the new canonical
+  UPDATE public.issues
+  SET duplicate_of = canonical_id
+  WHERE duplicate_of = ANY(duplicate_ids);
+
+  INSERT INTO public.issue_upvotes (issue_id, user_id, created_at)
+  SELECT canonical_id, u.user_id, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.user_id IS NOT NULL
+  GROUP BY u.user_id
+  ON CONFLICT (issue_id, user_id) WHERE user_id IS NOT NULL DO NOTHING;
+
+  INSERT INTO public.issue_upvotes (issue_id, voter_token_hash, created_at)
+  SELECT canonical_id, u.voter_token_hash, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.voter_token_hash IS NOT NULL
+  GROUP BY u.voter_token_hash
+  ON CONFLICT (issue_id, voter_token_hash) WHERE voter_token_hash IS NOT NULL DO NOTHING;
+
+  INSERT INTO public.issue_upvotes (issue_id, user_ip, created_at)
+  SELECT canonical_id, u.user_ip, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.user_ip IS NOT NULL
+  GROUP BY u.user_ip
+  ON CONFLICT (issue_id, user_ip) DO NOTHING;
+
+  DELETE FROM public.issue_upvotes WHERE issue_id = ANY(duplicate_ids);
+
+  UPDATE public.issues
+  SET duplicate_of = canonical_id,
+      status = canonical.status
+  WHERE id = ANY(duplicate_ids);
+
+  GET DIAGNOSTICS merged_count = ROW_COUNT;
+  RETURN merged_count;
+END;
+$$;
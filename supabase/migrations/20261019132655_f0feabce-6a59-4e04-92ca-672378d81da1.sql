@@ -0,0 +1,18 @@
+-- Admin checks in the app go through this function; keep its definition in
+-- migrations so it is derived from user_roles and nothing else.
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'admin')
+$$;
+
+-- Roles are granted by other admins only, never self-assigned
+CREATE POLICY "Admins can manage roles"
+ON public.user_roles
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,6 @@
+-- New staff roles. Enum values can't be used in the transaction that adds
+-- them, so the policies using them live in the next migration.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'dispatcher';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'department_head';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'field_crew';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'viewer';
@@ -0,0 +1,258 @@
+-- Departments that issues belong to and staff work for
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view departments"
+ON public.departments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage departments"
+ON public.departments
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Department heads and field crews belong to a department; a user can hold
+-- the same role in more than one department.
+ALTER TABLE public.user_roles
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+DROP CONSTRAINT IF EXISTS user_roles_user_id_role_key;
+
+CREATE UNIQUE INDEX user_roles_user_role_department_key
+  ON public.user_roles(user_id, role, coalesce(department_id, '00000000-0000-0000-0000-000000000000'));
+
+ALTER TABLE public.issues
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+ADD COLUMN assigned_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_issues_department ON public.issues(department_id);
+CREATE INDEX idx_issues_assigned_user ON public.issues(assigned_user_id);
+
+-- Role helpers
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles app_role[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = ANY(_roles)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher', 'department_head', 'field_crew', 'viewer']::app_role[])
+$$;
+
+CREATE OR REPLACE FUNCTION public.heads_department(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = 'department_head'
+      AND department_id = _department_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_roles()
+RETURNS TABLE(role app_role, department_id UUID)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ur.role, ur.department_id
+  FROM public.user_roles ur
+  WHERE ur.user_id = auth.uid()
+$$;
+
+-- Staff directory for assignment pickers
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE(user_id UUID, email TEXT, role app_role, department_id UUID)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can list staff members';
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.user_id, u.email::TEXT, ur.role, ur.department_id
+  FROM public.user_roles ur
+  JOIN auth.users u ON u.id = ur.user_id
+  WHERE ur.role <> 'user'
+  ORDER BY u.email;
+END;
+$$;
+
+-- Issue update policies per role
+DROP POLICY IF EXISTS "Only admins can update issues" ON public.issues;
+
+CREATE POLICY "Admins and dispatchers can update issues"
+ON public.issues
+FOR UPDATE
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]));
+
+CREATE POLICY "Department heads can update their department's issues"
+ON public.issues
+FOR UPDATE
+USING (public.heads_department(auth.uid(), department_id))
+WITH CHECK (public.heads_department(auth.uid(), department_id));
+
+CREATE POLICY "Field crews can update issues assigned to them"
+ON public.issues
+FOR UPDATE
+USING (assigned_user_id = auth.uid() AND public.has_role(auth.uid(), 'field_crew'))
+WITH CHECK (assigned_user_id = auth.uid());
+
+-- Field crews may only report progress on their issues, not re-triage them.
+-- Updates made from other triggers (upvote counts, duplicate cascades) are
+-- system bookkeeping and pass through.
+CREATE OR REPLACE FUNCTION public.enforce_issue_update_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  crew_columns TEXT[] := ARRAY['status', 'public_notes', 'response_time', 'resolved_at'];
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[])
+     OR public.heads_department(auth.uid(), OLD.department_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_role(auth.uid(), 'field_crew')
+     AND (to_jsonb(NEW) - crew_columns) IS DISTINCT FROM (to_jsonb(OLD) - crew_columns) THEN
+    RAISE EXCEPTION 'Field crews can only update the status and notes of their issues';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_issue_update_permissions_trigger
+  BEFORE UPDATE ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_issue_update_permissions();
+
+-- Dispatchers triage, so they may merge duplicates as well
+CREATE OR REPLACE FUNCTION public.merge_issues(
+  canonical_id BIGINT,
+  duplicate_ids BIGINT[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  canonical public.issues%ROWTYPE;
+  merged_count INTEGER;
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins and dispatchers can merge issues';
+  END IF;
+
+  SELECT * INTO canonical FROM public.issues WHERE id = canonical_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % does not exist', canonical_id;
+  END IF;
+  IF canonical.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Issue % is already a duplicate of %', canonical_id, canonical.duplicate_of;
+  END IF;
+
+  duplicate_ids := array_remove(duplicate_ids, canonical_id);
+  IF coalesce(array_length(duplicate_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Children of the issues being merged follow them to the new canonical
+  UPDATE public.issues
+  SET duplicate_of = canonical_id
+  WHERE duplicate_of = ANY(duplicate_ids);
+
+  INSERT INTO public.issue_upvotes (issue_id, user_id, created_at)
+  SELECT canonical_id, u.user_id, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.user_id IS NOT NULL
+  GROUP BY u.user_id
+  ON CONFLICT (issue_id, user_id) WHERE user_id IS NOT NULL DO NOTHING;
+
+  INSERT INTO public.issue_upvotes (issue_id, voter_token_hash, created_at)
+  SELECT canonical_id, u.voter_token_hash, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.voter_token_hash IS NOT NULL
+  GROUP BY u.voter_token_hash
+  ON CONFLICT (issue_id, voter_token_hash) WHERE voter_token_hash IS NOT NULL DO NOTHING;
+
+  INSERT INTO public.issue_upvotes (issue_id, user_ip, created_at)
+  SELECT canonical_id, u.user_ip, min(u.created_at)
+  FROM public.issue_upvotes u
+  WHERE u.issue_id = ANY(duplicate_ids) AND u.user_ip IS NOT NULL
+  GROUP BY u.user_ip
+  ON CONFLICT (issue_id, user_ip) DO NOTHING;
+
+  DELETE FROM public.issue_upvotes WHERE issue_id = ANY(duplicate_ids);
+
+  UPDATE public.issues
+  SET duplicate_of = canonical_id,
+      status = canonical.status
+  WHERE id = ANY(duplicate_ids);
+
+  GET DIAGNOSTICS merged_count = ROW_COUNT;
+  RETURN merged_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unmerge_issue(issue_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins and dispatchers can unmerge issues';
+  END IF;
+
+  UPDATE public.issues SET duplicate_of = NULL WHERE id = unmerge_issue.issue_id;
+END;
+$$;
+
+-- Read-only auditors and other staff can see votes for moderation
+DROP POLICY IF EXISTS "Admins can view upvotes" ON public.issue_upvotes;
+
+CREATE POLICY "Staff can view upvotes"
+ON public.issue_upvotes
+FOR SELECT
+USING (public.is_staff());
@@ -0,0 +1,212 @@
+-- Teams within a department (e.g. Roads → Night Crew)
+ALTER TABLE public.departments
+ADD COLUMN description TEXT,
+ADD COLUMN contact_email TEXT;
+
+CREATE TABLE public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (department_id, name)
+);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view teams"
+ON public.teams
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage teams"
+ON public.teams
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Routing rules are evaluated in position order; the first match wins.
+-- Every condition left empty matches anything.
+CREATE TABLE public.routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  category TEXT,
+  keywords TEXT[],
+  min_latitude DOUBLE PRECISION,
+  min_longitude DOUBLE PRECISION,
+  max_latitude DOUBLE PRECISION,
+  max_longitude DOUBLE PRECISION,
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT routing_rules_zone_complete CHECK (
+    (min_latitude IS NULL AND min_longitude IS NULL AND max_latitude IS NULL AND max_longitude IS NULL)
+    OR (min_latitude IS NOT NULL AND min_longitude IS NOT NULL AND max_latitude IS NOT NULL AND max_longitude IS NOT NULL
+        AND min_latitude <= max_latitude AND min_longitude <= max_longitude)
+  )
+);
+
+CREATE INDEX idx_routing_rules_position ON public.routing_rules(position) WHERE is_active;
+
+ALTER TABLE public.routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view routing rules"
+ON public.routing_rules
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage routing rules"
+ON public.routing_rules
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.touch_routing_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_routing_rule_trigger
+  BEFORE UPDATE ON public.routing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_routing_rule();
+
+-- Which rule routed an issue, for auditing and re-testing rules
+ALTER TABLE public.issues
+ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD COLUMN routing_rule_id UUID REFERENCES public.routing_rules(id) ON DELETE SET NULL;
+
+-- First matching rule for an issue's category, location and text
+CREATE OR REPLACE FUNCTION public.evaluate_routing(
+  input_category TEXT,
+  input_title TEXT,
+  input_description TEXT,
+  input_latitude DOUBLE PRECISION,
+  input_longitude DOUBLE PRECISION,
+  include_inactive BOOLEAN DEFAULT false
+)
+RETURNS TABLE(rule_id UUID, department_id UUID, team_id UUID)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.department_id, r.team_id
+  FROM public.routing_rules r
+  WHERE (r.is_active OR include_inactive)
+    AND (r.category IS NULL OR r.category = input_category)
+    AND (
+      r.min_latitude IS NULL
+      OR (input_latitude BETWEEN r.min_latitude AND r.max_latitude
+          AND input_longitude BETWEEN r.min_longitude AND r.max_longitude)
+    )
+    AND (
+      coalesce(cardinality(r.keywords), 0) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM unnest(r.keywords) AS keyword
+        WHERE coalesce(input_title, '') || ' ' || coalesce(input_description, '') ILIKE '%' || keyword || '%'
+      )
+    )
+  ORDER BY r.position, r.created_at
+  LIMIT 1
+$$;
+
+-- Route new reports unless the inserter already chose a department
+CREATE OR REPLACE FUNCTION public.route_new_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  match RECORD;
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO match
+  FROM public.evaluate_routing(NEW.category, NEW.title, NEW.description, NEW.latitude, NEW.longitude);
+
+  IF FOUND THEN
+    NEW.department_id := match.department_id;
+    NEW.team_id := match.team_id;
+    NEW.routing_rule_id := match.rule_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_new_issue_trigger
+  BEFORE INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_new_issue();
+
+-- Dry run of the current rules against recent issues
+CREATE OR REPLACE FUNCTION public.preview_routing(
+  sample_size INTEGER DEFAULT 200,
+  include_inactive BOOLEAN DEFAULT false
+)
+RETURNS TABLE(
+  issue_id BIGINT,
+  title TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  current_department_id UUID,
+  rule_id UUID,
+  department_id UUID,
+  team_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins and dispatchers can preview routing';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.id, i.title, i.category, i.created_at, i.department_id, m.rule_id, m.department_id, m.team_id
+  FROM (
+    SELECT *
+    FROM public.issues
+    WHERE NOT coalesce(is_spam, false) AND duplicate_of IS NULL
+    ORDER BY issues.created_at DESC
+    LIMIT least(greatest(sample_size, 1), 1000)
+  ) i
+  LEFT JOIN LATERAL public.evaluate_routing(
+    i.category, i.title, i.description, i.latitude, i.longitude, include_inactive
+  ) m ON true
+  ORDER BY i.created_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_routing_rules(rule_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reorder routing rules';
+  END IF;
+
+  UPDATE public.routing_rules r
+  SET position = ordered.ordinality
+  FROM unnest(rule_ids) WITH ORDINALITY AS ordered(id, ordinality)
+  WHERE r.id = ordered.id;
+END;
+$$;
@@ -0,0 +1,266 @@
+-- Canonical issue lifecycle. Clients mirror this in src/lib/issueStatus.ts.
+CREATE TYPE public.issue_status AS ENUM (
+  'new',
+  'acknowledged',
+  'in_progress',
+  'on_hold',
+  'resolved',
+  'closed',
+  'rejected'
+);
+
+-- Earlier screens wrote both "in_progress" and "in-progress"
+UPDATE public.issues
+SET status = replace(lower(trim(status)), '-', '_');
+
+UPDATE public.issues
+SET status = 'new'
+WHERE status NOT IN ('new', 'acknowledged', 'in_progress', 'on_hold', 'resolved', 'closed', 'rejected');
+
+-- A column referenced by a trigger's column list can't change type
+DROP TRIGGER IF EXISTS cascade_status_to_duplicates_trigger ON public.issues;
+
+ALTER TABLE public.issues ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.issues ALTER COLUMN status TYPE public.issue_status USING status::public.issue_status;
+ALTER TABLE public.issues ALTER COLUMN status SET DEFAULT 'new';
+
+CREATE TRIGGER cascade_status_to_duplicates_trigger
+  AFTER UPDATE OF status ON public.issues
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.cascade_status_to_duplicates();
+
+CREATE OR REPLACE FUNCTION public.is_open_status(status public.issue_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT status NOT IN ('resolved', 'closed', 'rejected')
+$$;
+
+-- Allowed transitions and whether the change needs a written reason
+CREATE OR REPLACE FUNCTION public.issue_status_transition(
+  from_status public.issue_status,
+  to_status public.issue_status
+)
+RETURNS TABLE(allowed BOOLEAN, requires_reason BOOLEAN)
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT t.from_status IS NOT NULL, coalesce(t.requires_reason, false)
+  FROM (SELECT 1) AS one
+  LEFT JOIN (
+    VALUES
+      ('new'::public.issue_status, 'acknowledged'::public.issue_status, false),
+      ('new', 'in_progress', false),
+      ('new', 'on_hold', true),
+      ('new', 'resolved', false),
+      ('new', 'rejected', true),
+      ('acknowledged', 'in_progress', false),
+      ('acknowledged', 'on_hold', true),
+      ('acknowledged', 'resolved', false),
+      ('acknowledged', 'rejected', true),
+      ('in_progress', 'on_hold', true),
+      ('in_progress', 'resolved', false),
+      ('on_hold', 'in_progress', false),
+      ('on_hold', 'resolved', false),
+      ('on_hold', 'rejected', true),
+      ('resolved', 'closed', false),
+      ('resolved', 'in_progress', true),
+      ('closed', 'in_progress', true),
+      ('rejected', 'new', true)
+  ) AS t(from_status, to_status, requires_reason)
+    ON t.from_status = issue_status_transition.from_status
+   AND t.to_status = issue_status_transition.to_status
+$$;
+
+CREATE TABLE public.issue_status_history (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  issue_id BIGINT NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  from_status public.issue_status,
+  to_status public.issue_status NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_issue_status_history_issue ON public.issue_status_history(issue_id, changed_at);
+
+ALTER TABLE public.issue_status_history ENABLE ROW LEVEL SECURITY;
+
+-- The history is part of the public record of how an issue was handled;
+-- rows are only ever written by the trigger below.
+CREATE POLICY "Anyone can view status history"
+ON public.issue_status_history
+FOR SELECT
+USING (true);
+
+-- Validates the transition, stamps resolution times and records history.
+-- Duplicates simply mirror their canonical issue, so they skip validation.
+CREATE OR REPLACE FUNCTION public.enforce_issue_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule RECORD;
+  change_reason TEXT := nullif(trim(current_setting('app.status_reason', true)), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'new' THEN
+      RAISE EXCEPTION 'New issues must start with status new';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_of IS NULL THEN
+    SELECT * INTO rule FROM public.issue_status_transition(OLD.status, NEW.status);
+    IF NOT rule.allowed THEN
+      RAISE EXCEPTION 'Cannot change status from % to %', OLD.status, NEW.status;
+    END IF;
+    IF rule.requires_reason AND change_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to change status from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    change_reason := coalesce(change_reason, format('Follows #%s', NEW.duplicate_of));
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    NEW.resolved_at := now();
+    NEW.response_time := now() - NEW.created_at;
+  ELSIF public.is_open_status(NEW.status) THEN
+    NEW.resolved_at := NULL;
+    NEW.response_time := NULL;
+  END IF;
+
+  INSERT INTO public.issue_status_history (issue_id, from_status, to_status, reason, changed_by)
+  VALUES (NEW.id, OLD.status, NEW.status, change_reason, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_issue_status_transition_trigger
+  BEFORE INSERT OR UPDATE OF status ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_issue_status_transition();
+
+-- The initial "new" entry is written once the issue has an id
+CREATE OR REPLACE FUNCTION public.record_initial_issue_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.issue_status_history (issue_id, from_status, to_status, changed_by, changed_at)
+  VALUES (NEW.id, NULL, NEW.status, auth.uid(), NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_initial_issue_status_trigger
+  AFTER INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_initial_issue_status();
+
+INSERT INTO public.issue_status_history (issue_id, from_status, to_status, changed_at)
+SELECT id, NULL, 'new', created_at
+FROM public.issues;
+
+INSERT INTO public.issue_status_history (issue_id, from_status, to_status, changed_at)
+SELECT id, 'new', status, coalesce(resolved_at, created_at)
+FROM public.issues
+WHERE status <> 'new';
+
+-- Status changes go through here so a reason can travel with them. Runs as
+-- the caller, so the usual update policies decide who may change what.
+CREATE OR REPLACE FUNCTION public.change_issue_status(
+  p_issue_id BIGINT,
+  new_status public.issue_status,
+  reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.status_reason', coalesce(reason, ''), true);
+
+  UPDATE public.issues
+  SET status = new_status
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found or you are not allowed to update it', p_issue_id;
+  END IF;
+
+  PERFORM set_config('app.status_reason', '', true);
+END;
+$$;
+
+-- Similar-issue suggestions only make sense for issues still being worked on
+CREATE OR REPLACE FUNCTION public.find_similar_issues(
+  input_title TEXT,
+  input_description TEXT,
+  input_category TEXT,
+  similarity_threshold FLOAT DEFAULT 0.3,
+  input_latitude DOUBLE PRECISION DEFAULT NULL,
+  input_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_meters DOUBLE PRECISION DEFAULT 150
+)
+RETURNS TABLE(
+  issue_id BIGINT,
+  title TEXT,
+  similarity_score FLOAT,
+  distance_meters FLOAT,
+  image_url TEXT,
+  status TEXT,
+  upvotes_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.title,
+      GREATEST(
+        similarity(i.title, input_title),
+        similarity(i.description, input_description)
+      )::FLOAT AS sim_score,
+      CASE
+        WHEN input_latitude IS NULL OR input_longitude IS NULL THEN NULL
+        ELSE public.distance_meters(input_latitude, input_longitude, i.latitude, i.longitude)
+      END::FLOAT AS dist,
+      i.image_url,
+      i.status::TEXT AS status,
+      i.upvotes_count,
+      i.created_at
+    FROM public.issues i
+    WHERE i.category = input_category
+      AND i.is_spam = false
+      AND i.duplicate_of IS NULL
+      AND public.is_open_status(i.status)
+  )
+  SELECT c.id, c.title, c.sim_score, c.dist, c.image_url, c.status, c.upvotes_count, c.created_at
+  FROM candidates c
+  WHERE c.sim_score > similarity_threshold
+     OR c.dist <= radius_meters
+  -- Nearby reports count as a strong match even when worded differently
+  ORDER BY c.sim_score + CASE WHEN c.dist <= radius_meters THEN 1 - c.dist / radius_meters ELSE 0 END DESC
+  LIMIT 5;
+END;
+$$;
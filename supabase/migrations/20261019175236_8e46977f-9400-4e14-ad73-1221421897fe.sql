@@ -0,0 +1,202 @@
+-- Private receipts tying a report to the device (or account) that filed it.
+-- The tracking code is generated by the client, shown to the reporter once
+-- and only stored hashed, like device tokens.
+CREATE TABLE public.issue_receipts (
+  issue_id BIGINT PRIMARY KEY REFERENCES public.issues(id) ON DELETE CASCADE,
+  tracking_code_hash TEXT NOT NULL UNIQUE,
+  device_token_hash TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_issue_receipts_device ON public.issue_receipts(device_token_hash);
+CREATE INDEX idx_issue_receipts_user ON public.issue_receipts(user_id);
+
+-- No policies: receipts are only reachable through the functions below
+ALTER TABLE public.issue_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Extra details and photos added by the reporter after submitting
+CREATE TABLE public.issue_followups (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  issue_id BIGINT NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  body TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT issue_followups_has_content CHECK (nullif(trim(body), '') IS NOT NULL OR image_url IS NOT NULL),
+  CONSTRAINT issue_followups_body_length CHECK (char_length(body) <= 2000)
+);
+
+CREATE INDEX idx_issue_followups_issue ON public.issue_followups(issue_id, created_at);
+
+ALTER TABLE public.issue_followups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view follow-ups"
+ON public.issue_followups
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can delete follow-ups"
+ON public.issue_followups
+FOR DELETE
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]));
+
+CREATE OR REPLACE FUNCTION public.validate_tracking_code(tracking_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF tracking_code IS NULL OR tracking_code !~ '^CL-[0-9A-HJKMNP-TV-Z]{5}-[0-9A-HJKMNP-TV-Z]{5}$' THEN
+    RAISE EXCEPTION 'Invalid tracking code';
+  END IF;
+END;
+$$;
+
+-- Called right after the report is inserted. The first caller claims the
+-- receipt; repeating the call with the same code is a no-op so retries
+-- after a dropped connection are safe.
+CREATE OR REPLACE FUNCTION public.register_issue_receipt(
+  p_issue_id BIGINT,
+  tracking_code TEXT,
+  device_token TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code_hash TEXT;
+  existing public.issue_receipts%ROWTYPE;
+BEGIN
+  PERFORM public.validate_tracking_code(tracking_code);
+  PERFORM public.validate_device_token(device_token);
+  code_hash := public.hash_device_token(tracking_code);
+
+  SELECT * INTO existing FROM public.issue_receipts WHERE issue_id = p_issue_id;
+  IF FOUND THEN
+    IF existing.tracking_code_hash = code_hash THEN
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Issue % already has a receipt', p_issue_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE id = p_issue_id AND created_at > now() - INTERVAL '1 day'
+  ) THEN
+    RAISE EXCEPTION 'Receipts can only be registered for recently submitted issues';
+  END IF;
+
+  INSERT INTO public.issue_receipts (issue_id, tracking_code_hash, device_token_hash, user_id)
+  VALUES (p_issue_id, code_hash, public.hash_device_token(device_token), auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.owns_issue(
+  p_issue_id BIGINT,
+  device_token TEXT,
+  tracking_code TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issue_receipts r
+    WHERE r.issue_id = p_issue_id
+      AND (
+        (auth.uid() IS NOT NULL AND r.user_id = auth.uid())
+        OR (device_token IS NOT NULL AND r.device_token_hash = public.hash_device_token(device_token))
+        OR (tracking_code IS NOT NULL AND r.tracking_code_hash = public.hash_device_token(upper(trim(tracking_code))))
+      )
+  )
+$$;
+
+-- Reports filed from this device or account, plus any whose tracking code
+-- the reporter has entered here. The matching code is echoed back so the
+-- client can pass it on when adding follow-ups.
+CREATE OR REPLACE FUNCTION public.list_my_reports(
+  device_token TEXT,
+  tracking_codes TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE(
+  issue_id BIGINT,
+  title TEXT,
+  category TEXT,
+  status public.issue_status,
+  image_url TEXT,
+  public_notes TEXT,
+  duplicate_of BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  followups_count BIGINT,
+  tracking_code TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.title,
+    i.category,
+    i.status,
+    i.image_url,
+    i.public_notes,
+    i.duplicate_of,
+    i.created_at,
+    (SELECT count(*) FROM public.issue_followups f WHERE f.issue_id = i.id),
+    matched.code
+  FROM public.issue_receipts r
+  JOIN public.issues i ON i.id = r.issue_id
+  LEFT JOIN LATERAL (
+    SELECT upper(trim(c)) AS code
+    FROM unnest(tracking_codes) AS c
+    WHERE public.hash_device_token(upper(trim(c))) = r.tracking_code_hash
+    LIMIT 1
+  ) matched ON true
+  WHERE (auth.uid() IS NOT NULL AND r.user_id = auth.uid())
+     OR (device_token IS NOT NULL AND r.device_token_hash = public.hash_device_token(device_token))
+     OR matched.code IS NOT NULL
+  ORDER BY i.created_at DESC
+  LIMIT 200
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_issue_followup(
+  p_issue_id BIGINT,
+  device_token TEXT,
+  tracking_code TEXT,
+  body TEXT,
+  image_url TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  followup_id BIGINT;
+BEGIN
+  IF NOT public.owns_issue(p_issue_id, device_token, tracking_code) THEN
+    RAISE EXCEPTION 'Only the reporter can add follow-ups to this issue';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE id = p_issue_id AND public.is_open_status(status)
+  ) THEN
+    RAISE EXCEPTION 'Follow-ups can only be added while the issue is open';
+  END IF;
+
+  INSERT INTO public.issue_followups (issue_id, body, image_url)
+  VALUES (p_issue_id, nullif(trim(add_issue_followup.body), ''), add_issue_followup.image_url)
+  RETURNING id INTO followup_id;
+
+  RETURN followup_id;
+END;
+$$;
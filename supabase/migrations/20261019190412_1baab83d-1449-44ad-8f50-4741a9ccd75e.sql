@@ -0,0 +1,382 @@
+-- Notifications for reporters when their issue moves along. Changes to an
+-- issue write one row per recipient into the inbox, plus an outbox entry per
+-- external channel that the send-notifications edge function drains.
+CREATE TYPE public.notification_channel AS ENUM ('email', 'push', 'in_app');
+CREATE TYPE public.notification_delivery_status AS ENUM ('pending', 'sent', 'failed');
+
+-- One row per device or account, holding its channel preferences
+CREATE TABLE public.notification_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_token_hash TEXT UNIQUE,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  email_enabled BOOLEAN NOT NULL DEFAULT false,
+  push_enabled BOOLEAN NOT NULL DEFAULT false,
+  in_app_enabled BOOLEAN NOT NULL DEFAULT true,
+  unsubscribe_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT notification_recipients_identity CHECK (device_token_hash IS NOT NULL OR user_id IS NOT NULL),
+  CONSTRAINT notification_recipients_email CHECK (email IS NULL OR email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$')
+);
+
+CREATE TABLE public.push_subscriptions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  recipient_id UUID NOT NULL REFERENCES public.notification_recipients(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_push_subscriptions_recipient ON public.push_subscriptions(recipient_id);
+
+CREATE TABLE public.notifications (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  recipient_id UUID NOT NULL REFERENCES public.notification_recipients(id) ON DELETE CASCADE,
+  issue_id BIGINT REFERENCES public.issues(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  url TEXT,
+  -- False when the recipient only wants email/push; the row still anchors the outbox
+  show_in_app BOOLEAN NOT NULL DEFAULT true,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_recipient ON public.notifications(recipient_id, created_at DESC);
+
+CREATE TABLE public.notification_deliveries (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  notification_id BIGINT NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  channel public.notification_channel NOT NULL,
+  status public.notification_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT notification_deliveries_external CHECK (channel <> 'in_app'),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX idx_notification_deliveries_pending ON public.notification_deliveries(id) WHERE status = 'pending';
+
+-- No policies: everything goes through the functions below, keyed on the
+-- device token or the signed-in account
+ALTER TABLE public.notification_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.touch_notification_recipient()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_notification_recipient_trigger
+  BEFORE UPDATE ON public.notification_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_notification_recipient();
+
+-- Signed-in users are matched by account first so preferences follow them
+-- across devices; everyone else by device token.
+CREATE OR REPLACE FUNCTION public.find_notification_recipient(device_token TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.notification_recipients
+  WHERE (auth.uid() IS NOT NULL AND user_id = auth.uid())
+     OR (device_token IS NOT NULL AND device_token_hash = public.hash_device_token(device_token))
+  ORDER BY (user_id IS NOT DISTINCT FROM auth.uid()) DESC
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.ensure_notification_recipient(device_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient_id UUID;
+BEGIN
+  PERFORM public.validate_device_token(device_token);
+  recipient_id := public.find_notification_recipient(device_token);
+
+  IF recipient_id IS NULL THEN
+    INSERT INTO public.notification_recipients (device_token_hash, user_id)
+    VALUES (public.hash_device_token(device_token), auth.uid())
+    RETURNING id INTO recipient_id;
+  END IF;
+
+  RETURN recipient_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_notification_preferences(device_token TEXT)
+RETURNS TABLE(
+  email TEXT,
+  email_enabled BOOLEAN,
+  push_enabled BOOLEAN,
+  in_app_enabled BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.email, r.email_enabled, r.push_enabled, r.in_app_enabled
+  FROM public.notification_recipients r
+  WHERE r.id = public.find_notification_recipient(device_token)
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_notification_preferences(
+  device_token TEXT,
+  email TEXT,
+  email_enabled BOOLEAN,
+  push_enabled BOOLEAN,
+  in_app_enabled BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_email TEXT := nullif(lower(trim(save_notification_preferences.email)), '');
+BEGIN
+  IF save_notification_preferences.email_enabled AND clean_email IS NULL THEN
+    RAISE EXCEPTION 'An email address is required for email notifications';
+  END IF;
+
+  UPDATE public.notification_recipients
+  SET email = clean_email,
+      email_enabled = save_notification_preferences.email_enabled,
+      push_enabled = save_notification_preferences.push_enabled,
+      in_app_enabled = save_notification_preferences.in_app_enabled
+  WHERE id = public.ensure_notification_recipient(device_token);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  device_token TEXT,
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient UUID := public.ensure_notification_recipient(device_token);
+BEGIN
+  IF p_endpoint !~ '^https://' THEN
+    RAISE EXCEPTION 'Push endpoints must use https';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (recipient_id, endpoint, p256dh, auth)
+  VALUES (recipient, p_endpoint, p_p256dh, p_auth)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET recipient_id = EXCLUDED.recipient_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth;
+
+  UPDATE public.notification_recipients SET push_enabled = true WHERE id = recipient;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_push_subscription(device_token TEXT, p_endpoint TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.push_subscriptions s
+  WHERE s.endpoint = p_endpoint
+    AND s.recipient_id = public.find_notification_recipient(device_token)
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_my_notifications(device_token TEXT, max_results INTEGER DEFAULT 30)
+RETURNS TABLE(
+  id BIGINT,
+  issue_id BIGINT,
+  title TEXT,
+  body TEXT,
+  url TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.id, n.issue_id, n.title, n.body, n.url, n.read_at, n.created_at
+  FROM public.notifications n
+  WHERE n.recipient_id = public.find_notification_recipient(device_token)
+    AND n.show_in_app
+  ORDER BY n.created_at DESC
+  LIMIT least(max_results, 100)
+$$;
+
+-- Passing no ids marks the whole inbox as read
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(device_token TEXT, notification_ids BIGINT[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE recipient_id = public.find_notification_recipient(device_token)
+    AND read_at IS NULL
+    AND (notification_ids IS NULL OR id = ANY(notification_ids))
+$$;
+
+-- Target of the link in every email; works without signing in
+CREATE OR REPLACE FUNCTION public.unsubscribe_notifications(token UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notification_recipients
+  SET email_enabled = false
+  WHERE unsubscribe_token = token;
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_issue_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient public.notification_recipients%ROWTYPE;
+  notification_id BIGINT;
+  message TEXT;
+  change_reason TEXT := nullif(trim(current_setting('app.status_reason', true)), '');
+BEGIN
+  IF NEW.is_spam THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    message := format('Your report is now %s.', replace(NEW.status::TEXT, '_', ' '));
+    IF change_reason IS NOT NULL THEN
+      message := message || ' ' || change_reason;
+    END IF;
+  ELSIF NEW.public_notes IS DISTINCT FROM OLD.public_notes AND nullif(trim(NEW.public_notes), '') IS NOT NULL THEN
+    message := 'The city posted an update: ' || left(NEW.public_notes, 280);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- Merged duplicates get their own status update through the cascade
+  -- trigger, so only this issue's reporters are notified here.
+  FOR recipient IN
+    SELECT DISTINCT n.*
+    FROM public.issue_receipts r
+    JOIN public.notification_recipients n
+      ON n.user_id = r.user_id OR n.device_token_hash = r.device_token_hash
+    WHERE r.issue_id = NEW.id
+      AND (n.in_app_enabled OR n.push_enabled OR (n.email_enabled AND n.email IS NOT NULL))
+  LOOP
+    INSERT INTO public.notifications (recipient_id, issue_id, title, body, url, show_in_app)
+    VALUES (recipient.id, NEW.id, format('Report #%s: %s', NEW.id, NEW.title), message, format('/issues/%s', NEW.id), recipient.in_app_enabled)
+    RETURNING id INTO notification_id;
+
+    IF recipient.email_enabled AND recipient.email IS NOT NULL THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'email');
+    END IF;
+
+    IF recipient.push_enabled AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE recipient_id = recipient.id) THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'push');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_issue_notifications_trigger
+  AFTER UPDATE OF status, public_notes ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_issue_notifications();
+
+-- Outbox API for the send-notifications edge function. Claimed rows are
+-- left alone for ten minutes so a crashed run is retried by a later one.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(batch_size INTEGER DEFAULT 50)
+RETURNS TABLE(
+  delivery_id BIGINT,
+  channel public.notification_channel,
+  recipient_id UUID,
+  email TEXT,
+  unsubscribe_token UUID,
+  title TEXT,
+  body TEXT,
+  url TEXT
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE public.notification_deliveries d
+    SET claimed_at = now(), attempts = d.attempts + 1
+    WHERE d.id IN (
+      SELECT id
+      FROM public.notification_deliveries
+      WHERE status = 'pending'
+        AND (claimed_at IS NULL OR claimed_at < now() - INTERVAL '10 minutes')
+      ORDER BY id
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.id, d.channel, d.notification_id
+  )
+  SELECT c.id, c.channel, r.id, r.email, r.unsubscribe_token, n.title, n.body, n.url
+  FROM claimed c
+  JOIN public.notifications n ON n.id = c.notification_id
+  JOIN public.notification_recipients r ON r.id = n.recipient_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_notification_delivery(
+  p_delivery_id BIGINT,
+  succeeded BOOLEAN,
+  error_message TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries
+  SET status = CASE
+        WHEN succeeded THEN 'sent'
+        WHEN attempts >= 5 THEN 'failed'
+        ELSE 'pending'
+      END::public.notification_delivery_status,
+      sent_at = CASE WHEN succeeded THEN now() END,
+      last_error = error_message
+  WHERE id = p_delivery_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_notification_delivery(BIGINT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
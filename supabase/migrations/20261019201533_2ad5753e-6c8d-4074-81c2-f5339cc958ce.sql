@@ -0,0 +1,156 @@
+-- Citizens can follow issues they didn't report and get the same
+-- notifications as the reporter.
+CREATE TABLE public.issue_subscriptions (
+  issue_id BIGINT NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES public.notification_recipients(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (issue_id, recipient_id)
+);
+
+CREATE INDEX idx_issue_subscriptions_recipient ON public.issue_subscriptions(recipient_id, created_at DESC);
+
+-- No policies: followers are only reachable through the functions below
+ALTER TABLE public.issue_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.follow_issue(p_issue_id BIGINT, device_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.issues WHERE id = p_issue_id AND NOT is_spam) THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id;
+  END IF;
+
+  INSERT INTO public.issue_subscriptions (issue_id, recipient_id)
+  VALUES (p_issue_id, public.ensure_notification_recipient(device_token))
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unfollow_issue(p_issue_id BIGINT, device_token TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.issue_subscriptions
+  WHERE issue_id = p_issue_id
+    AND recipient_id = public.find_notification_recipient(device_token)
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_following_issue(p_issue_id BIGINT, device_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issue_subscriptions
+    WHERE issue_id = p_issue_id
+      AND recipient_id = public.find_notification_recipient(device_token)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_followed_issues(device_token TEXT)
+RETURNS TABLE(
+  issue_id BIGINT,
+  title TEXT,
+  category TEXT,
+  status public.issue_status,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  followed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.title, i.category, i.status, i.image_url, i.created_at, s.created_at
+  FROM public.issue_subscriptions s
+  JOIN public.issues i ON i.id = s.issue_id
+  WHERE s.recipient_id = public.find_notification_recipient(device_token)
+    AND NOT i.is_spam
+  ORDER BY s.created_at DESC
+  LIMIT 200
+$$;
+
+-- Same as before, but followers are notified alongside the reporter
+CREATE OR REPLACE FUNCTION public.enqueue_issue_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient RECORD;
+  notification_id BIGINT;
+  message TEXT;
+  change_reason TEXT := nullif(trim(current_setting('app.status_reason', true)), '');
+BEGIN
+  IF NEW.is_spam THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND (NEW.public_notes IS NOT DISTINCT FROM OLD.public_notes OR nullif(trim(NEW.public_notes), '') IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Merged duplicates get their own status update through the cascade
+  -- trigger, so only this issue's reporters and followers are notified here.
+  FOR recipient IN
+    SELECT
+      n.*,
+      EXISTS (
+        SELECT 1 FROM public.issue_receipts r
+        WHERE r.issue_id = NEW.id
+          AND (n.user_id = r.user_id OR n.device_token_hash = r.device_token_hash)
+      ) AS is_reporter
+    FROM public.notification_recipients n
+    WHERE (n.in_app_enabled OR n.push_enabled OR (n.email_enabled AND n.email IS NOT NULL))
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.issue_receipts r
+          WHERE r.issue_id = NEW.id
+            AND (n.user_id = r.user_id OR n.device_token_hash = r.device_token_hash)
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.issue_subscriptions s
+          WHERE s.issue_id = NEW.id AND s.recipient_id = n.id
+        )
+      )
+  LOOP
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      message := format(
+        '%s now %s.',
+        CASE WHEN recipient.is_reporter THEN 'Your report is' ELSE 'This issue is' END,
+        replace(NEW.status::TEXT, '_', ' ')
+      );
+      IF change_reason IS NOT NULL THEN
+        message := message || ' ' || change_reason;
+      END IF;
+    ELSE
+      message := 'The city posted an update: ' || left(NEW.public_notes, 280);
+    END IF;
+
+    INSERT INTO public.notifications (recipient_id, issue_id, title, body, url, show_in_app)
+    VALUES (recipient.id, NEW.id, format('Report #%s: %s', NEW.id, NEW.title), message, format('/issues/%s', NEW.id), recipient.in_app_enabled)
+    RETURNING id INTO notification_id;
+
+    IF recipient.email_enabled AND recipient.email IS NOT NULL THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'email');
+    END IF;
+
+    IF recipient.push_enabled AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE recipient_id = recipient.id) THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'push');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
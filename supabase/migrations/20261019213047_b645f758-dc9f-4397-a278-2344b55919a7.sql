@@ -0,0 +1,144 @@
+-- Several photos and short videos per report, plus "after" photos uploaded
+-- by crews when the work is done. issues.image_url stays as the cover photo.
+CREATE TYPE public.attachment_kind AS ENUM ('before', 'after');
+
+CREATE TABLE public.issue_attachments (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  issue_id BIGINT NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  media_type TEXT NOT NULL DEFAULT 'image',
+  kind public.attachment_kind NOT NULL DEFAULT 'before',
+  position INTEGER NOT NULL DEFAULT 0,
+  uploaded_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT issue_attachments_media_type CHECK (media_type IN ('image', 'video')),
+  UNIQUE (issue_id, url)
+);
+
+CREATE INDEX idx_issue_attachments_issue ON public.issue_attachments(issue_id, kind, position);
+
+ALTER TABLE public.issue_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view attachments"
+ON public.issue_attachments
+FOR SELECT
+USING (true);
+
+-- Reporters add theirs through add_report_attachments; staff who can work
+-- on an issue may add "after" photos directly
+CREATE POLICY "Staff can add after photos"
+ON public.issue_attachments
+FOR INSERT
+WITH CHECK (
+  kind = 'after'
+  AND uploaded_by = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.id = issue_id
+      AND (
+        public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[])
+        OR public.heads_department(auth.uid(), i.department_id)
+        OR (i.assigned_user_id = auth.uid() AND public.has_role(auth.uid(), 'field_crew'))
+      )
+  )
+);
+
+CREATE POLICY "Admins can delete attachments"
+ON public.issue_attachments
+FOR DELETE
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[]));
+
+-- The cover photo is the first "before" attachment
+CREATE OR REPLACE FUNCTION public.record_cover_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.image_url IS NOT NULL THEN
+    INSERT INTO public.issue_attachments (issue_id, url, media_type, kind, position, uploaded_by)
+    VALUES (NEW.id, NEW.image_url, 'image', 'before', 0, auth.uid())
+    ON CONFLICT (issue_id, url) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_cover_attachment_trigger
+  AFTER INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_cover_attachment();
+
+INSERT INTO public.issue_attachments (issue_id, url, media_type, kind, position, uploaded_by, created_at)
+SELECT id, image_url, 'image', 'before', 0, NULL, created_at
+FROM public.issues
+WHERE image_url IS NOT NULL
+ON CONFLICT (issue_id, url) DO NOTHING;
+
+-- Extra photos and videos sent with a report, after the issue and its
+-- receipt exist. Re-sending the same URLs is a no-op so retries are safe.
+CREATE OR REPLACE FUNCTION public.add_report_attachments(
+  p_issue_id BIGINT,
+  device_token TEXT,
+  urls TEXT[],
+  media_types TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  IF NOT public.owns_issue(p_issue_id, device_token) THEN
+    RAISE EXCEPTION 'Only the reporter can add attachments to this issue';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE id = p_issue_id AND created_at > now() - INTERVAL '1 day'
+  ) THEN
+    RAISE EXCEPTION 'Attachments can only be added to recently submitted issues';
+  END IF;
+
+  IF array_length(urls, 1) IS DISTINCT FROM array_length(media_types, 1) THEN
+    RAISE EXCEPTION 'Each attachment needs a media type';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(urls) AS u
+    WHERE u !~ '/storage/v1/object/public/issues/'
+  ) THEN
+    RAISE EXCEPTION 'Attachments must be uploaded to the issues bucket';
+  END IF;
+
+  SELECT coalesce(max(position), -1) + 1 INTO next_position
+  FROM public.issue_attachments
+  WHERE issue_id = p_issue_id AND kind = 'before';
+
+  INSERT INTO public.issue_attachments (issue_id, url, media_type, kind, position, uploaded_by)
+  SELECT p_issue_id, a.url, a.media_type, 'before', next_position + a.ordinality::INTEGER - 1, auth.uid()
+  FROM unnest(urls, media_types) WITH ORDINALITY AS a(url, media_type, ordinality)
+  ON CONFLICT (issue_id, url) DO NOTHING;
+
+  IF (SELECT count(*) FROM public.issue_attachments WHERE issue_id = p_issue_id AND kind = 'before') > 6 THEN
+    RAISE EXCEPTION 'Reports can have at most 6 photos or videos';
+  END IF;
+END;
+$$;
+
+-- Lets list views show how many photos each card has in one round trip
+CREATE OR REPLACE FUNCTION public.get_issue_media_counts(issue_ids BIGINT[])
+RETURNS TABLE(issue_id BIGINT, media_count BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.issue_id, count(*)
+  FROM public.issue_attachments a
+  WHERE a.issue_id = ANY(issue_ids)
+  GROUP BY a.issue_id
+$$;
@@ -0,0 +1,9 @@
+-- Structured address details from geocoding, so analytics can group issues
+-- by something finer than the city name in location_name
+ALTER TABLE public.issues
+  ADD COLUMN ward TEXT,
+  ADD COLUMN neighbourhood TEXT,
+  ADD COLUMN postcode TEXT;
+
+CREATE INDEX idx_issues_ward ON public.issues(ward);
+CREATE INDEX idx_issues_postcode ON public.issues(postcode);
@@ -0,0 +1,176 @@
+-- Ward/district boundaries uploaded by admins as GeoJSON. Every issue is
+-- placed in the ward containing it so planning can look below city level.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+CREATE TABLE public.wards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  code TEXT,
+  boundary extensions.geometry(MultiPolygon, 4326) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wards_boundary ON public.wards USING GIST (boundary);
+
+ALTER TABLE public.wards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view wards"
+ON public.wards
+FOR SELECT
+USING (true);
+
+-- Boundaries only come in through import_wards, which converts GeoJSON
+CREATE POLICY "Admins can rename wards"
+ON public.wards
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete wards"
+ON public.wards
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.issues
+ADD COLUMN ward_id UUID REFERENCES public.wards(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_issues_ward_id ON public.issues(ward_id);
+
+-- Smallest ward containing the point, in case imported boundaries overlap
+CREATE OR REPLACE FUNCTION public.find_ward(p_latitude DOUBLE PRECISION, p_longitude DOUBLE PRECISION)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT w.id
+  FROM public.wards w
+  WHERE ST_Covers(w.boundary, ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326))
+  ORDER BY ST_Area(w.boundary)
+  LIMIT 1
+$$;
+
+-- The ward name replaces whatever the reporter's geocoder guessed
+CREATE OR REPLACE FUNCTION public.assign_issue_ward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.ward_id := public.find_ward(NEW.latitude, NEW.longitude);
+  IF NEW.ward_id IS NOT NULL THEN
+    SELECT name INTO NEW.ward FROM public.wards WHERE id = NEW.ward_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_issue_ward_trigger
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_issue_ward();
+
+-- Re-places every issue after the boundaries change. Returns how many
+-- issues are in a ward afterwards.
+CREATE OR REPLACE FUNCTION public.backfill_issue_wards()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assigned INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reassign wards';
+  END IF;
+
+  UPDATE public.issues i
+  SET ward_id = m.ward_id,
+      ward = coalesce(w.name, i.ward)
+  FROM (
+    SELECT id, public.find_ward(latitude, longitude) AS ward_id
+    FROM public.issues
+  ) m
+  LEFT JOIN public.wards w ON w.id = m.ward_id
+  WHERE i.id = m.id
+    AND i.ward_id IS DISTINCT FROM m.ward_id;
+
+  SELECT count(*) INTO assigned FROM public.issues WHERE ward_id IS NOT NULL;
+  RETURN assigned;
+END;
+$$;
+
+-- Accepts a FeatureCollection (or a bare array of features) of Polygon and
+-- MultiPolygon wards in WGS84. Wards are matched by name, so re-importing
+-- an updated file replaces their boundaries in place.
+CREATE OR REPLACE FUNCTION public.import_wards(
+  geojson JSONB,
+  name_property TEXT DEFAULT 'name',
+  code_property TEXT DEFAULT NULL,
+  replace_existing BOOLEAN DEFAULT false
+)
+RETURNS TABLE(wards_imported INTEGER, issues_assigned INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  features JSONB := CASE WHEN jsonb_typeof(geojson) = 'array' THEN geojson ELSE geojson->'features' END;
+  feature JSONB;
+  ward_name TEXT;
+  imported_names TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import wards';
+  END IF;
+
+  IF features IS NULL OR jsonb_typeof(features) <> 'array' OR jsonb_array_length(features) = 0 THEN
+    RAISE EXCEPTION 'The file has no features to import';
+  END IF;
+
+  FOR feature IN SELECT * FROM jsonb_array_elements(features) LOOP
+    ward_name := nullif(trim(feature->'properties'->>name_property), '');
+    IF ward_name IS NULL THEN
+      RAISE EXCEPTION 'Every feature needs a "%" property', name_property;
+    END IF;
+
+    IF feature->'geometry'->>'type' NOT IN ('Polygon', 'MultiPolygon') THEN
+      RAISE EXCEPTION 'Ward "%" is not a polygon', ward_name;
+    END IF;
+
+    INSERT INTO public.wards (name, code, boundary)
+    VALUES (
+      ward_name,
+      CASE WHEN code_property IS NOT NULL THEN feature->'properties'->>code_property END,
+      ST_Multi(ST_CollectionExtract(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(feature->>'geometry'), 4326)), 3))
+    )
+    ON CONFLICT (name) DO UPDATE
+    SET code = coalesce(EXCLUDED.code, public.wards.code),
+        boundary = EXCLUDED.boundary,
+        updated_at = now();
+
+    imported_names := imported_names || ward_name;
+  END LOOP;
+
+  IF replace_existing THEN
+    DELETE FROM public.wards WHERE name <> ALL(imported_names);
+  END IF;
+
+  RETURN QUERY SELECT cardinality(imported_names), public.backfill_issue_wards();
+END;
+$$;
+
+-- Boundaries as GeoJSON for map overlays, simplified to roughly 10m
+CREATE OR REPLACE FUNCTION public.get_ward_boundaries()
+RETURNS TABLE(id UUID, name TEXT, code TEXT, boundary JSONB)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT w.id, w.name, w.code, ST_AsGeoJSON(ST_SimplifyPreserveTopology(w.boundary, 0.0001), 6)::jsonb
+  FROM public.wards w
+  ORDER BY w.name
+$$;
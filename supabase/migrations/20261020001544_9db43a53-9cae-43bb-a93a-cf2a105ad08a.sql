@@ -0,0 +1,43 @@
+-- The public map loads only what is in view instead of every issue
+CREATE INDEX idx_issues_location ON public.issues(latitude, longitude) WHERE duplicate_of IS NULL;
+
+-- Issues inside the map viewport, newest first. The limit keeps zoomed-out
+-- views cheap; the client shows a notice when it is reached.
+CREATE OR REPLACE FUNCTION public.get_issues_in_bounds(
+  min_latitude DOUBLE PRECISION,
+  min_longitude DOUBLE PRECISION,
+  max_latitude DOUBLE PRECISION,
+  max_longitude DOUBLE PRECISION,
+  category_filter TEXT DEFAULT NULL,
+  ward_filter UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 2000
+)
+RETURNS TABLE(
+  id BIGINT,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  status issue_status,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  upvotes_count INTEGER,
+  ward_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.id, i.title, i.description, i.category, i.status, i.latitude::DOUBLE PRECISION, i.longitude::DOUBLE PRECISION,
+         i.upvotes_count, i.ward_id, i.created_at, i.resolved_at
+  FROM public.issues i
+  WHERE i.duplicate_of IS NULL
+    AND NOT coalesce(i.is_spam, false)
+    AND i.latitude BETWEEN min_latitude AND max_latitude
+    AND i.longitude BETWEEN min_longitude AND max_longitude
+    AND (category_filter IS NULL OR i.category ILIKE '%' || category_filter || '%')
+    AND (ward_filter IS NULL OR i.ward_id = ward_filter)
+  ORDER BY i.created_at DESC
+  LIMIT least(greatest(max_results, 1), 5000)
+$$;
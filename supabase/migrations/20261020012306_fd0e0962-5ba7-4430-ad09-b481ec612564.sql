@@ -0,0 +1,166 @@
+-- The category catalogue. Issues and routing rules store the category
+-- name, so renaming a category renames it everywhere it is used.
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  icon TEXT NOT NULL DEFAULT 'help-circle',
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  default_department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  sla_hours INTEGER CHECK (sla_hours > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_categories_position ON public.categories(position);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.touch_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_category_trigger
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_category();
+
+CREATE OR REPLACE FUNCTION public.rename_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.issues SET category = NEW.name WHERE category = OLD.name;
+  UPDATE public.routing_rules SET category = NEW.name WHERE category = OLD.name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_category_trigger
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_category();
+
+CREATE OR REPLACE FUNCTION public.reorder_categories(category_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reorder categories';
+  END IF;
+
+  UPDATE public.categories c
+  SET position = ordered.ordinality
+  FROM unnest(category_ids) WITH ORDINALITY AS ordered(id, ordinality)
+  WHERE c.id = ordered.id;
+END;
+$$;
+
+-- The categories the report form has always offered
+INSERT INTO public.categories (name, icon, color, sla_hours, position) VALUES
+  ('Pothole', 'route', '#3b82f6', 72, 1),
+  ('Broken Streetlight', 'lightbulb', '#c034ef', 72, 2),
+  ('Overflowing Trash Bin', 'trash-2', '#d97706', 24, 3),
+  ('Graffiti', 'palette', '#db2777', 120, 4),
+  ('Damaged Public Property', 'wrench', '#78716c', 120, 5),
+  ('Water Leak', 'droplets', '#0891b2', 24, 6),
+  ('Sidewalk Damage', 'rectangle-horizontal', '#65a30d', 168, 7),
+  ('Traffic Signal Issue', 'traffic-cone', '#dc2626', 24, 8),
+  ('Other', 'help-circle', '#6b7280', NULL, 9)
+ON CONFLICT (name) DO NOTHING;
+
+-- Reports no routing rule matches go to their category's default department
+CREATE OR REPLACE FUNCTION public.route_new_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  match RECORD;
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO match
+  FROM public.evaluate_routing(NEW.category, NEW.title, NEW.description, NEW.latitude, NEW.longitude);
+
+  IF FOUND THEN
+    NEW.department_id := match.department_id;
+    NEW.team_id := match.team_id;
+    NEW.routing_rule_id := match.rule_id;
+  ELSE
+    SELECT c.default_department_id INTO NEW.department_id
+    FROM public.categories c
+    WHERE c.name = NEW.category;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Category names are now exact, so the map filter no longer guesses
+CREATE OR REPLACE FUNCTION public.get_issues_in_bounds(
+  min_latitude DOUBLE PRECISION,
+  min_longitude DOUBLE PRECISION,
+  max_latitude DOUBLE PRECISION,
+  max_longitude DOUBLE PRECISION,
+  category_filter TEXT DEFAULT NULL,
+  ward_filter UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 2000
+)
+RETURNS TABLE(
+  id BIGINT,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  status issue_status,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  upvotes_count INTEGER,
+  ward_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.id, i.title, i.description, i.category, i.status, i.latitude::DOUBLE PRECISION, i.longitude::DOUBLE PRECISION,
+         i.upvotes_count, i.ward_id, i.created_at, i.resolved_at
+  FROM public.issues i
+  WHERE i.duplicate_of IS NULL
+    AND NOT coalesce(i.is_spam, false)
+    AND i.latitude BETWEEN min_latitude AND max_latitude
+    AND i.longitude BETWEEN min_longitude AND max_longitude
+    AND (category_filter IS NULL OR i.category = category_filter)
+    AND (ward_filter IS NULL OR i.ward_id = ward_filter)
+  ORDER BY i.created_at DESC
+  LIMIT least(greatest(max_results, 1), 5000)
+$$;
@@ -0,0 +1,68 @@
+-- Extra questions a category asks on the report form, e.g. a pole number
+-- for streetlights. Each field is
+-- { key, label, type: text | number | select | yes_no | photo, required, options }
+ALTER TABLE public.categories
+ADD COLUMN fields JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array');
+
+-- Answers keyed by field key; photo answers are the uploaded photo's URL
+ALTER TABLE public.issues
+ADD COLUMN details JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(details) = 'object');
+
+CREATE INDEX idx_issues_details ON public.issues USING GIN (details jsonb_path_ops);
+
+-- Keeps only answers to the category's fields, of the right type. Required
+-- fields are enforced by the form rather than here, so reports queued
+-- offline before a field was added still go through.
+CREATE OR REPLACE FUNCTION public.clean_issue_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  field JSONB;
+  answer JSONB;
+  cleaned JSONB := '{}'::jsonb;
+BEGIN
+  FOR field IN
+    SELECT jsonb_array_elements(c.fields)
+    FROM public.categories c
+    WHERE c.name = NEW.category
+  LOOP
+    answer := NEW.details -> (field ->> 'key');
+    CONTINUE WHEN answer IS NULL OR answer = 'null'::jsonb;
+
+    IF CASE field ->> 'type'
+      WHEN 'number' THEN jsonb_typeof(answer) = 'number'
+      WHEN 'yes_no' THEN jsonb_typeof(answer) = 'boolean'
+      WHEN 'select' THEN jsonb_typeof(answer) = 'string' AND coalesce(field -> 'options', '[]'::jsonb) ? (answer #>> '{}')
+      ELSE jsonb_typeof(answer) = 'string'
+    END THEN
+      cleaned := cleaned || jsonb_build_object(field ->> 'key', answer);
+    END IF;
+  END LOOP;
+
+  NEW.details := cleaned;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clean_issue_details_trigger
+  BEFORE INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clean_issue_details();
+
+-- Examples of the details the form used to leave to the description
+UPDATE public.categories SET fields = '[
+  {"key": "approximate_size", "label": "Approximate size", "type": "select", "required": true, "options": ["Smaller than a plate", "Up to a metre", "Larger than a metre"]},
+  {"key": "blocking_traffic", "label": "Is it blocking traffic?", "type": "yes_no", "required": false}
+]'::jsonb WHERE name = 'Pothole' AND fields = '[]'::jsonb;
+
+UPDATE public.categories SET fields = '[
+  {"key": "pole_number", "label": "Pole number", "type": "text", "required": false},
+  {"key": "lights_out", "label": "How many lights are out?", "type": "number", "required": false}
+]'::jsonb WHERE name = 'Broken Streetlight' AND fields = '[]'::jsonb;
+
+UPDATE public.categories SET fields = '[
+  {"key": "water_running", "label": "Is water still running?", "type": "yes_no", "required": true}
+]'::jsonb WHERE name = 'Water Leak' AND fields = '[]'::jsonb;
@@ -0,0 +1,233 @@
+-- Resolution targets. Every issue carries a priority set during triage and a
+-- due date worked out from the SLA policy for its category and priority;
+-- open issues past their due date are escalated to a supervisor once.
+CREATE TYPE public.issue_priority AS ENUM ('low', 'normal', 'high', 'urgent');
+
+ALTER TABLE public.issues
+ADD COLUMN priority public.issue_priority NOT NULL DEFAULT 'normal',
+ADD COLUMN due_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_issues_due_at ON public.issues(due_at) WHERE escalated_at IS NULL;
+
+-- Targets for one priority, either within one category or for every category
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  priority public.issue_priority NOT NULL,
+  resolution_hours INTEGER NOT NULL CHECK (resolution_hours > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (category_id, priority)
+);
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view SLA policies"
+ON public.sla_policies
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage SLA policies"
+ON public.sla_policies
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.touch_sla_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_sla_policy_trigger
+  BEFORE UPDATE ON public.sla_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_sla_policy();
+
+-- The most specific target wins: this category at this priority, then any
+-- category at this priority, then the category's own default
+CREATE OR REPLACE FUNCTION public.issue_sla_hours(p_category TEXT, p_priority public.issue_priority)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT p.resolution_hours
+      FROM public.sla_policies p
+      JOIN public.categories c ON c.id = p.category_id
+      WHERE c.name = p_category AND p.priority = p_priority
+    ),
+    (
+      SELECT p.resolution_hours
+      FROM public.sla_policies p
+      WHERE p.category_id IS NULL AND p.priority = p_priority
+    ),
+    (SELECT c.sla_hours FROM public.categories c WHERE c.name = p_category)
+  )
+$$;
+
+-- Due dates are always derived, so they are recomputed whenever the category
+-- or priority changes. Moving a due date back into the future re-arms the
+-- escalation.
+CREATE OR REPLACE FUNCTION public.set_issue_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.due_at := coalesce(NEW.created_at, now())
+    + make_interval(hours => public.issue_sla_hours(NEW.category, NEW.priority));
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.due_at IS DISTINCT FROM OLD.due_at
+     AND (NEW.due_at IS NULL OR NEW.due_at > now()) THEN
+    NEW.escalated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_issue_due_at_trigger
+  BEFORE INSERT OR UPDATE OF category, priority, due_at ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_issue_due_at();
+
+-- Changing a target moves the due dates of issues still open under it;
+-- closed issues keep the target they were measured against
+CREATE OR REPLACE FUNCTION public.refresh_open_issue_due_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.issues i
+  SET due_at = i.created_at + make_interval(hours => public.issue_sla_hours(i.category, i.priority))
+  WHERE public.is_open_status(i.status)
+    AND i.due_at IS DISTINCT FROM i.created_at + make_interval(hours => public.issue_sla_hours(i.category, i.priority));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_due_dates_on_sla_policy_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.sla_policies
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_open_issue_due_dates();
+
+CREATE TRIGGER refresh_due_dates_on_category_sla_change
+  AFTER UPDATE OF sla_hours ON public.categories
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_open_issue_due_dates();
+
+-- Existing reports get due dates too. Those already overdue are marked as
+-- escalated so supervisors aren't flooded with the backlog on the first run.
+UPDATE public.issues
+SET due_at = created_at + make_interval(hours => public.issue_sla_hours(category, priority));
+
+UPDATE public.issues
+SET escalated_at = now()
+WHERE due_at < now() AND public.is_open_status(status);
+
+-- Department heads supervise their department's issues; issues with no
+-- department, or a department without a head, fall to the admins
+CREATE OR REPLACE FUNCTION public.issue_supervisors(_department_id UUID)
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ur.user_id
+  FROM public.user_roles ur
+  WHERE (ur.role = 'department_head' AND ur.department_id = _department_id)
+     OR (ur.role = 'admin' AND NOT EXISTS (
+           SELECT 1 FROM public.user_roles h
+           WHERE h.role = 'department_head' AND h.department_id = _department_id
+         ))
+$$;
+
+-- Notifies the supervisors of every open issue that has passed its due date
+-- and hasn't been escalated yet. Called by the send-notifications function
+-- on each run, so the escalations go out in the same batch.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_issues(batch_size INTEGER DEFAULT 100)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  overdue public.issues%ROWTYPE;
+  recipient public.notification_recipients%ROWTYPE;
+  notification_id BIGINT;
+  escalated_count INTEGER := 0;
+BEGIN
+  FOR overdue IN
+    SELECT *
+    FROM public.issues
+    WHERE due_at < now()
+      AND escalated_at IS NULL
+      AND public.is_open_status(status)
+      AND NOT is_spam
+      AND duplicate_of IS NULL
+    ORDER BY due_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Supervisors who never set notification preferences still get the
+    -- escalation in their in-app inbox
+    INSERT INTO public.notification_recipients (user_id)
+    SELECT public.issue_supervisors(overdue.department_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    FOR recipient IN
+      SELECT n.*
+      FROM public.notification_recipients n
+      WHERE n.user_id IN (SELECT public.issue_supervisors(overdue.department_id))
+    LOOP
+      INSERT INTO public.notifications (recipient_id, issue_id, title, body, url, show_in_app)
+      VALUES (
+        recipient.id,
+        overdue.id,
+        format('Overdue: report #%s: %s', overdue.id, overdue.title),
+        format(
+          'This %s priority %s report was due %s UTC and is still %s.',
+          overdue.priority,
+          overdue.category,
+          to_char(overdue.due_at AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI'),
+          replace(overdue.status::TEXT, '_', ' ')
+        ),
+        format('/issues/%s', overdue.id),
+        recipient.in_app_enabled
+      )
+      RETURNING id INTO notification_id;
+
+      IF recipient.email_enabled AND recipient.email IS NOT NULL THEN
+        INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'email');
+      END IF;
+
+      IF recipient.push_enabled AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE recipient_id = recipient.id) THEN
+        INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'push');
+      END IF;
+    END LOOP;
+
+    UPDATE public.issues SET escalated_at = now() WHERE id = overdue.id;
+    escalated_count := escalated_count + 1;
+  END LOOP;
+
+  RETURN escalated_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_supervisors(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_issues(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,239 @@
+-- Working calendars. Each department can set its working hours, working days
+-- and holidays; response and resolution times are then stored both as
+-- wall-clock intervals and as the working time inside them.
+CREATE TABLE public.department_calendars (
+  department_id UUID PRIMARY KEY REFERENCES public.departments(id) ON DELETE CASCADE,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  work_start TIME NOT NULL DEFAULT '09:00',
+  work_end TIME NOT NULL DEFAULT '17:00',
+  -- ISO weekdays, 1 = Monday
+  work_days INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT department_calendars_hours CHECK (work_end > work_start),
+  CONSTRAINT department_calendars_days CHECK (work_days <@ '{1,2,3,4,5,6,7}' AND cardinality(work_days) > 0)
+);
+
+CREATE TABLE public.department_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (department_id, holiday_date)
+);
+
+ALTER TABLE public.department_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view department calendars"
+ON public.department_calendars
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage department calendars"
+ON public.department_calendars
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view department holidays"
+ON public.department_holidays
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage department holidays"
+ON public.department_holidays
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.validate_department_calendar()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_department_calendar_trigger
+  BEFORE INSERT OR UPDATE ON public.department_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_department_calendar();
+
+-- Working time between two instants under a department's calendar. Each
+-- working day contributes the part of its shift that falls inside the range;
+-- departments without a calendar work around the clock.
+CREATE OR REPLACE FUNCTION public.working_time_between(
+  _department_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTERVAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  calendar public.department_calendars%ROWTYPE;
+  worked INTERVAL;
+BEGIN
+  IF _from IS NULL OR _to IS NULL OR _to <= _from THEN
+    RETURN INTERVAL '0';
+  END IF;
+
+  SELECT * INTO calendar FROM public.department_calendars WHERE department_id = _department_id;
+  IF NOT FOUND THEN
+    RETURN _to - _from;
+  END IF;
+
+  SELECT coalesce(sum(least(_to, shift.ends) - greatest(_from, shift.starts)), INTERVAL '0')
+  INTO worked
+  FROM generate_series(
+         (_from AT TIME ZONE calendar.timezone)::DATE::TIMESTAMP,
+         (_to AT TIME ZONE calendar.timezone)::DATE::TIMESTAMP,
+         INTERVAL '1 day'
+       ) AS day,
+       LATERAL (
+         SELECT
+           (day::DATE + calendar.work_start) AT TIME ZONE calendar.timezone AS starts,
+           (day::DATE + calendar.work_end) AT TIME ZONE calendar.timezone AS ends
+       ) AS shift
+  WHERE extract(isodow FROM day)::INTEGER = ANY(calendar.work_days)
+    AND shift.ends > _from
+    AND shift.starts < _to
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.department_holidays h
+      WHERE h.department_id = _department_id
+        AND h.holiday_date = day::DATE
+    );
+
+  RETURN worked;
+END;
+$$;
+
+-- response_time used to hold the time to resolution; it now means the time
+-- to the first move out of "new", and resolution gets its own columns
+ALTER TABLE public.issues
+ADD COLUMN responded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN response_working_time INTERVAL,
+ADD COLUMN resolution_time INTERVAL,
+ADD COLUMN resolution_working_time INTERVAL;
+
+UPDATE public.issues
+SET resolution_time = resolved_at - created_at,
+    resolution_working_time = public.working_time_between(department_id, created_at, resolved_at)
+WHERE resolved_at IS NOT NULL;
+
+UPDATE public.issues i
+SET responded_at = first_response.changed_at,
+    response_time = first_response.changed_at - i.created_at,
+    response_working_time = public.working_time_between(i.department_id, i.created_at, first_response.changed_at)
+FROM (
+  SELECT issue_id, min(changed_at) AS changed_at
+  FROM public.issue_status_history
+  WHERE from_status = 'new'
+  GROUP BY issue_id
+) AS first_response
+WHERE first_response.issue_id = i.id;
+
+UPDATE public.issues
+SET response_time = NULL
+WHERE responded_at IS NULL;
+
+-- Same as before, but stamps the first response as well as the resolution,
+-- each with its working time
+CREATE OR REPLACE FUNCTION public.enforce_issue_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule RECORD;
+  change_reason TEXT := nullif(trim(current_setting('app.status_reason', true)), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'new' THEN
+      RAISE EXCEPTION 'New issues must start with status new';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_of IS NULL THEN
+    SELECT * INTO rule FROM public.issue_status_transition(OLD.status, NEW.status);
+    IF NOT rule.allowed THEN
+      RAISE EXCEPTION 'Cannot change status from % to %', OLD.status, NEW.status;
+    END IF;
+    IF rule.requires_reason AND change_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to change status from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    change_reason := coalesce(change_reason, format('Follows #%s', NEW.duplicate_of));
+  END IF;
+
+  IF OLD.status = 'new' AND NEW.responded_at IS NULL THEN
+    NEW.responded_at := now();
+    NEW.response_time := NEW.responded_at - NEW.created_at;
+    NEW.response_working_time := public.working_time_between(NEW.department_id, NEW.created_at, NEW.responded_at);
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    NEW.resolved_at := now();
+    NEW.resolution_time := NEW.resolved_at - NEW.created_at;
+    NEW.resolution_working_time := public.working_time_between(NEW.department_id, NEW.created_at, NEW.resolved_at);
+  ELSIF public.is_open_status(NEW.status) THEN
+    NEW.resolved_at := NULL;
+    NEW.resolution_time := NULL;
+    NEW.resolution_working_time := NULL;
+  END IF;
+
+  INSERT INTO public.issue_status_history (issue_id, from_status, to_status, reason, changed_by)
+  VALUES (NEW.id, OLD.status, NEW.status, change_reason, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, with the new timing columns the status change stamps
+CREATE OR REPLACE FUNCTION public.enforce_issue_update_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  crew_columns TEXT[] := ARRAY[
+    'status', 'public_notes', 'resolved_at', 'responded_at',
+    'response_time', 'response_working_time', 'resolution_time', 'resolution_working_time'
+  ];
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_any_role(auth.uid(), ARRAY['admin', 'dispatcher']::app_role[])
+     OR public.heads_department(auth.uid(), OLD.department_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_role(auth.uid(), 'field_crew')
+     AND (to_jsonb(NEW) - crew_columns) IS DISTINCT FROM (to_jsonb(OLD) - crew_columns) THEN
+    RAISE EXCEPTION 'Field crews can only update the status and notes of their issues';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
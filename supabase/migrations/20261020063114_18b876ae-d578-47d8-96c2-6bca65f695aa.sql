@@ -0,0 +1,40 @@
+-- Reports can be filed by anyone, so routing no longer trusts an assignment
+-- sent with the insert: only staff may file a report straight to a
+-- department, team or assignee.
+CREATE OR REPLACE FUNCTION public.route_new_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  match RECORD;
+BEGIN
+  IF NOT public.is_staff() THEN
+    NEW.department_id := NULL;
+    NEW.team_id := NULL;
+    NEW.assigned_user_id := NULL;
+    NEW.assigned_to := NULL;
+    NEW.routing_rule_id := NULL;
+  END IF;
+
+  IF NEW.department_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO match
+  FROM public.evaluate_routing(NEW.category, NEW.title, NEW.description, NEW.latitude, NEW.longitude);
+
+  IF FOUND THEN
+    NEW.department_id := match.department_id;
+    NEW.team_id := match.team_id;
+    NEW.routing_rule_id := match.rule_id;
+  ELSE
+    SELECT c.default_department_id INTO NEW.department_id
+    FROM public.categories c
+    WHERE c.name = NEW.category;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
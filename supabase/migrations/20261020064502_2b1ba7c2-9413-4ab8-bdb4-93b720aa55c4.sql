@@ -0,0 +1,53 @@
+-- Receipts used to be claimed by a second call after the insert, and the
+-- first caller won, so anyone could claim a new report before its reporter
+-- did. Reports are now filed through submit_issue, which stores the receipt
+-- in the same transaction as the report.
+DROP FUNCTION IF EXISTS public.register_issue_receipt(BIGINT, TEXT, TEXT);
+
+-- Only the columns a reporter fills in are read from the report; routing,
+-- assignment and status are left to the triggers. Repeating the call with the
+-- same tracking code returns the report it already filed, so retries after a
+-- dropped connection don't file it twice.
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  report JSONB,
+  tracking_code TEXT,
+  device_token TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft public.issues%ROWTYPE;
+  code_hash TEXT;
+  new_issue_id BIGINT;
+BEGIN
+  PERFORM public.validate_tracking_code(tracking_code);
+  PERFORM public.validate_device_token(device_token);
+  code_hash := public.hash_device_token(tracking_code);
+
+  SELECT issue_id INTO new_issue_id FROM public.issue_receipts WHERE tracking_code_hash = code_hash;
+  IF FOUND THEN
+    RETURN new_issue_id;
+  END IF;
+
+  draft := jsonb_populate_record(NULL::public.issues, report);
+
+  INSERT INTO public.issues (
+    title, category, description, latitude, longitude, location_name, ward, neighbourhood,
+    postcode, street_address, landmark, image_url, details
+  )
+  VALUES (
+    draft.title, draft.category, draft.description, draft.latitude, draft.longitude, draft.location_name,
+    draft.ward, draft.neighbourhood, draft.postcode, draft.street_address, draft.landmark, draft.image_url,
+    coalesce(draft.details, '{}'::JSONB)
+  )
+  RETURNING id INTO new_issue_id;
+
+  INSERT INTO public.issue_receipts (issue_id, tracking_code_hash, device_token_hash, user_id)
+  VALUES (new_issue_id, code_hash, public.hash_device_token(device_token), auth.uid());
+
+  RETURN new_issue_id;
+END;
+$$;
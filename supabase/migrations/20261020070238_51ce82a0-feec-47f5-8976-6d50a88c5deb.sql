@@ -0,0 +1,53 @@
+-- Map playback asks for the issues open at some point in its range, so the
+-- result cap applies within that range rather than to the newest issues
+DROP FUNCTION IF EXISTS public.get_issues_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, UUID, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.get_issues_in_bounds(
+  min_latitude DOUBLE PRECISION,
+  min_longitude DOUBLE PRECISION,
+  max_latitude DOUBLE PRECISION,
+  max_longitude DOUBLE PRECISION,
+  category_filter TEXT DEFAULT NULL,
+  ward_filter UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 2000,
+  open_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  open_until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  id BIGINT,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  status issue_status,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  upvotes_count INTEGER,
+  ward_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.id, i.title, i.description, i.category, i.status, i.latitude::DOUBLE PRECISION, i.longitude::DOUBLE PRECISION,
+         i.upvotes_count, i.ward_id, i.created_at, i.resolved_at
+  FROM public.issues i
+  WHERE i.duplicate_of IS NULL
+    AND NOT coalesce(i.is_spam, false)
+    AND i.latitude BETWEEN min_latitude AND max_latitude
+    AND i.longitude BETWEEN min_longitude AND max_longitude
+    AND (category_filter IS NULL OR i.category = category_filter)
+    AND (ward_filter IS NULL OR i.ward_id = ward_filter)
+    AND (open_until IS NULL OR i.created_at <= open_until)
+    -- Issues closed without a recorded resolution time never count as open
+    AND (
+      open_from IS NULL
+      OR i.resolved_at >= open_from
+      OR (i.resolved_at IS NULL AND public.is_open_status(i.status))
+    )
+  ORDER BY i.created_at DESC
+  LIMIT least(greatest(max_results, 1), 5000)
+$$;
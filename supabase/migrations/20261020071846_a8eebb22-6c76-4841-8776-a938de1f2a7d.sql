@@ -0,0 +1,57 @@
+-- Photo answers are shown to staff as links, so they are only kept when they
+-- point into the issues storage bucket rather than being any string at all
+CREATE OR REPLACE FUNCTION public.is_issue_media_url(url TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(url ~ '^https?://[^/?#]+/storage/v1/object/public/issues/', false)
+$$;
+
+CREATE OR REPLACE FUNCTION public.clean_issue_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  field JSONB;
+  answer JSONB;
+  cleaned JSONB := '{}'::jsonb;
+BEGIN
+  FOR field IN
+    SELECT jsonb_array_elements(c.fields)
+    FROM public.categories c
+    WHERE c.name = NEW.category
+  LOOP
+    answer := NEW.details -> (field ->> 'key');
+    CONTINUE WHEN answer IS NULL OR answer = 'null'::jsonb;
+
+    IF CASE field ->> 'type'
+      WHEN 'number' THEN jsonb_typeof(answer) = 'number'
+      WHEN 'yes_no' THEN jsonb_typeof(answer) = 'boolean'
+      WHEN 'select' THEN jsonb_typeof(answer) = 'string' AND coalesce(field -> 'options', '[]'::jsonb) ? (answer #>> '{}')
+      WHEN 'photo' THEN jsonb_typeof(answer) = 'string' AND public.is_issue_media_url(answer #>> '{}')
+      ELSE jsonb_typeof(answer) = 'string'
+    END THEN
+      cleaned := cleaned || jsonb_build_object(field ->> 'key', answer);
+    END IF;
+  END LOOP;
+
+  NEW.details := cleaned;
+  RETURN NEW;
+END;
+$$;
+
+-- Earlier answers are held to the same rule
+UPDATE public.issues i
+SET details = i.details - (
+  SELECT coalesce(array_agg(f ->> 'key'), '{}')
+  FROM public.categories c, jsonb_array_elements(c.fields) AS f
+  WHERE c.name = i.category
+    AND f ->> 'type' = 'photo'
+    AND i.details ? (f ->> 'key')
+    AND NOT public.is_issue_media_url(i.details ->> (f ->> 'key'))
+)
+WHERE i.details <> '{}'::jsonb;
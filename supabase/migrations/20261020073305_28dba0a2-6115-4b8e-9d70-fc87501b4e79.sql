@@ -0,0 +1,27 @@
+-- Reports can be filed by anyone, so a new report from outside the staff
+-- always starts at normal priority and unescalated; otherwise a reporter
+-- could shorten their own due date or opt out of escalation.
+CREATE OR REPLACE FUNCTION public.set_issue_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT public.is_staff() THEN
+    NEW.priority := 'normal';
+    NEW.escalated_at := NULL;
+  END IF;
+
+  NEW.due_at := coalesce(NEW.created_at, now())
+    + make_interval(hours => public.issue_sla_hours(NEW.category, NEW.priority));
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.due_at IS DISTINCT FROM OLD.due_at
+     AND (NEW.due_at IS NULL OR NEW.due_at > now()) THEN
+    NEW.escalated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- submit_issue is now the only way to file a report. A direct insert would
+-- skip the receipt and could set columns only the server should, such as
+-- duplicate_of, is_spam, upvotes_count or resolved_at.
+DROP POLICY IF EXISTS "Anyone can insert issues" ON public.issues;
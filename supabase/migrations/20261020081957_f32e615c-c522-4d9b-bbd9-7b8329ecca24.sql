@@ -0,0 +1,52 @@
+-- Instance-wide settings the database needs to know about itself
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage app settings"
+ON public.app_settings
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The origin uploads are served from; self-hosted and local instances set
+-- their own
+INSERT INTO public.app_settings (key, value)
+VALUES ('storage_origin', 'https://yxjvmrvbysnaonyosssn.supabase.co')
+ON CONFLICT (key) DO NOTHING;
+
+-- Only public URLs of the issues bucket on this project's own storage count;
+-- with no origin configured nothing does
+CREATE OR REPLACE FUNCTION public.is_issue_media_url(url TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT starts_with(url, rtrim(s.value, '/') || '/storage/v1/object/public/issues/')
+        AND position('..' IN url) = 0
+      FROM public.app_settings s
+      WHERE s.key = 'storage_origin'
+    ),
+    false
+  )
+$$;
+
+-- Re-applies the check to answers kept under the looser one before it
+UPDATE public.issues i
+SET details = i.details - (
+  SELECT coalesce(array_agg(f ->> 'key'), '{}')
+  FROM public.categories c, jsonb_array_elements(c.fields) AS f
+  WHERE c.name = i.category
+    AND f ->> 'type' = 'photo'
+    AND i.details ? (f ->> 'key')
+    AND NOT public.is_issue_media_url(i.details ->> (f ->> 'key'))
+)
+WHERE i.details <> '{}'::jsonb;
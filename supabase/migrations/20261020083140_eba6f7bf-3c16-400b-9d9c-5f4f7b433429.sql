@@ -0,0 +1,141 @@
+-- Reporter uploads are held to the same rule as photo answers: a public URL
+-- of the issues bucket on this project's own storage, checked by
+-- is_issue_media_url. The old attachment check only looked for the bucket
+-- path anywhere in the URL, and the cover photo and follow-up photos weren't
+-- checked at all.
+CREATE OR REPLACE FUNCTION public.add_report_attachments(
+  p_issue_id BIGINT,
+  device_token TEXT,
+  urls TEXT[],
+  media_types TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  IF NOT public.owns_issue(p_issue_id, device_token) THEN
+    RAISE EXCEPTION 'Only the reporter can add attachments to this issue';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE id = p_issue_id AND created_at > now() - INTERVAL '1 day'
+  ) THEN
+    RAISE EXCEPTION 'Attachments can only be added to recently submitted issues';
+  END IF;
+
+  IF array_length(urls, 1) IS DISTINCT FROM array_length(media_types, 1) THEN
+    RAISE EXCEPTION 'Each attachment needs a media type';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(urls) AS u
+    WHERE NOT public.is_issue_media_url(u)
+  ) THEN
+    RAISE EXCEPTION 'Attachments must be uploaded to the issues bucket';
+  END IF;
+
+  SELECT coalesce(max(position), -1) + 1 INTO next_position
+  FROM public.issue_attachments
+  WHERE issue_id = p_issue_id AND kind = 'before';
+
+  INSERT INTO public.issue_attachments (issue_id, url, media_type, kind, position, uploaded_by)
+  SELECT p_issue_id, a.url, a.media_type, 'before', next_position + a.ordinality::INTEGER - 1, auth.uid()
+  FROM unnest(urls, media_types) WITH ORDINALITY AS a(url, media_type, ordinality)
+  ON CONFLICT (issue_id, url) DO NOTHING;
+
+  IF (SELECT count(*) FROM public.issue_attachments WHERE issue_id = p_issue_id AND kind = 'before') > 6 THEN
+    RAISE EXCEPTION 'Reports can have at most 6 photos or videos';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_issue_followup(
+  p_issue_id BIGINT,
+  device_token TEXT,
+  tracking_code TEXT,
+  body TEXT,
+  image_url TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  followup_id BIGINT;
+BEGIN
+  IF NOT public.owns_issue(p_issue_id, device_token, tracking_code) THEN
+    RAISE EXCEPTION 'Only the reporter can add follow-ups to this issue';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE id = p_issue_id AND public.is_open_status(status)
+  ) THEN
+    RAISE EXCEPTION 'Follow-ups can only be added while the issue is open';
+  END IF;
+
+  IF add_issue_followup.image_url IS NOT NULL AND NOT public.is_issue_media_url(add_issue_followup.image_url) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to the issues bucket';
+  END IF;
+
+  INSERT INTO public.issue_followups (issue_id, body, image_url)
+  VALUES (p_issue_id, nullif(trim(add_issue_followup.body), ''), add_issue_followup.image_url)
+  RETURNING id INTO followup_id;
+
+  RETURN followup_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  report JSONB,
+  tracking_code TEXT,
+  device_token TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft public.issues%ROWTYPE;
+  code_hash TEXT;
+  new_issue_id BIGINT;
+BEGIN
+  PERFORM public.validate_tracking_code(tracking_code);
+  PERFORM public.validate_device_token(device_token);
+  code_hash := public.hash_device_token(tracking_code);
+
+  SELECT issue_id INTO new_issue_id FROM public.issue_receipts WHERE tracking_code_hash = code_hash;
+  IF FOUND THEN
+    RETURN new_issue_id;
+  END IF;
+
+  draft := jsonb_populate_record(NULL::public.issues, report);
+
+  IF draft.image_url IS NOT NULL AND NOT public.is_issue_media_url(draft.image_url) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to the issues bucket';
+  END IF;
+
+  INSERT INTO public.issues (
+    title, category, description, latitude, longitude, location_name, ward, neighbourhood,
+    postcode, street_address, landmark, image_url, details
+  )
+  VALUES (
+    draft.title, draft.category, draft.description, draft.latitude, draft.longitude, draft.location_name,
+    draft.ward, draft.neighbourhood, draft.postcode, draft.street_address, draft.landmark, draft.image_url,
+    coalesce(draft.details, '{}'::JSONB)
+  )
+  RETURNING id INTO new_issue_id;
+
+  INSERT INTO public.issue_receipts (issue_id, tracking_code_hash, device_token_hash, user_id)
+  VALUES (new_issue_id, code_hash, public.hash_device_token(device_token), auth.uid());
+
+  RETURN new_issue_id;
+END;
+$$;
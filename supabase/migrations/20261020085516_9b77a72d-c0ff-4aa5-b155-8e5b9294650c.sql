@@ -0,0 +1,50 @@
+-- Signed-in callers are matched by their account only, and anonymous ones by
+-- device only among rows no account owns. Matching on either let a second
+-- account on a shared device, or anyone there after signing out, reach the
+-- first account's email address and inbox.
+CREATE OR REPLACE FUNCTION public.find_notification_recipient(device_token TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.notification_recipients
+  WHERE CASE
+    WHEN auth.uid() IS NOT NULL THEN user_id = auth.uid()
+    ELSE user_id IS NULL AND device_token IS NOT NULL AND device_token_hash = public.hash_device_token(device_token)
+  END
+  LIMIT 1
+$$;
+
+-- Account rows no longer hold a device, so the device stays free for its own
+-- anonymous row
+CREATE OR REPLACE FUNCTION public.ensure_notification_recipient(device_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient_id UUID;
+BEGIN
+  PERFORM public.validate_device_token(device_token);
+  recipient_id := public.find_notification_recipient(device_token);
+
+  IF recipient_id IS NULL THEN
+    INSERT INTO public.notification_recipients (device_token_hash, user_id)
+    VALUES (
+      CASE WHEN auth.uid() IS NULL THEN public.hash_device_token(device_token) END,
+      auth.uid()
+    )
+    RETURNING id INTO recipient_id;
+  END IF;
+
+  RETURN recipient_id;
+END;
+$$;
+
+UPDATE public.notification_recipients
+SET device_token_hash = NULL
+WHERE user_id IS NOT NULL;
@@ -0,0 +1,76 @@
+-- Recipients are now found from this issue's receipt and followers, through
+-- the indexed keys, instead of checking every recipient against them
+CREATE OR REPLACE FUNCTION public.enqueue_issue_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient RECORD;
+  notification_id BIGINT;
+  message TEXT;
+  change_reason TEXT := nullif(trim(current_setting('app.status_reason', true)), '');
+BEGIN
+  IF NEW.is_spam THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND (NEW.public_notes IS NOT DISTINCT FROM OLD.public_notes OR nullif(trim(NEW.public_notes), '') IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Merged duplicates get their own status update through the cascade
+  -- trigger, so only this issue's reporters and followers are notified here.
+  FOR recipient IN
+    WITH matched AS (
+      SELECT n.id, true AS is_reporter
+      FROM public.issue_receipts r
+      JOIN public.notification_recipients n ON n.user_id = r.user_id
+      WHERE r.issue_id = NEW.id
+      UNION ALL
+      SELECT n.id, true
+      FROM public.issue_receipts r
+      JOIN public.notification_recipients n ON n.device_token_hash = r.device_token_hash
+      WHERE r.issue_id = NEW.id
+      UNION ALL
+      SELECT s.recipient_id, false
+      FROM public.issue_subscriptions s
+      WHERE s.issue_id = NEW.id
+    )
+    SELECT n.*, bool_or(m.is_reporter) AS is_reporter
+    FROM matched m
+    JOIN public.notification_recipients n ON n.id = m.id
+    WHERE n.in_app_enabled OR n.push_enabled OR (n.email_enabled AND n.email IS NOT NULL)
+    GROUP BY n.id
+  LOOP
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      message := format(
+        '%s now %s.',
+        CASE WHEN recipient.is_reporter THEN 'Your report is' ELSE 'This issue is' END,
+        replace(NEW.status::TEXT, '_', ' ')
+      );
+      IF change_reason IS NOT NULL THEN
+        message := message || ' ' || change_reason;
+      END IF;
+    ELSE
+      message := 'The city posted an update: ' || left(NEW.public_notes, 280);
+    END IF;
+
+    INSERT INTO public.notifications (recipient_id, issue_id, title, body, url, show_in_app)
+    VALUES (recipient.id, NEW.id, format('Report #%s: %s', NEW.id, NEW.title), message, format('/issues/%s', NEW.id), recipient.in_app_enabled)
+    RETURNING id INTO notification_id;
+
+    IF recipient.email_enabled AND recipient.email IS NOT NULL THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'email');
+    END IF;
+
+    IF recipient.push_enabled AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE recipient_id = recipient.id) THEN
+      INSERT INTO public.notification_deliveries (notification_id, channel) VALUES (notification_id, 'push');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- issues.ward follows the ward boundaries: it is cleared when an issue's ward
+-- is deleted or it falls outside every boundary, and renamed with its ward,
+-- so nothing shows a ward name that no longer exists
+CREATE OR REPLACE FUNCTION public.sync_issue_ward_names()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.issues SET ward = NULL WHERE ward_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.issues SET ward = NEW.name WHERE ward_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_issue_ward_names_on_rename
+  AFTER UPDATE OF name ON public.wards
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION public.sync_issue_ward_names();
+
+-- Runs before the foreign key sets ward_id to NULL, while the issues can
+-- still be found
+CREATE TRIGGER sync_issue_ward_names_on_delete
+  BEFORE DELETE ON public.wards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_issue_ward_names();
+
+CREATE OR REPLACE FUNCTION public.backfill_issue_wards()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assigned INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reassign wards';
+  END IF;
+
+  UPDATE public.issues i
+  SET ward_id = m.ward_id,
+      ward = w.name
+  FROM (
+    SELECT id, public.find_ward(latitude, longitude) AS ward_id
+    FROM public.issues
+  ) m
+  LEFT JOIN public.wards w ON w.id = m.ward_id
+  WHERE i.id = m.id
+    AND i.ward_id IS DISTINCT FROM m.ward_id;
+
+  SELECT count(*) INTO assigned FROM public.issues WHERE ward_id IS NOT NULL;
+  RETURN assigned;
+END;
+$$;
+
+-- Issues already holding a renamed ward's old name
+UPDATE public.issues i
+SET ward = w.name
+FROM public.wards w
+WHERE w.id = i.ward_id
+  AND i.ward IS DISTINCT FROM w.name;
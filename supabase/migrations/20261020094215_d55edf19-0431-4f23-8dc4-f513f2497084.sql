@@ -0,0 +1,36 @@
+-- Keywords are matched as plain text. As ILIKE patterns, a % or _ in an
+-- admin's keyword matched far more reports than intended.
+CREATE OR REPLACE FUNCTION public.evaluate_routing(
+  input_category TEXT,
+  input_title TEXT,
+  input_description TEXT,
+  input_latitude DOUBLE PRECISION,
+  input_longitude DOUBLE PRECISION,
+  include_inactive BOOLEAN DEFAULT false
+)
+RETURNS TABLE(rule_id UUID, department_id UUID, team_id UUID)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.department_id, r.team_id
+  FROM public.routing_rules r
+  WHERE (r.is_active OR include_inactive)
+    AND (r.category IS NULL OR r.category = input_category)
+    AND (
+      r.min_latitude IS NULL
+      OR (input_latitude BETWEEN r.min_latitude AND r.max_latitude
+          AND input_longitude BETWEEN r.min_longitude AND r.max_longitude)
+    )
+    AND (
+      coalesce(cardinality(r.keywords), 0) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM unnest(r.keywords) AS keyword
+        WHERE position(lower(keyword) IN lower(coalesce(input_title, '') || ' ' || coalesce(input_description, ''))) > 0
+      )
+    )
+  ORDER BY r.position, r.created_at
+  LIMIT 1
+$$;